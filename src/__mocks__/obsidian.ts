@@ -1,7 +1,20 @@
 export const App = class {};
 export const Modal = class {};
+export const FuzzySuggestModal = class {};
 export const Plugin = class {};
 export const Setting = class {};
+export const SettingTab = class {};
+export const ItemView = class {
+    leaf: unknown;
+
+    constructor(leaf: unknown) {
+        this.leaf = leaf;
+    }
+
+    setState() {
+        return Promise.resolve();
+    }
+};
 export const Notice = class {
     static messages: string[] = [];
 
@@ -1 +1,13 @@
 export const ON_DEMAND_PLUGIN_ID = "on-demand-plugins";
+
+/** Longest time a "lazy on idle" plugin waits for the app to become idle after layout ready. */
+export const IDLE_LOAD_TIMEOUT_MS = 10_000;
+
+/** How often loaded lazy plugins are checked against their idle-unload timeout. */
+export const IDLE_UNLOAD_CHECK_INTERVAL_MS = 60_000;
+
+/** How long load-time samples and usage counts are batched before they are written to local storage. */
+export const STATS_SAVE_DELAY_MS = 2_000;
+
+/** How many load-time samples are kept per plugin. */
+export const LOAD_TIME_HISTORY_SIZE = 20;
@@ -5,11 +5,9 @@
  * Each service depends on the *interface* of the other, not the concrete class.
  * The ServiceContainer wires them together via setter injection.
  */
+import type { CachedCommandEntry, LoadTrigger } from "src/core/types";
 
-export interface CachedCommand {
-    id: string;
-    name: string;
-    icon?: string;
+export interface CachedCommand extends CachedCommandEntry {
     pluginId: string;
 }
 
@@ -30,5 +28,6 @@ export interface CommandRegistry {
  */
 export interface PluginLoader {
     waitForPluginLoaded(pluginId: string, timeoutMs?: number): Promise<boolean>;
+    ensurePluginLoaded(pluginId: string, trigger?: LoadTrigger): Promise<boolean>;
     runLazyCommand(commandId: string): Promise<void>;
 }
@@ -4,4 +4,4 @@
  */
 export { SettingsTab } from "src/ui/settings-tab";
 export { DEFAULT_DEVICE_SETTINGS, DEFAULT_SETTINGS, PluginModes } from "./types";
-export type { CachedCommandEntry, CommandCache, CommandCacheVersions, DeviceSettings, LazySettings, PluginSettings, PLUGIN_MODE as PluginMode } from "./types";
+export type { CachedCommandEntry, CachedRegistrations, CommandCache, CommandCacheVersions, DeviceSettings, LazySettings, PluginSettings, PLUGIN_MODE as PluginMode, RegistrationCache } from "./types";
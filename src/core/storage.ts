@@ -29,11 +29,22 @@ export function loadLocalStorage<T = unknown>(app: App, prefix: string): T | und
     }
 }
 
-export function saveLocalStorage<T = unknown>(app: App, prefix: string, value: T) {
+/** @returns false when the value could not be written, e.g. because the quota is exceeded. */
+export function saveLocalStorage<T = unknown>(app: App, prefix: string, value: T): boolean {
     try {
         const key = vaultKey(app, prefix);
         store.set(key, value);
+        return true;
     } catch (e) {
         logger.error("Failed to save JSON to storage", e);
+        return false;
+    }
+}
+
+export function removeLocalStorage(app: App, prefix: string): void {
+    try {
+        store.remove(vaultKey(app, prefix));
+    } catch (e) {
+        logger.error("Failed to remove JSON from storage", e);
     }
 }
@@ -2,12 +2,14 @@
  * Shared type definitions extracted from settings.ts
  * These types are used across multiple features/services.
  */
+import type { Hotkey } from "obsidian";
 
 export const PLUGIN_MODE = {
     ALWAYS_DISABLED: "alwaysDisabled",
     LAZY: "lazy",
     ALWAYS_ENABLED: "alwaysEnabled",
     LAZY_ON_LAYOUT_READY: "lazyOnLayoutReady",
+    LAZY_ON_IDLE: "lazyOnIdle",
 } as const;
 
 export type PLUGIN_MODE = (typeof PLUGIN_MODE)[keyof typeof PLUGIN_MODE];
@@ -16,20 +18,53 @@ export const PluginModes: Record<PLUGIN_MODE, string> = {
     [PLUGIN_MODE.ALWAYS_DISABLED]: "⛔ Always disabled",
     [PLUGIN_MODE.LAZY]: "🤲 Lazy on demand",
     [PLUGIN_MODE.LAZY_ON_LAYOUT_READY]: "🚀 Lazy on layout ready",
+    [PLUGIN_MODE.LAZY_ON_IDLE]: "💤 Lazy on idle",
     [PLUGIN_MODE.ALWAYS_ENABLED]: "✅ Always enabled",
 };
 
+/**
+ * Load tiers for plugins loaded after layout ready (or on idle).
+ * Every plugin in a tier finishes loading before the next tier starts.
+ */
+export const LOAD_PRIORITY = {
+    HIGH: "high",
+    NORMAL: "normal",
+    LOW: "low",
+} as const;
+
+export type LOAD_PRIORITY = (typeof LOAD_PRIORITY)[keyof typeof LOAD_PRIORITY];
+
+export const LoadPriorities: Record<LOAD_PRIORITY, string> = {
+    [LOAD_PRIORITY.HIGH]: "High",
+    [LOAD_PRIORITY.NORMAL]: "Normal",
+    [LOAD_PRIORITY.LOW]: "Low",
+};
+
 export interface LazyOptions {
     useView: boolean;
     viewTypes: string[];
     useFile: boolean;
     fileCriteria: FileActivationCriteria;
+    /** Load the plugin when a file with one of `extensions` is opened. */
+    useExtensions?: boolean;
+    /** Extensions without the leading dot, as passed to `registerExtensions`. */
+    extensions?: string[];
+    /** Show placeholders for the plugin's file-menu / files-menu / editor-menu items. */
+    useMenus?: boolean;
 }
 
 export interface PluginSettings {
     mode?: PLUGIN_MODE;
     userConfigured?: boolean;
     lazyOptions?: LazyOptions;
+    /** Tier used when the plugin is loaded after layout ready or on idle. Defaults to normal. */
+    loadPriority?: LOAD_PRIORITY;
+    /** Plugin IDs that must finish loading first when they are loaded in the same pass. */
+    loadAfter?: string[];
+    /** Plugin IDs whose API this plugin uses; they are loaded first whenever this plugin is lazy-loaded. */
+    dependsOn?: string[];
+    /** Lazy-on-demand only: disable the plugin again after this many minutes without use. */
+    unloadAfterIdleMinutes?: number;
 }
 
 export interface FileActivationCriteria {
@@ -45,6 +80,18 @@ export interface DeviceSettings {
     // installed manifests are pruned during the manifest reconcile pass.
     pruneUninstalledEntries: boolean;
     showDescriptions: boolean;
+    // When true, a lazy plugin that another plugin looks up via
+    // app.plugins.getPlugin / app.plugins.plugins[id] is loaded on the spot.
+    loadOnPluginLookup: boolean;
+    // When true, the command cache is also written to a file in the plugin
+    // directory that syncs with the vault, and merged in on startup.
+    shareCommandCache: boolean;
+    // Where this device keeps its command cache.
+    commandCacheBackend: CommandCacheBackendKind;
+    // How many plugins load in parallel after layout ready / on idle, and how
+    // long each load slot waits before the next plugin starts.
+    layoutReadyConcurrency: number;
+    layoutReadyDelayMs: number;
     plugins: { [pluginId: string]: PluginSettings };
     lazyOnViews: { [pluginId: string]: string[] };
     lazyOnFiles: { [pluginId: string]: FileActivationCriteria };
@@ -54,6 +101,11 @@ export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
     defaultMode: PLUGIN_MODE.ALWAYS_DISABLED,
     pruneUninstalledEntries: false,
     showDescriptions: true,
+    loadOnPluginLookup: false,
+    shareCommandCache: false,
+    commandCacheBackend: "localStorage",
+    layoutReadyConcurrency: 3,
+    layoutReadyDelayMs: 0,
     plugins: {},
     lazyOnViews: {},
     lazyOnFiles: {},
@@ -106,11 +158,117 @@ export const DEFAULT_SETTINGS: LazySettings = {
     mobileProfileId: DEFAULT_PROFILE_ID,
 };
 
+/** Which of the `Command` callbacks the real command uses; decides where Obsidian offers it. */
+export type CommandCallbackKind = "callback" | "checkCallback" | "editorCallback" | "editorCheckCallback";
+
 export interface CachedCommandEntry {
     id: string;
     name: string;
     icon?: string;
+    /** Missing in caches written before the kind was recorded; treated as `callback`. */
+    kind?: CommandCallbackKind;
+    allowPreview?: boolean;
+    allowProperties?: boolean;
+    mobileOnly?: boolean;
+    /** Default hotkeys declared by the plugin, so they work before it is loaded. */
+    hotkeys?: Hotkey[];
 }
 
 export type CommandCache = Record<string, CachedCommandEntry[]>;
 export type CommandCacheVersions = Record<string, string>;
+
+/**
+ * Non-command registrations captured while a plugin was loaded for its
+ * command snapshot. Persisted next to the command cache so stubs can be
+ * registered at startup without loading the plugin.
+ */
+export interface CachedRegistrations {
+    /** Actions passed to `registerObsidianProtocolHandler` (obsidian://<action>). */
+    protocolActions?: string[];
+    /** Icons passed to `addRibbonIcon`, rendered as placeholders while the plugin is unloaded. */
+    ribbonIcons?: CachedRibbonIcon[];
+    /** Languages passed to `registerMarkdownCodeBlockProcessor` (```<language> fences). */
+    codeBlockLanguages?: string[];
+    /** Tabs passed to `addSettingTab`, listed as placeholders in the settings modal. */
+    settingTabs?: CachedSettingTab[];
+    /** Context menu items the plugin added for representative targets during the snapshot. */
+    menuItems?: CachedMenuItem[];
+    /** Background hooks the plugin installed: vault, metadata cache and workspace events (`vault:modify`), timers (`interval`), DOM events (`dom:keydown`) and `editorExtension`. */
+    backgroundHooks?: string[];
+}
+
+export interface CachedRibbonIcon {
+    icon: string;
+    title: string;
+    /** Index in the left ribbon when the plugin added the icon. */
+    position?: number;
+}
+
+export interface CachedSettingTab {
+    id: string;
+    name: string;
+}
+
+export type MenuEventName = "file-menu" | "files-menu" | "editor-menu";
+
+/** What made a plugin load: a lazy trigger, the layout-ready or idle pass, or applying settings. */
+export type LoadTrigger = "onDemand" | "layoutReady" | "idle" | "apply";
+
+export interface LoadTimeSample {
+    /** Time from enabling the plugin until it reported loaded. */
+    durationMs: number;
+    timestamp: number;
+    trigger: LoadTrigger;
+}
+
+/** Plugin ID → most recent load times, oldest first. */
+export type LoadTimeHistory = Record<string, LoadTimeSample[]>;
+
+/** What showed that a lazy plugin was needed: one of its commands, views or file rules. */
+export type UsageKind = "command" | "view" | "file";
+
+export interface UsageCounter {
+    count: number;
+    lastUsedAt: number;
+    /** Times of the uses within the last week, oldest first. */
+    recentUses?: number[];
+}
+
+/** Plugin ID → usage per kind. */
+export type UsageStats = Record<string, Partial<Record<UsageKind, UsageCounter>>>;
+
+export interface CachedMenuItem {
+    menu: MenuEventName;
+    title: string;
+    icon?: string;
+    section?: string;
+}
+
+export type RegistrationCache = Record<string, CachedRegistrations>;
+
+export type CachePlatform = "desktop" | "mobile";
+
+export type CommandCacheBackendKind = "localStorage" | "indexedDb" | "file";
+
+export const COMMAND_CACHE_BACKENDS: CommandCacheBackendKind[] = ["localStorage", "indexedDb", "file"];
+
+/** Everything CommandCacheStore persists, as kept in local storage. */
+export interface CommandCacheSnapshot {
+    commands: CommandCache;
+    versions: CommandCacheVersions;
+    registrations: RegistrationCache;
+}
+
+/** A snapshot as written by a storage backend, tagged with the schema it follows. */
+export interface PersistedCommandCache extends CommandCacheSnapshot {
+    /** Missing in caches written before the schema was versioned (version 1). */
+    schemaVersion?: number;
+}
+
+/**
+ * Contents of the shared cache file. Each platform keeps its own snapshot,
+ * since plugins can register different commands on desktop and mobile.
+ */
+export interface SharedCommandCacheFile {
+    platforms: Partial<Record<CachePlatform, CommandCacheSnapshot>>;
+}
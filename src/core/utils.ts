@@ -1,6 +1,7 @@
 import type { LogLevelDesc } from "loglevel";
 import { default as log } from "loglevel";
 import type { App, WorkspaceLeaf } from "obsidian";
+import type { DeviceSettings, LazyOptions } from "src/core/types";
 import { PLUGIN_MODE } from "src/core/types";
 
 export function toggleLoggerBy(level: LogLevelDesc, filter: (name: string) => boolean = () => true): void {
@@ -44,5 +45,48 @@ export function isPluginEnabled(enabledPlugins: Set<string>, pluginId: string):
  * Checks if a plugin mode is lazy (any mode that is not `alwaysEnabled` or `alwaysDisabled`)
  */
 export function isLazyMode(mode: PLUGIN_MODE): boolean {
-    return mode === PLUGIN_MODE.LAZY || mode === PLUGIN_MODE.LAZY_ON_LAYOUT_READY;
+    return mode === PLUGIN_MODE.LAZY || mode === PLUGIN_MODE.LAZY_ON_LAYOUT_READY || mode === PLUGIN_MODE.LAZY_ON_IDLE;
+}
+
+/**
+ * Lazy options for a plugin that has none configured yet, seeded from the
+ * legacy per-plugin view and file rules.
+ */
+export function createDefaultLazyOptions(settings: DeviceSettings, pluginId: string): LazyOptions {
+    const legacyViewTypes = settings.lazyOnViews?.[pluginId] ?? [];
+    const options: LazyOptions = {
+        // Legacy view rules are represented by LAZY + lazyOptions/useView.
+        useView: settings.plugins[pluginId]?.mode === PLUGIN_MODE.LAZY && legacyViewTypes.length > 0,
+        viewTypes: [...legacyViewTypes],
+        useFile: false,
+        fileCriteria: settings.lazyOnFiles?.[pluginId] || {},
+    };
+
+    // Special case for Excalidraw if not configured
+    if (pluginId === "obsidian-excalidraw-plugin") {
+        options.useFile = true;
+        options.fileCriteria = {
+            suffixes: [".excalidraw"],
+            frontmatterKeys: ["excalidraw-plugin"],
+        };
+    }
+    return options;
+}
+
+/**
+ * Run `callback` once the app is idle, or after `timeoutMs` at the latest.
+ * Falls back to a short timer where requestIdleCallback is unavailable (iOS).
+ * @returns A function that cancels the pending callback.
+ */
+export function runWhenIdle(callback: () => void, timeoutMs: number): () => void {
+    const idleWindow = window as unknown as {
+        requestIdleCallback?: (callback: () => void, options: { timeout: number }) => number;
+        cancelIdleCallback?: (handle: number) => void;
+    };
+    if (idleWindow.requestIdleCallback) {
+        const handle = idleWindow.requestIdleCallback(() => callback(), { timeout: timeoutMs });
+        return () => idleWindow.cancelIdleCallback?.(handle);
+    }
+    const handle = window.setTimeout(callback, Math.min(timeoutMs, 1_000));
+    return () => window.clearTimeout(handle);
 }
@@ -0,0 +1,53 @@
+import type { PluginManifest } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+import { analyzeBundleSource, BundleAnalyzer, getBundleCompatibility } from "src/features/lazy-engine/bundle-analyzer";
+import { describe, expect, it, vi } from "vitest";
+
+describe("analyzeBundleSource", () => {
+    it("finds background hooks in minified bundles", () => {
+        const source = 'class t extends o.Plugin{onload(){this.registerEvent(this.app.vault.on("modify",n=>{})),e.app.metadataCache.on("changed",r),this.registerInterval(window.setInterval(a,1e3))}}';
+
+        expect(analyzeBundleSource(source).map((finding) => finding.id)).toEqual(["registerInterval", "vault.on", "metadataCache.on"]);
+    });
+
+    it("ignores APIs On-Demand handles, like code block processors", () => {
+        expect(analyzeBundleSource('this.registerMarkdownCodeBlockProcessor("chart",f);this.addCommand({id:"x"})')).toEqual([]);
+    });
+});
+
+describe("getBundleCompatibility", () => {
+    it("reports the most severe finding", () => {
+        expect(getBundleCompatibility([])).toBe("compatible");
+        expect(getBundleCompatibility(analyzeBundleSource("this.registerMarkdownPostProcessor(f)"))).toBe("limited");
+        expect(getBundleCompatibility(analyzeBundleSource("this.registerMarkdownPostProcessor(f);this.registerEditorExtension([])"))).toBe("unsafe");
+    });
+});
+
+describe("BundleAnalyzer", () => {
+    const manifest = (version: string) => ({ id: "plugin-a", version, dir: "plugins/plugin-a" }) as PluginManifest;
+
+    function createAnalyzer(read: (path: string) => Promise<string>) {
+        const ctx = { app: { vault: { adapter: { read: vi.fn(read) } } } };
+        return { analyzer: new BundleAnalyzer(ctx as unknown as PluginContext), read: ctx.app.vault.adapter.read };
+    }
+
+    it("reads main.js from the manifest dir once per plugin version", async () => {
+        const { analyzer, read } = createAnalyzer(() => Promise.resolve("this.registerInterval(x)"));
+
+        expect(await analyzer.analyzeAll([manifest("1.0.0")])).toBe(true);
+        expect(await analyzer.analyzeAll([manifest("1.0.0")])).toBe(false);
+        await analyzer.analyzeAll([manifest("1.1.0")]);
+
+        expect(read).toHaveBeenCalledTimes(2);
+        expect(read).toHaveBeenCalledWith("plugins/plugin-a/main.js");
+        expect(analyzer.get("plugin-a")).toMatchObject({ version: "1.1.0", compatibility: "unsafe" });
+    });
+
+    it("leaves plugins whose bundle cannot be read unanalyzed", async () => {
+        const { analyzer } = createAnalyzer(() => Promise.reject(new Error("ENOENT")));
+
+        await analyzer.analyzeAll([manifest("1.0.0")]);
+
+        expect(analyzer.get("plugin-a")).toBeUndefined();
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * bundle-analyzer.ts — Static check of plugin bundles for lazy-loading compatibility.
+ *
+ * Each installed plugin's `main.js` is scanned for API calls whose effect is
+ * lost or delayed while the plugin is not loaded. The result is shown as a
+ * badge in the settings list so users see the risk before choosing
+ * Lazy on demand, instead of finding out when something stops working.
+ */
+import log from "loglevel";
+import type { PluginManifest } from "obsidian";
+import { normalizePath } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+
+const logger = log.getLogger("OnDemandPlugin/BundleAnalyzer");
+
+/**
+ * - `unsafe`: background work that never runs until the plugin is loaded.
+ * - `limited`: covered by On-Demand in part; some behaviour waits for the first load.
+ */
+export type BundleFindingSeverity = "unsafe" | "limited";
+
+export interface BundleFinding {
+    id: string;
+    label: string;
+    severity: BundleFindingSeverity;
+}
+
+export type BundleCompatibility = "compatible" | BundleFindingSeverity;
+
+export interface BundleAnalysis {
+    version: string;
+    compatibility: BundleCompatibility;
+    findings: BundleFinding[];
+}
+
+interface BundlePattern extends BundleFinding {
+    pattern: RegExp;
+}
+
+// Patterns match minified bundles too, where `this.app.vault` becomes e.g. `e.app.vault`.
+const BUNDLE_PATTERNS: BundlePattern[] = [
+    { id: "registerInterval", label: "Runs timers (registerInterval)", severity: "unsafe", pattern: /\.registerInterval\s*\(/ },
+    { id: "vault.on", label: "Listens to vault events (vault.on)", severity: "unsafe", pattern: /\.vault\.on\s*\(/ },
+    { id: "metadataCache.on", label: "Listens to metadata cache events (metadataCache.on)", severity: "unsafe", pattern: /\.metadataCache\.on\s*\(/ },
+    { id: "registerEditorExtension", label: "Adds editor extensions (registerEditorExtension)", severity: "unsafe", pattern: /\.registerEditorExtension\s*\(/ },
+    { id: "registerMarkdownPostProcessor", label: "Post-processes rendered notes (registerMarkdownPostProcessor)", severity: "limited", pattern: /\.registerMarkdownPostProcessor\s*\(/ },
+    { id: "registerObsidianProtocolHandler", label: "Handles obsidian:// links (registerObsidianProtocolHandler)", severity: "limited", pattern: /\.registerObsidianProtocolHandler\s*\(/ },
+];
+
+/** Find the lazy-loading relevant API calls in a plugin bundle. */
+export function analyzeBundleSource(source: string): BundleFinding[] {
+    return BUNDLE_PATTERNS.filter(({ pattern }) => pattern.test(source)).map(({ id, label, severity }) => ({ id, label, severity }));
+}
+
+export function getBundleCompatibility(findings: BundleFinding[]): BundleCompatibility {
+    if (findings.some((finding) => finding.severity === "unsafe")) return "unsafe";
+    return findings.length ? "limited" : "compatible";
+}
+
+/**
+ * Reads and analyzes plugin bundles, keeping one result per plugin version
+ * for the session so the settings tab can render synchronously.
+ */
+export class BundleAnalyzer {
+    private results = new Map<string, BundleAnalysis>();
+
+    private ctx: PluginContext;
+
+    constructor(ctx: PluginContext) {
+        this.ctx = ctx;
+    }
+
+    get(pluginId: string): BundleAnalysis | undefined {
+        return this.results.get(pluginId);
+    }
+
+    /** Analyze every manifest without a result for its current version. Returns whether anything new was analyzed. */
+    async analyzeAll(manifests: PluginManifest[]): Promise<boolean> {
+        let analyzed = false;
+        for (const manifest of manifests) {
+            if (this.results.get(manifest.id)?.version === manifest.version) continue;
+            if (await this.analyze(manifest)) analyzed = true;
+        }
+        return analyzed;
+    }
+
+    async analyze(manifest: PluginManifest): Promise<BundleAnalysis | undefined> {
+        if (!manifest.dir) return undefined;
+
+        let source: string;
+        try {
+            source = await this.ctx.app.vault.adapter.read(normalizePath(`${manifest.dir}/main.js`));
+        } catch (error) {
+            logger.debug(`could not read main.js of ${manifest.id}`, error);
+            return undefined;
+        }
+
+        const findings = analyzeBundleSource(source);
+        const analysis: BundleAnalysis = { version: manifest.version, compatibility: getBundleCompatibility(findings), findings };
+        this.results.set(manifest.id, analysis);
+        return analysis;
+    }
+
+    clear(): void {
+        this.results.clear();
+    }
+}
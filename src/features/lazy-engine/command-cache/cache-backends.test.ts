@@ -0,0 +1,132 @@
+import type { App } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+import * as storageMs from "src/core/storage";
+import { FileCacheBackend, IndexedDbCacheBackend, LOCAL_STORAGE_MAX_CHARS, LocalStorageCacheBackend } from "src/features/lazy-engine/command-cache/cache-backends";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../../core/storage");
+
+const cache = { schemaVersion: 2, commands: { "plugin-a": [{ id: "plugin-a:run", name: "Run" }] }, versions: { "plugin-a": "1.0.0" }, registrations: {} };
+
+describe("LocalStorageCacheBackend", () => {
+    const app = {} as App;
+
+    beforeEach(() => {
+        vi.resetAllMocks();
+    });
+
+    it("reads the existing keys as one cache", async () => {
+        vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+            if (key === "commandCache") return cache.commands;
+            if (key === "commandCacheVersions") return cache.versions;
+            return null;
+        });
+
+        await expect(new LocalStorageCacheBackend(app).load()).resolves.toEqual({ schemaVersion: undefined, commands: cache.commands, versions: cache.versions, registrations: {} });
+    });
+
+    it("rejects caches over the size limit without writing", async () => {
+        const huge = { ...cache, commands: { "plugin-a": [{ id: "plugin-a:run", name: "x".repeat(LOCAL_STORAGE_MAX_CHARS) }] } };
+
+        await expect(new LocalStorageCacheBackend(app).save(huge)).rejects.toThrow("over the");
+        expect(storageMs.saveLocalStorage).not.toHaveBeenCalled();
+    });
+
+    it("rejects when local storage refuses a write", async () => {
+        vi.mocked(storageMs.saveLocalStorage).mockReturnValue(false);
+
+        await expect(new LocalStorageCacheBackend(app).save(cache)).rejects.toThrow("quota");
+    });
+});
+
+describe("FileCacheBackend", () => {
+    it("writes, reads and clears a cache file named after this app in the plugin folder", async () => {
+        const files = new Map<string, string>();
+        const adapter = {
+            exists: vi.fn((path: string) => Promise.resolve(files.has(path))),
+            read: vi.fn((path: string) => Promise.resolve(files.get(path) ?? "")),
+            write: vi.fn((path: string, data: string) => Promise.resolve(void files.set(path, data))),
+            remove: vi.fn((path: string) => Promise.resolve(void files.delete(path))),
+        };
+        const ctx = { app: { appId: "app-1", vault: { adapter } }, _plugin: { manifest: { dir: "plugins/on-demand" } } } as unknown as PluginContext;
+        const backend = new FileCacheBackend(ctx);
+
+        await expect(backend.load()).resolves.toBeNull();
+        await backend.save(cache);
+
+        expect(Array.from(files.keys())).toEqual(["plugins/on-demand/command-cache.app-1.local.json"]);
+        await expect(backend.load()).resolves.toEqual(cache);
+
+        await backend.clear();
+        expect(files.size).toBe(0);
+    });
+});
+
+describe("IndexedDbCacheBackend", () => {
+    let databases: Map<string, Map<string, unknown>>;
+
+    /** In-memory stand-in for the parts of IndexedDB the backend uses; requests complete asynchronously. */
+    function openDatabase(name: string) {
+        const isNew = !databases.has(name);
+        const data = databases.get(name) ?? new Map<string, unknown>();
+        databases.set(name, data);
+
+        const db = {
+            createObjectStore: vi.fn(),
+            close: vi.fn(),
+            transaction: () => {
+                const transaction: { oncomplete?: () => void; onerror?: () => void; onabort?: () => void; error: null; objectStore: () => object } = {
+                    error: null,
+                    objectStore: () => store,
+                };
+                const complete = (result: unknown) => {
+                    queueMicrotask(() => transaction.oncomplete?.());
+                    return { result };
+                };
+                const store = {
+                    get: (key: string) => complete(structuredClone(data.get(key))),
+                    put: (value: unknown, key: string) => complete(void data.set(key, structuredClone(value))),
+                    delete: (key: string) => complete(void data.delete(key)),
+                };
+                return transaction;
+            },
+        };
+        const request: { result: typeof db; onupgradeneeded?: () => void; onsuccess?: () => void } = { result: db };
+        queueMicrotask(() => {
+            if (isNew) request.onupgradeneeded?.();
+            request.onsuccess?.();
+        });
+        return request;
+    }
+
+    beforeEach(() => {
+        databases = new Map();
+        vi.stubGlobal("indexedDB", { open: openDatabase });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("writes, reads and clears the cache in a database named after this app", async () => {
+        const backend = new IndexedDbCacheBackend({ appId: "app-1" } as App);
+
+        await expect(backend.load()).resolves.toBeNull();
+        await backend.save(cache);
+
+        expect(Array.from(databases.keys())).toEqual(["on-demand:app-1"]);
+        await expect(backend.load()).resolves.toEqual(cache);
+
+        await backend.clear();
+        await expect(backend.load()).resolves.toBeNull();
+    });
+
+    it("applies writes in the order they were made", async () => {
+        const backend = new IndexedDbCacheBackend({ appId: "app-1" } as App);
+        const newer = { ...cache, versions: { "plugin-a": "2.0.0" } };
+
+        await Promise.all([backend.save(cache), backend.save(newer)]);
+
+        await expect(backend.load()).resolves.toEqual(newer);
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * cache-backends.ts — Where the command cache is kept on this device.
+ *
+ * Backends only move a PersistedCommandCache in and out of storage; migration
+ * and validation of what they load happen in cache-schema.ts.
+ */
+import type { App } from "obsidian";
+import { normalizePath } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+import { loadLocalStorage, removeLocalStorage, saveLocalStorage } from "src/core/storage";
+import type { CommandCacheBackendKind, PersistedCommandCache } from "src/core/types";
+
+/**
+ * Upper bound for the serialized cache in local storage. The quota (about
+ * 5 MB per origin) is shared with Obsidian and every other plugin.
+ */
+export const LOCAL_STORAGE_MAX_CHARS = 1_000_000;
+
+export interface CommandCacheBackend {
+    readonly kind: CommandCacheBackendKind;
+    /** @returns the stored value as is, or null when nothing was stored yet. */
+    load(): Promise<unknown>;
+    /** Rejects when the cache could not be written. */
+    save(cache: PersistedCommandCache): Promise<void>;
+    /** Remove the stored cache, e.g. after it was moved to another backend. */
+    clear(): Promise<void>;
+}
+
+/**
+ * Keeps the cache in the local storage keys earlier versions used, plus the
+ * schema version, so existing caches are picked up and migrated in place.
+ */
+export class LocalStorageCacheBackend implements CommandCacheBackend {
+    readonly kind = "localStorage";
+
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    load(): Promise<unknown> {
+        const commands = loadLocalStorage(this.app, "commandCache");
+        const registrations = loadLocalStorage(this.app, "registrationCache");
+        if (commands == null && registrations == null) return Promise.resolve(null);
+
+        return Promise.resolve({
+            schemaVersion: loadLocalStorage(this.app, "commandCacheSchema") ?? undefined,
+            commands: commands ?? {},
+            versions: loadLocalStorage(this.app, "commandCacheVersions") ?? {},
+            registrations: registrations ?? {},
+        });
+    }
+
+    save(cache: PersistedCommandCache): Promise<void> {
+        const size = JSON.stringify(cache).length;
+        if (size > LOCAL_STORAGE_MAX_CHARS) {
+            return Promise.reject(new Error(`The command cache is ${size} characters, over the ${LOCAL_STORAGE_MAX_CHARS} allowed in local storage`));
+        }
+
+        // The schema version goes last: a write that fails halfway leaves entries
+        // without a version, which validation drops and the next startup rebuilds.
+        const saved = saveLocalStorage(this.app, "commandCache", cache.commands) && saveLocalStorage(this.app, "commandCacheVersions", cache.versions) && saveLocalStorage(this.app, "registrationCache", cache.registrations) && saveLocalStorage(this.app, "commandCacheSchema", cache.schemaVersion);
+        return saved ? Promise.resolve() : Promise.reject(new Error("Local storage rejected the command cache; the quota may be exceeded"));
+    }
+
+    clear(): Promise<void> {
+        ["commandCacheSchema", "commandCache", "commandCacheVersions", "registrationCache"].forEach((key) => removeLocalStorage(this.app, key));
+        return Promise.resolve();
+    }
+}
+
+const IDB_STORE = "commandCache";
+const IDB_KEY = "cache";
+
+/** Keeps the cache in an IndexedDB database of its own, which has a far larger quota. */
+export class IndexedDbCacheBackend implements CommandCacheBackend {
+    readonly kind = "indexedDb";
+
+    /** Serializes writes so they land in the order they were made. */
+    private writing: Promise<void> = Promise.resolve();
+
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async load(): Promise<unknown> {
+        const value = await this.run<unknown>("readonly", (store) => store.get(IDB_KEY));
+        return value ?? null;
+    }
+
+    save(cache: PersistedCommandCache): Promise<void> {
+        const write = this.writing.then(() => this.run("readwrite", (store) => store.put(cache, IDB_KEY))).then(() => undefined);
+        this.writing = write.catch(() => undefined);
+        return write;
+    }
+
+    clear(): Promise<void> {
+        const remove = this.writing.then(() => this.run("readwrite", (store) => store.delete(IDB_KEY))).then(() => undefined);
+        this.writing = remove.catch(() => undefined);
+        return remove;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(`on-demand:${this.app.appId}`, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error("Failed to open the command cache database"));
+        });
+    }
+
+    private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                const transaction = db.transaction(IDB_STORE, mode);
+                const request = operation(transaction.objectStore(IDB_STORE));
+                transaction.oncomplete = () => resolve(request.result as T);
+                transaction.onerror = transaction.onabort = () => reject(transaction.error ?? new Error("Command cache transaction failed"));
+            });
+        } finally {
+            db.close();
+        }
+    }
+}
+
+/**
+ * Keeps the cache in a JSON file in the plugin folder. The plugin folder syncs
+ * with the vault, so the file name carries this app's id and devices never
+ * read or overwrite each other's cache.
+ */
+export class FileCacheBackend implements CommandCacheBackend {
+    readonly kind = "file";
+
+    /** Serializes writes so they land in the order they were made. */
+    private writing: Promise<void> = Promise.resolve();
+
+    private ctx: PluginContext;
+
+    constructor(ctx: PluginContext) {
+        this.ctx = ctx;
+    }
+
+    get path(): string {
+        return normalizePath(`${this.ctx._plugin.manifest.dir}/command-cache.${this.ctx.app.appId}.local.json`);
+    }
+
+    async load(): Promise<unknown> {
+        const { adapter } = this.ctx.app.vault;
+        if (!(await adapter.exists(this.path))) return null;
+        return JSON.parse(await adapter.read(this.path)) as unknown;
+    }
+
+    save(cache: PersistedCommandCache): Promise<void> {
+        const write = this.writing.then(() => this.ctx.app.vault.adapter.write(this.path, JSON.stringify(cache)));
+        this.writing = write.catch(() => undefined);
+        return write;
+    }
+
+    clear(): Promise<void> {
+        const { adapter } = this.ctx.app.vault;
+        const remove = this.writing.then(async () => {
+            if (await adapter.exists(this.path)) await adapter.remove(this.path);
+        });
+        this.writing = remove.catch(() => undefined);
+        return remove;
+    }
+}
+
+export function createCommandCacheBackend(ctx: PluginContext, kind: CommandCacheBackendKind | undefined): CommandCacheBackend {
+    switch (kind) {
+        case "indexedDb":
+            return new IndexedDbCacheBackend(ctx.app);
+        case "file":
+            return new FileCacheBackend(ctx);
+        default:
+            return new LocalStorageCacheBackend(ctx.app);
+    }
+}
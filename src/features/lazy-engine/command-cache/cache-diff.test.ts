@@ -0,0 +1,57 @@
+import type { CommandCacheSnapshot } from "src/core/types";
+import { diffCommandCache, diffPluginCache } from "src/features/lazy-engine/command-cache/cache-diff";
+import { describe, expect, it } from "vitest";
+
+const snapshot = (version: string, commands: { id: string; name: string; icon?: string }[]): CommandCacheSnapshot => ({
+    commands: { "plugin-a": commands },
+    versions: { "plugin-a": version },
+    registrations: {},
+});
+
+describe("diffPluginCache", () => {
+    it("reports added, removed, renamed and changed commands with the versions", () => {
+        const before = snapshot("1.0.0", [
+            { id: "plugin-a:open", name: "Open", icon: "file" },
+            { id: "plugin-a:old-sync", name: "Sync" },
+            { id: "plugin-a:legacy", name: "Legacy" },
+        ]);
+        const after = snapshot("1.1.0", [
+            { id: "plugin-a:open", name: "Open file", icon: "file-text" },
+            { id: "plugin-a:sync", name: "Sync" },
+            { id: "plugin-a:export", name: "Export" },
+        ]);
+
+        expect(diffPluginCache("plugin-a", before, after)).toEqual({
+            pluginId: "plugin-a",
+            versionBefore: "1.0.0",
+            versionAfter: "1.1.0",
+            added: ["plugin-a:export"],
+            removed: ["plugin-a:legacy"],
+            renamed: [{ from: "plugin-a:old-sync", to: "plugin-a:sync", name: "Sync" }],
+            changed: [{ id: "plugin-a:open", name: { from: "Open", to: "Open file" }, icon: { from: "file", to: "file-text" } }],
+        });
+    });
+
+    it("does not pair commands when several share a name", () => {
+        const before = snapshot("1.0.0", [
+            { id: "plugin-a:a", name: "Run" },
+            { id: "plugin-a:b", name: "Run" },
+        ]);
+        const after = snapshot("1.0.0", [{ id: "plugin-a:c", name: "Run" }]);
+
+        const diff = diffPluginCache("plugin-a", before, after);
+
+        expect(diff.renamed).toEqual([]);
+        expect(diff.removed).toEqual(["plugin-a:a", "plugin-a:b"]);
+        expect(diff.added).toEqual(["plugin-a:c"]);
+    });
+});
+
+describe("diffCommandCache", () => {
+    it("lists only the rebuilt plugins that changed", () => {
+        const same = snapshot("1.0.0", [{ id: "plugin-a:open", name: "Open" }]);
+
+        expect(diffCommandCache(same, same, ["plugin-a"], 42)).toEqual({ createdAt: 42, rebuiltPluginIds: ["plugin-a"], plugins: [] });
+        expect(diffCommandCache({ commands: {}, versions: {}, registrations: {} }, same, ["plugin-a"], 42).plugins).toEqual([{ pluginId: "plugin-a", versionBefore: undefined, versionAfter: "1.0.0", added: ["plugin-a:open"], removed: [], renamed: [], changed: [] }]);
+    });
+});
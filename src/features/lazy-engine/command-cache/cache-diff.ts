@@ -0,0 +1,98 @@
+/**
+ * cache-diff.ts — What a command cache rebuild changed, per plugin.
+ *
+ * Compares the snapshot stored before a rebuild with the one stored after it,
+ * so a plugin update that adds, drops or renames commands is visible.
+ */
+import type { CachedCommandEntry, CommandCacheSnapshot } from "src/core/types";
+
+export interface ValueChange {
+    from?: string;
+    to?: string;
+}
+
+/** A command that kept its id but changed how it is shown. */
+export interface ChangedCommand {
+    id: string;
+    name?: ValueChange;
+    icon?: ValueChange;
+}
+
+/** A command that disappeared under one id and reappeared under another with the same name. */
+export interface RenamedCommand {
+    from: string;
+    to: string;
+    name: string;
+}
+
+export interface PluginCacheDiff {
+    pluginId: string;
+    versionBefore?: string;
+    versionAfter?: string;
+    added: string[];
+    removed: string[];
+    renamed: RenamedCommand[];
+    changed: ChangedCommand[];
+}
+
+export interface CacheDiffReport {
+    createdAt: number;
+    /** Plugins the rebuild covered, changed or not. */
+    rebuiltPluginIds: string[];
+    /** Only the plugins whose cache changed. */
+    plugins: PluginCacheDiff[];
+}
+
+export function hasCacheChanges(diff: PluginCacheDiff): boolean {
+    return diff.versionBefore !== diff.versionAfter || diff.added.length > 0 || diff.removed.length > 0 || diff.renamed.length > 0 || diff.changed.length > 0;
+}
+
+export function diffPluginCache(pluginId: string, before: CommandCacheSnapshot, after: CommandCacheSnapshot): PluginCacheDiff {
+    const oldCommands = new Map((before.commands[pluginId] ?? []).map((command) => [command.id, command]));
+    const newCommands = new Map((after.commands[pluginId] ?? []).map((command) => [command.id, command]));
+
+    const removed = Array.from(oldCommands.values()).filter((command) => !newCommands.has(command.id));
+    const added = Array.from(newCommands.values()).filter((command) => !oldCommands.has(command.id));
+
+    // Pair a dropped id with a new id of the same name; ambiguous names stay added/removed.
+    const renamed: RenamedCommand[] = [];
+    const withName = (commands: CachedCommandEntry[], name: string) => commands.filter((command) => command.name === name);
+    for (const old of [...removed]) {
+        const removedMatches = withName(removed, old.name);
+        const addedMatches = withName(added, old.name);
+        if (removedMatches.length !== 1 || addedMatches.length !== 1) continue;
+
+        renamed.push({ from: old.id, to: addedMatches[0].id, name: old.name });
+        removed.splice(removed.indexOf(old), 1);
+        added.splice(added.indexOf(addedMatches[0]), 1);
+    }
+
+    const changed: ChangedCommand[] = [];
+    for (const [id, next] of newCommands) {
+        const previous = oldCommands.get(id);
+        if (!previous) continue;
+
+        const change: ChangedCommand = { id };
+        if (previous.name !== next.name) change.name = { from: previous.name, to: next.name };
+        if ((previous.icon ?? "") !== (next.icon ?? "")) change.icon = { from: previous.icon, to: next.icon };
+        if (change.name || change.icon) changed.push(change);
+    }
+
+    return {
+        pluginId,
+        versionBefore: before.versions[pluginId],
+        versionAfter: after.versions[pluginId],
+        added: added.map((command) => command.id),
+        removed: removed.map((command) => command.id),
+        renamed,
+        changed,
+    };
+}
+
+export function diffCommandCache(before: CommandCacheSnapshot, after: CommandCacheSnapshot, pluginIds: string[], now = Date.now()): CacheDiffReport {
+    return {
+        createdAt: now,
+        rebuiltPluginIds: [...pluginIds],
+        plugins: pluginIds.map((pluginId) => diffPluginCache(pluginId, before, after)).filter(hasCacheChanges),
+    };
+}
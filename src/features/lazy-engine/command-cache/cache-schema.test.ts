@@ -0,0 +1,57 @@
+import { COMMAND_CACHE_SCHEMA_VERSION, parseCommandCache, toPersistedCache } from "src/features/lazy-engine/command-cache/cache-schema";
+import { describe, expect, it } from "vitest";
+
+describe("parseCommandCache", () => {
+    it("returns null when nothing usable was stored", () => {
+        expect(parseCommandCache(null)).toBeNull();
+        expect(parseCommandCache("not a cache")).toBeNull();
+        expect(parseCommandCache({ schemaVersion: COMMAND_CACHE_SCHEMA_VERSION + 1, commands: {}, versions: {}, registrations: {} })).toBeNull();
+    });
+
+    it("migrates unversioned caches and marks them for rewriting", () => {
+        const parsed = parseCommandCache({
+            commands: { "plugin-a": [{ id: "plugin-a:run", name: "Run" }] },
+            versions: { "plugin-a": "1.0.0", "plugin-b": "2.0.0" },
+            registrations: { "plugin-a": { protocolActions: ["run"] }, "plugin-c": ["legacy"] },
+        });
+
+        expect(parsed).toEqual({
+            snapshot: {
+                commands: { "plugin-a": [{ id: "plugin-a:run", name: "Run" }] },
+                versions: { "plugin-a": "1.0.0" },
+                registrations: { "plugin-a": { protocolActions: ["run"] } },
+            },
+            invalid: [],
+            changed: true,
+        });
+    });
+
+    it("drops only the plugins whose entries fail validation", () => {
+        const parsed = parseCommandCache({
+            schemaVersion: COMMAND_CACHE_SCHEMA_VERSION,
+            commands: {
+                "plugin-a": [{ id: "plugin-a:run", name: "Run", kind: "editorCallback", hotkeys: [{ modifiers: ["Mod"], key: "r" }] }],
+                "plugin-b": [{ id: "plugin-b:run" }],
+                "plugin-c": [{ id: "plugin-c:run", name: "Run" }],
+                "plugin-d": [{ id: "plugin-d:run", name: "Run" }],
+            },
+            versions: { "plugin-a": "1.0.0", "plugin-b": "1.0.0", "plugin-d": "1.0.0" },
+            registrations: { "plugin-d": { ribbonIcons: [{ icon: "dice" }] } },
+        });
+
+        expect(parsed?.invalid).toEqual(["plugin-b", "plugin-c", "plugin-d"]);
+        expect(Object.keys(parsed?.snapshot.commands ?? {})).toEqual(["plugin-a"]);
+        expect(parsed?.snapshot.registrations).toEqual({});
+        expect(parsed?.changed).toBe(true);
+    });
+
+    it("reads back what toPersistedCache wrote without changes", () => {
+        const snapshot = {
+            commands: { "plugin-a": [{ id: "plugin-a:run", name: "Run" }] },
+            versions: { "plugin-a": "1.0.0", "plugin-b": "2.0.0" },
+            registrations: { "plugin-a": { menuItems: [{ menu: "file-menu" as const, title: "Run" }] }, "plugin-b": { protocolActions: ["open"] } },
+        };
+
+        expect(parseCommandCache(JSON.parse(JSON.stringify(toPersistedCache(snapshot))))).toEqual({ snapshot, invalid: [], changed: false });
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * cache-schema.ts — Versioned format of the persisted command cache.
+ *
+ * Whatever a storage backend returns is migrated to the current schema and
+ * validated per plugin before the store uses it. A plugin whose entry fails
+ * validation is reported instead of failing the whole cache, so only that
+ * plugin needs to be rebuilt.
+ */
+import log from "loglevel";
+import type { CachedRegistrations, CommandCacheSnapshot, PersistedCommandCache } from "src/core/types";
+
+const logger = log.getLogger("OnDemandPlugin/CacheSchema");
+
+/**
+ * 1: unversioned caches written before the schema existed.
+ * 2: registrations are always objects; versions only exist for cached plugins.
+ */
+export const COMMAND_CACHE_SCHEMA_VERSION = 2;
+
+const COMMAND_KINDS = ["callback", "checkCallback", "editorCallback", "editorCheckCallback"];
+const MENU_EVENTS = ["file-menu", "files-menu", "editor-menu"];
+
+export interface ParsedCommandCache {
+    snapshot: CommandCacheSnapshot;
+    /** Plugins whose entry failed validation and was dropped. */
+    invalid: string[];
+    /** True when the input was migrated or had entries dropped, i.e. should be written back. */
+    changed: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptional(value: unknown, type: "string" | "boolean" | "number"): boolean {
+    return value === undefined || typeof value === type;
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isHotkey(value: unknown): boolean {
+    return isRecord(value) && isStringArray(value.modifiers) && typeof value.key === "string";
+}
+
+function isCommandEntry(value: unknown): boolean {
+    if (!isRecord(value)) return false;
+    if (typeof value.id !== "string" || typeof value.name !== "string" || !isOptional(value.icon, "string")) return false;
+    if (value.kind !== undefined && !COMMAND_KINDS.includes(value.kind as string)) return false;
+    if (!isOptional(value.allowPreview, "boolean") || !isOptional(value.allowProperties, "boolean") || !isOptional(value.mobileOnly, "boolean")) return false;
+    return value.hotkeys === undefined || (Array.isArray(value.hotkeys) && value.hotkeys.every(isHotkey));
+}
+
+function isRegistrations(value: unknown): value is CachedRegistrations {
+    if (!isRecord(value)) return false;
+    const { protocolActions, ribbonIcons, codeBlockLanguages, settingTabs, menuItems, backgroundHooks } = value;
+    if (protocolActions !== undefined && !isStringArray(protocolActions)) return false;
+    if (codeBlockLanguages !== undefined && !isStringArray(codeBlockLanguages)) return false;
+    if (backgroundHooks !== undefined && !isStringArray(backgroundHooks)) return false;
+    if (ribbonIcons !== undefined && !(Array.isArray(ribbonIcons) && ribbonIcons.every((icon) => isRecord(icon) && typeof icon.icon === "string" && typeof icon.title === "string" && isOptional(icon.position, "number")))) return false;
+    if (settingTabs !== undefined && !(Array.isArray(settingTabs) && settingTabs.every((tab) => isRecord(tab) && typeof tab.id === "string" && typeof tab.name === "string"))) return false;
+    return menuItems === undefined || (Array.isArray(menuItems) && menuItems.every((item) => isRecord(item) && MENU_EVENTS.includes(item.menu as string) && typeof item.title === "string" && isOptional(item.icon, "string") && isOptional(item.section, "string")));
+}
+
+// ── Migrations ─────────────────────────────────────────────────────────────────
+
+type Migration = (cache: Record<string, unknown>) => Record<string, unknown>;
+
+/** Migration from version `n` to `n + 1`, keyed by `n`. */
+const MIGRATIONS: Record<number, Migration> = {
+    1: (cache) => {
+        const commands = isRecord(cache.commands) ? cache.commands : {};
+        const versions = isRecord(cache.versions) ? cache.versions : {};
+        const registrations = isRecord(cache.registrations) ? cache.registrations : {};
+        return {
+            commands,
+            versions: Object.fromEntries(Object.entries(versions).filter(([pluginId]) => pluginId in commands)),
+            // Registrations were briefly stored as bare arrays; those carry nothing usable.
+            registrations: Object.fromEntries(Object.entries(registrations).filter(([, value]) => !Array.isArray(value))),
+        };
+    },
+};
+
+// ── Parsing ────────────────────────────────────────────────────────────────────
+
+/**
+ * Migrate `raw` to the current schema and validate it plugin by plugin.
+ *
+ * @returns null when there is nothing usable: no cache, a value that is not a
+ * cache at all, or a cache written by a newer version of On-Demand.
+ */
+export function parseCommandCache(raw: unknown): ParsedCommandCache | null {
+    if (raw === undefined || raw === null) return null;
+    if (!isRecord(raw)) {
+        logger.warn("Ignoring a command cache that is not an object");
+        return null;
+    }
+
+    const version = typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+    if (version > COMMAND_CACHE_SCHEMA_VERSION) {
+        logger.warn(`Ignoring a command cache with schema version ${version}; this version reads up to ${COMMAND_CACHE_SCHEMA_VERSION}`);
+        return null;
+    }
+
+    let cache: Record<string, unknown> = raw;
+    for (let from = version; from < COMMAND_CACHE_SCHEMA_VERSION; from++) {
+        cache = MIGRATIONS[from](cache);
+    }
+
+    const snapshot: CommandCacheSnapshot = { commands: {}, versions: {}, registrations: {} };
+    const invalid = new Set<string>();
+    const commands = isRecord(cache.commands) ? cache.commands : {};
+    const versions = isRecord(cache.versions) ? cache.versions : {};
+    const registrations = isRecord(cache.registrations) ? cache.registrations : {};
+
+    for (const [pluginId, entries] of Object.entries(commands)) {
+        const pluginVersion = versions[pluginId];
+        if (!Array.isArray(entries) || !entries.every(isCommandEntry) || typeof pluginVersion !== "string") {
+            invalid.add(pluginId);
+            continue;
+        }
+        snapshot.commands[pluginId] = entries as CommandCacheSnapshot["commands"][string];
+        snapshot.versions[pluginId] = pluginVersion;
+    }
+
+    for (const [pluginId, value] of Object.entries(registrations)) {
+        if (invalid.has(pluginId)) continue;
+        if (!isRegistrations(value)) {
+            invalid.add(pluginId);
+            delete snapshot.commands[pluginId];
+            delete snapshot.versions[pluginId];
+            continue;
+        }
+        snapshot.registrations[pluginId] = value;
+        // Plugins with registrations but no commands are versioned too.
+        const pluginVersion = versions[pluginId];
+        if (typeof pluginVersion === "string") snapshot.versions[pluginId] = pluginVersion;
+    }
+
+    if (invalid.size) {
+        logger.warn(`Dropped invalid command cache entries for ${Array.from(invalid).join(", ")}`);
+    }
+    return { snapshot, invalid: Array.from(invalid), changed: version !== COMMAND_CACHE_SCHEMA_VERSION || invalid.size > 0 };
+}
+
+export function toPersistedCache(snapshot: CommandCacheSnapshot): PersistedCommandCache {
+    return { schemaVersion: COMMAND_CACHE_SCHEMA_VERSION, ...snapshot };
+}
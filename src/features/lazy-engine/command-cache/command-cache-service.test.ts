@@ -13,6 +13,7 @@ vi.mock("../../../core/storage");
 
 type MockCtx = {
     app: object;
+    getSettings: ReturnType<typeof vi.fn>;
     getManifests: ReturnType<typeof vi.fn>;
     getPluginMode: ReturnType<typeof vi.fn>;
     getCommandPluginId: ReturnType<typeof vi.fn>;
@@ -38,9 +39,11 @@ describe("CommandCacheService", () => {
 
     beforeEach(() => {
         vi.resetAllMocks();
+        vi.mocked(storageMs.saveLocalStorage).mockReturnValue(true);
 
         mockCtx = {
             app: {},
+            getSettings: vi.fn().mockReturnValue({ shareCommandCache: false }),
             getManifests: vi.fn().mockReturnValue([{ id: "test-plugin", version: "1.0.0" }]),
             getPluginMode: vi.fn(),
             getCommandPluginId: vi.fn(),
@@ -121,6 +124,35 @@ describe("CommandCacheService", () => {
             expect(mockPluginLoader.runLazyCommand).toHaveBeenCalledWith("cmd1");
         });
 
+        it("should register wrappers with the callback kind, flags and hotkeys of the real command", async () => {
+            const hotkeys = [{ modifiers: ["Mod", "Shift"], key: "d" }];
+            mockCtx.obsidianCommands.commands = {
+                editor: { id: "editor", name: "Editor", editorCheckCallback: () => true, allowPreview: true, hotkeys },
+                check: { id: "check", name: "Check", checkCallback: () => true, mobileOnly: true },
+            };
+            mockCtx.getCommandPluginId.mockReturnValue("test-plugin");
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
+
+            await service.refreshCommandsForPlugin("test-plugin");
+            mockCtx.obsidianCommands.commands = {};
+            service.registerCachedCommandsForPlugin("test-plugin");
+
+            type Wrapper = { id: string; callback?: unknown; allowPreview?: boolean; mobileOnly?: boolean; hotkeys?: unknown; editorCheckCallback?: (checking: boolean) => boolean; checkCallback?: (checking: boolean) => boolean };
+            const added = mockCtx.obsidianCommands.addCommand.mock.calls.map(([cmd]) => cmd as Wrapper);
+            const editor = added.find((cmd) => cmd.id === "editor")!;
+            const check = added.find((cmd) => cmd.id === "check")!;
+
+            expect(editor).toMatchObject({ allowPreview: true, hotkeys });
+            expect(editor.callback).toBeUndefined();
+            expect(editor.editorCheckCallback?.(true)).toBe(true);
+            expect(mockPluginLoader.runLazyCommand).not.toHaveBeenCalled();
+            editor.editorCheckCallback?.(false);
+            expect(mockPluginLoader.runLazyCommand).toHaveBeenCalledWith("editor");
+
+            expect(check.mobileOnly).toBe(true);
+            expect(typeof check.checkCallback).toBe("function");
+        });
+
         it("should not register wrapper if command is already registered by real plugin", async () => {
             mockCtx.obsidianCommands.commands = {
                 cmd1: { id: "cmd1", name: "Cmd 1" },
@@ -133,6 +165,22 @@ describe("CommandCacheService", () => {
 
             expect(mockCtx.obsidianCommands.addCommand).not.toHaveBeenCalled();
         });
+
+        it("should keep registrations and register placeholders for a plugin without commands", async () => {
+            const registerObsidianProtocolHandler = vi.fn();
+            mockCtx.app = { workspace: { protocolHandlers: new Map(), registerObsidianProtocolHandler } };
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
+            // The plugin registers a protocol action while loading, but no commands.
+            mockCtx.obsidianPlugins.enablePlugin.mockImplementation(() => service.capture.recordProtocolAction("test-plugin", "open-thing"));
+
+            expect(await service.refreshCommandsForPlugin("test-plugin")).toBe(true);
+            expect(service.getCachedProtocolActions("test-plugin")).toEqual(["open-thing"]);
+
+            service.registerCachedCommandsForPlugin("test-plugin");
+
+            expect(mockCtx.obsidianCommands.addCommand).not.toHaveBeenCalled();
+            expect(registerObsidianProtocolHandler).toHaveBeenCalledWith("open-thing", expect.any(Function));
+        });
     });
 
     describe("removeCachedCommandsForPlugin", () => {
@@ -158,10 +206,11 @@ describe("CommandCacheService", () => {
     describe("ensureCommandsCached", () => {
         it("should do nothing if valid", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((app, key) => {
-                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1" }] };
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] };
                 if (key === "commandCacheVersions") return { "test-plugin": "1.0.0" };
                 return null;
             });
+            await service.loadFromData();
             mockCtx.obsidianCommands.commands = { cmd1: { id: "cmd1", name: "Cmd 1" } };
             mockCtx.getCommandPluginId.mockReturnValue("test-plugin");
             vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
@@ -224,6 +273,22 @@ describe("CommandCacheService", () => {
             expect(onProgress).toHaveBeenCalledTimes(1);
             expect(storageMs.saveLocalStorage).toHaveBeenCalled();
         });
+
+        it("should keep the forced rebuild's report when the apply that follows refreshes the cache again", async () => {
+            vi.mocked(utilsMs.isLazyMode).mockReturnValue(true);
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
+            mockCtx.getPluginMode.mockReturnValue("lazy");
+            mockCtx.obsidianCommands.commands = { cmd1: { id: "cmd1", name: "Cmd 1" } };
+            mockCtx.getCommandPluginId.mockReturnValue("test-plugin");
+
+            const rebuild = await service.refreshCommandCache(undefined, true);
+            // The apply pass after a rebuild only refreshes stale entries, here none.
+            const apply = await service.refreshCommandCache();
+
+            expect(rebuild.plugins).toEqual([expect.objectContaining({ pluginId: "test-plugin", added: ["cmd1"] })]);
+            expect(apply.plugins).toEqual([]);
+            expect(service.getLastDiffReport()).toBe(rebuild);
+        });
     });
 
     describe("forceReloadPluginCache", () => {
@@ -265,6 +330,23 @@ describe("CommandCacheService", () => {
             expect(mockCtx.obsidianCommands.addCommand).not.toHaveBeenCalled();
             expect(storageMs.saveLocalStorage).toHaveBeenCalled();
         });
+
+        it("should report what changed against the stored snapshot", async () => {
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] };
+                if (key === "commandCacheVersions") return { "test-plugin": "0.9.0" };
+                return null;
+            });
+            await service.loadFromData();
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
+            mockCtx.obsidianCommands.commands = { cmd2: { id: "cmd2", name: "Cmd 2" } };
+            mockCtx.getCommandPluginId.mockReturnValue("test-plugin");
+
+            const report = await service.forceReloadPluginCache("test-plugin");
+
+            expect(report.plugins).toEqual([{ pluginId: "test-plugin", versionBefore: "0.9.0", versionAfter: "1.0.0", added: ["cmd2"], removed: ["cmd1"], renamed: [], changed: [] }]);
+            expect(service.getLastDiffReport()).toBe(report);
+        });
     });
 
     describe("stale command cache (plugin version changed)", () => {
@@ -282,18 +364,18 @@ describe("CommandCacheService", () => {
             mockCtx.getPluginMode.mockReturnValue("lazy");
         });
 
-        it("registerCachedCommands skips wrappers when the cached version mismatches", () => {
+        it("registerCachedCommands skips wrappers when the cached version mismatches", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             service.registerCachedCommands();
 
             expect(mockCtx.obsidianCommands.addCommand).not.toHaveBeenCalled();
         });
 
-        it("registerCachedCommands registers wrappers when the cached version matches", () => {
+        it("registerCachedCommands registers wrappers when the cached version matches", async () => {
             seedStorage("1.0.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             service.registerCachedCommands();
 
@@ -301,23 +383,35 @@ describe("CommandCacheService", () => {
             expect((mockCtx.obsidianCommands.addCommand.mock.calls[0][0] as { id: string }).id).toBe("old-cmd");
         });
 
-        it("getStaleCachedPluginIds lists plugins whose cached version mismatches", () => {
+        it("getStaleCachedPluginIds lists plugins whose cached version mismatches", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             expect(service.getStaleCachedPluginIds()).toEqual(["test-plugin"]);
         });
 
-        it("getStaleCachedPluginIds is empty when versions match", () => {
+        it("getStaleCachedPluginIds is empty when versions match", async () => {
             seedStorage("1.0.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             expect(service.getStaleCachedPluginIds()).toEqual([]);
         });
 
+        it("getStaleCachedPluginIds lists plugins whose stored entry failed validation", async () => {
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "test-plugin": [{ id: "old-cmd", name: 42 }] };
+                if (key === "commandCacheVersions") return { "test-plugin": "1.0.0" };
+                return null;
+            });
+            await service.loadFromData();
+
+            expect(service.getCachedCommand("old-cmd")).toBeUndefined();
+            expect(service.getStaleCachedPluginIds()).toEqual(["test-plugin"]);
+        });
+
         it("refreshStaleCacheForPlugin re-snapshots renamed command IDs and restores the disabled state", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
             mockCtx.getCommandPluginId.mockImplementation((id: string) => (id === "new-cmd" ? "test-plugin" : "other"));
@@ -346,7 +440,7 @@ describe("CommandCacheService", () => {
 
         it("refreshStaleCacheForPlugin keeps the plugin enabled if it was enabled beforehand", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             mockCtx.obsidianPlugins.enabledPlugins.add("test-plugin");
             vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
@@ -360,7 +454,7 @@ describe("CommandCacheService", () => {
 
         it("refreshStaleCacheForPlugin does NOT bump version when plugin fails to load", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             // 1st: isPluginReadyForCommandSnapshot → true (skip waitForPluginLoaded).
             // 2nd: pluginLoaded check → false (plugin not actually loaded).
@@ -371,10 +465,11 @@ describe("CommandCacheService", () => {
 
             // Version must NOT be bumped when plugin fails to load, so the next
             // startup will retry the refresh (issue #6).
+            // (Loading rewrites the cache once to record the schema version.)
             expect(storageMs.saveLocalStorage).not.toHaveBeenCalledWith(
                 mockCtx.app,
                 "commandCacheVersions",
-                expect.anything(),
+                { "test-plugin": "1.0.0" },
             );
             expect(service.getCachedCommand("old-cmd")).toBeDefined();
             // Stale wrappers must not be registered: the cached command IDs may
@@ -384,7 +479,7 @@ describe("CommandCacheService", () => {
 
         it("refreshStaleCacheForPlugin bumps version when plugin loads but has no commands", async () => {
             seedStorage("0.9.0");
-            service.loadFromData();
+            await service.loadFromData();
 
             // Plugin loads successfully but registers no commands.
             vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
@@ -403,6 +498,64 @@ describe("CommandCacheService", () => {
         });
     });
 
+    describe("commands added after onload", () => {
+        beforeEach(async () => {
+            mockCtx.obsidianCommands.commands = { "test-plugin:cmd1": { id: "test-plugin:cmd1", name: "Cmd 1" } };
+            mockCtx.getCommandPluginId.mockReturnValue("test-plugin");
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(true);
+            vi.mocked(utilsMs.isLazyMode).mockReturnValue(true);
+            await service.refreshCommandsForPlugin("test-plugin");
+        });
+
+        it("should add new commands of lazy plugins to the cache and persist it", () => {
+            service.recordAddedCommand("test-plugin", { id: "test-plugin:dynamic", name: "Dynamic" });
+
+            expect(service.getCachedCommand("test-plugin:dynamic")).toMatchObject({ name: "Dynamic", pluginId: "test-plugin" });
+            const saved = vi.mocked(storageMs.saveLocalStorage).mock.calls.find(([, key]) => key === "commandCache")?.[2] as Record<string, { id: string }[]>;
+            expect(saved["test-plugin"].map((command) => command.id)).toEqual(["test-plugin:cmd1", "test-plugin:dynamic"]);
+        });
+
+        it("should not write when a command matches the snapshot", () => {
+            service.recordAddedCommand("test-plugin", { id: "test-plugin:cmd1", name: "Cmd 1" });
+
+            expect(storageMs.saveLocalStorage).not.toHaveBeenCalled();
+        });
+
+        it("should ignore plugins that are not lazy or have no snapshot", () => {
+            service.recordAddedCommand("other-plugin", { id: "other-plugin:cmd", name: "Cmd" });
+            vi.mocked(utilsMs.isLazyMode).mockReturnValue(false);
+            service.recordAddedCommand("test-plugin", { id: "test-plugin:cmd2", name: "Cmd 2" });
+
+            expect(service.getCachedCommand("other-plugin:cmd")).toBeUndefined();
+            expect(service.getCachedCommand("test-plugin:cmd2")).toBeUndefined();
+        });
+
+        it("should drop removed commands from the cache", () => {
+            service.recordRemovedCommand("test-plugin", "test-plugin:cmd1");
+
+            expect(service.getCachedCommand("test-plugin:cmd1")).toBeUndefined();
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(mockCtx.app, "commandCache", {});
+        });
+    });
+
+    describe("recordBackgroundEvent", () => {
+        it("should record vault, metadata cache and background workspace events only", () => {
+            const vault = {};
+            const metadataCache = {};
+            const workspace = {};
+            mockCtx.app = { vault, metadataCache, workspace };
+            const ref = (e: object, name: string) => ({ e, name }) as never;
+
+            service.recordBackgroundEvent("test-plugin", ref(vault, "modify"));
+            service.recordBackgroundEvent("test-plugin", ref(metadataCache, "changed"));
+            service.recordBackgroundEvent("test-plugin", ref(workspace, "file-open"));
+            service.recordBackgroundEvent("test-plugin", ref(workspace, "file-menu"));
+            service.recordBackgroundEvent("test-plugin", ref({}, "modify"));
+
+            expect(service.getKnownRegistrations("test-plugin")?.backgroundHooks).toEqual(["vault:modify", "metadataCache:changed", "workspace:file-open"]);
+        });
+    });
+
     describe("clear", () => {
         it("should remove all wrappers and clear store", async () => {
             mockCtx.obsidianCommands.commands = { cmd1: { id: "cmd1" } };
@@ -1,19 +1,59 @@
-import type { PluginManifest } from "obsidian";
+import type { Command, EventRef, PluginManifest } from "obsidian";
 import type { CachedCommand, PluginLoader } from "src/core/interfaces";
 import type { PluginContext } from "src/core/plugin-context";
+import type { CachedMenuItem, CachedRegistrations, CachedRibbonIcon, CachedSettingTab, CommandCacheBackendKind, CommandCacheSnapshot, CommandCallbackKind } from "src/core/types";
 import { isLazyMode, isPluginLoaded } from "src/core/utils";
+import type { CacheDiffReport } from "src/features/lazy-engine/command-cache/cache-diff";
+import { diffCommandCache } from "src/features/lazy-engine/command-cache/cache-diff";
 import { CommandCacheStore } from "src/features/lazy-engine/command-cache/command-cache-store";
+import { MenuPlaceholders } from "src/features/lazy-engine/command-cache/menu-placeholders";
+import { ProtocolHandlerStubs } from "src/features/lazy-engine/command-cache/protocol-handler-stubs";
+import { RegistrationCapture } from "src/features/lazy-engine/command-cache/registration-capture";
+import { RibbonPlaceholders } from "src/features/lazy-engine/command-cache/ribbon-placeholders";
+import { SettingTabPlaceholders } from "src/features/lazy-engine/command-cache/setting-tab-placeholders";
 import pTimeout from "p-timeout";
 import pWaitFor from "p-wait-for";
 import log from "loglevel";
 
 const logger = log.getLogger("OnDemandPlugin/CommandCacheService");
 
+/** Editor variants take precedence, matching the order CommandExecutor tries them in. */
+function getCallbackKind(command: Command): CommandCallbackKind {
+    if (command.editorCheckCallback) return "editorCheckCallback";
+    if (command.editorCallback) return "editorCallback";
+    if (command.checkCallback) return "checkCallback";
+    return "callback";
+}
+
+function toCachedCommand(command: Command, pluginId: string): CachedCommand {
+    return {
+        id: command.id,
+        name: command.name,
+        icon: command.icon,
+        kind: getCallbackKind(command),
+        allowPreview: command.allowPreview,
+        allowProperties: command.allowProperties,
+        mobileOnly: command.mobileOnly,
+        hotkeys: command.hotkeys,
+        pluginId,
+    };
+}
+
+/** Workspace events whose handlers do work in the background rather than in response to the user. */
+const BACKGROUND_WORKSPACE_EVENTS = ["file-open", "active-leaf-change", "layout-change", "editor-change"];
+
 // Re-export for consumers
 export class CommandCacheService {
     private store: CommandCacheStore;
+    private protocolStubs: ProtocolHandlerStubs;
+    private ribbonPlaceholders: RibbonPlaceholders;
+    private settingTabPlaceholders: SettingTabPlaceholders;
+    private menuPlaceholders: MenuPlaceholders;
+    /** Fed by the session-wide Plugin.prototype patches installed by LazyEngineFeature. */
+    readonly capture = new RegistrationCapture();
     private registeredWrappers = new Set<string>();
     private wrapperCommands = new Map<string, unknown>();
+    private lastDiffReport: CacheDiffReport | null = null;
 
     private ctx: PluginContext;
     private pluginLoader: PluginLoader;
@@ -22,6 +62,10 @@ export class CommandCacheService {
         this.ctx = ctx;
         this.pluginLoader = pluginLoader;
         this.store = new CommandCacheStore(ctx);
+        this.protocolStubs = new ProtocolHandlerStubs(ctx, pluginLoader);
+        this.ribbonPlaceholders = new RibbonPlaceholders(ctx, pluginLoader);
+        this.settingTabPlaceholders = new SettingTabPlaceholders(ctx, pluginLoader);
+        this.menuPlaceholders = new MenuPlaceholders(ctx, pluginLoader);
     }
 
     // ---------------------------------------------------------------------------
@@ -32,8 +76,18 @@ export class CommandCacheService {
         return this.store.get(commandId);
     }
 
-    loadFromData(): void {
-        this.store.loadFromData();
+    loadFromData(): Promise<void> {
+        return this.store.loadFromData();
+    }
+
+    /** Switch the storage backend, moving the current cache over. */
+    useStorageBackend(kind: CommandCacheBackendKind): Promise<void> {
+        return this.store.useBackend(kind);
+    }
+
+    /** Write the shared cache file now, e.g. right after sharing is turned on. */
+    writeSharedCache(): Promise<void> {
+        return this.store.writeSharedFile();
     }
 
     isCommandCacheValid(pluginId: string): boolean {
@@ -44,7 +98,8 @@ export class CommandCacheService {
     // Cache refresh
     // ---------------------------------------------------------------------------
 
-    async refreshCommandCache(pluginIds?: string[], force = false, onProgress?: (current: number, total: number, plugin: PluginManifest) => void): Promise<void> {
+    async refreshCommandCache(pluginIds?: string[], force = false, onProgress?: (current: number, total: number, plugin: PluginManifest) => void): Promise<CacheDiffReport> {
+        const before = this.store.getPersistedSnapshot();
         let lazyManifests = this.getLazyManifests();
         if (pluginIds?.length) {
             lazyManifests = lazyManifests.filter((p) => pluginIds.includes(p.id));
@@ -63,18 +118,83 @@ export class CommandCacheService {
         if (hasChanges) {
             this.store.persist();
         }
+        const refreshedIds = pluginsToRefresh.map((plugin) => plugin.id);
+        // Unforced passes (startup, applies) only fill in stale entries; they must
+        // not replace the report of the rebuild the user asked for.
+        return force ? this.recordDiffReport(before, refreshedIds) : diffCommandCache(before, this.store.getPersistedSnapshot(), refreshedIds);
+    }
+
+    /** Changes made by the last forced refreshCommandCache() or forceReloadPluginCache() this session. */
+    getLastDiffReport(): CacheDiffReport | null {
+        return this.lastDiffReport;
+    }
+
+    private recordDiffReport(before: CommandCacheSnapshot, pluginIds: string[]): CacheDiffReport {
+        this.lastDiffReport = diffCommandCache(before, this.store.getPersistedSnapshot(), pluginIds);
+        if (this.lastDiffReport.plugins.length) {
+            logger.info("Command cache rebuild changes:", this.lastDiffReport.plugins);
+        }
+        return this.lastDiffReport;
     }
 
     async refreshCommandsForPlugin(pluginId: string): Promise<boolean> {
         const commands = await this.getCommandsForPlugin(pluginId);
-        if (!commands.length) return false;
-        this.store.set(pluginId, commands);
+        // Registrations are observed by the Plugin.prototype patches while the
+        // plugin loaded for this snapshot, so they are stored alongside it. They
+        // are kept even without commands: ribbon icons, protocol actions or a
+        // settings tab may be the only way to load such a plugin.
+        this.capture.recordMenuItems(pluginId, this.menuPlaceholders.snapshot(pluginId));
+        const registrations = this.capture.get(pluginId);
+        const hasRegistrations = Boolean(registrations && Object.keys(registrations).length);
+        if (!commands.length && !hasRegistrations) return false;
+        if (commands.length) this.store.set(pluginId, commands);
+        this.store.setRegistrations(pluginId, registrations);
         return true;
     }
 
+    getCachedProtocolActions(pluginId: string): string[] {
+        return this.store.getRegistrations(pluginId)?.protocolActions ?? [];
+    }
+
+    getCachedRibbonIcons(pluginId: string): CachedRibbonIcon[] {
+        return this.store.getRegistrations(pluginId)?.ribbonIcons ?? [];
+    }
+
+    getCachedSettingTabs(pluginId: string): CachedSettingTab[] {
+        return this.store.getRegistrations(pluginId)?.settingTabs ?? [];
+    }
+
+    getCachedMenuItems(pluginId: string): CachedMenuItem[] {
+        return this.store.getRegistrations(pluginId)?.menuItems ?? [];
+    }
+
+    getCachedCodeBlockLanguages(pluginId: string): string[] {
+        return this.store.getRegistrations(pluginId)?.codeBlockLanguages ?? [];
+    }
+
+    getCachedCommandCount(pluginId: string): number {
+        return this.store.getIds(pluginId)?.size ?? 0;
+    }
+
+    /** Whether a command snapshot exists for the plugin, even an empty one. */
+    hasCommandCache(pluginId: string): boolean {
+        return this.store.has(pluginId);
+    }
+
+    /**
+     * Registrations known for a plugin: the persisted snapshot, or what was
+     * captured this session for plugins that are never snapshotted.
+     */
+    getKnownRegistrations(pluginId: string): CachedRegistrations | undefined {
+        return this.store.getRegistrations(pluginId) ?? this.capture.get(pluginId);
+    }
+
     async getCommandsForPlugin(pluginId: string): Promise<CachedCommand[]> {
         const wasEnabled = this.ctx.obsidianPlugins.enabledPlugins.has(pluginId);
         if (!wasEnabled) {
+            // Start from a clean capture so registrations dropped by a plugin
+            // update are not carried over into the new snapshot.
+            this.capture.reset(pluginId);
             await this.ctx.obsidianPlugins.enablePlugin(pluginId);
         }
 
@@ -82,15 +202,8 @@ export class CommandCacheService {
             await this.waitForPluginReadyForCommandSnapshot(pluginId);
         }
 
-        const commands = Object.values(this.ctx.obsidianCommands.commands) as CachedCommand[];
-        return commands
-            .filter((cmd) => this.ctx.getCommandPluginId(cmd.id) === pluginId)
-            .map((cmd) => ({
-                id: cmd.id,
-                name: cmd.name,
-                icon: cmd.icon,
-                pluginId,
-            }));
+        const commands = Object.values(this.ctx.obsidianCommands.commands);
+        return commands.filter((cmd) => this.ctx.getCommandPluginId(cmd.id) === pluginId).map((cmd) => toCachedCommand(cmd, pluginId));
     }
 
     async ensureCommandsCached(pluginId: string): Promise<void> {
@@ -99,7 +212,8 @@ export class CommandCacheService {
         this.store.persist();
     }
 
-    async forceReloadPluginCache(pluginId: string): Promise<void> {
+    async forceReloadPluginCache(pluginId: string): Promise<CacheDiffReport> {
+        const before = this.store.getPersistedSnapshot();
         const cachedIds = this.store.getIds(pluginId);
         const hadWrappers = cachedIds ? Array.from(cachedIds).some((commandId) => this.isWrapperCommand(commandId)) : false;
 
@@ -112,6 +226,7 @@ export class CommandCacheService {
         if (hadWrappers) {
             this.registerCachedCommandsForPlugin(pluginId);
         }
+        return this.recordDiffReport(before, [pluginId]);
     }
 
     // ---------------------------------------------------------------------------
@@ -130,10 +245,14 @@ export class CommandCacheService {
         }
     }
 
-    /** Lazy plugins whose cached commands were built for a different plugin version. */
+    /**
+     * Lazy plugins whose cached commands were built for a different plugin
+     * version, or whose stored entry failed validation and was dropped.
+     */
     getStaleCachedPluginIds(): string[] {
+        const invalid = new Set(this.store.getInvalidPluginIds());
         return this.getLazyManifests()
-            .filter((p) => this.store.has(p.id) && !this.store.isValid(p.id))
+            .filter((p) => invalid.has(p.id) || (this.store.has(p.id) && !this.store.isValid(p.id)))
             .map((p) => p.id);
     }
 
@@ -179,6 +298,8 @@ export class CommandCacheService {
     }
 
     registerCachedCommandsForPlugin(pluginId: string): void {
+        this.registerPlaceholders(pluginId);
+
         const commandIds = this.store.getIds(pluginId);
         if (!commandIds) return;
 
@@ -197,14 +318,7 @@ export class CommandCacheService {
             const cached = this.store.get(commandId);
             if (!cached) return;
 
-            const cmd = {
-                id: commandId,
-                name: cached.name,
-                icon: cached.icon,
-                callback: () => {
-                    void this.pluginLoader.runLazyCommand(commandId);
-                },
-            };
+            const cmd = this.createWrapperCommand(cached);
 
             this.ctx.obsidianCommands.addCommand(cmd);
             this.registeredWrappers.add(commandId);
@@ -212,7 +326,50 @@ export class CommandCacheService {
         });
     }
 
+    /**
+     * Build a wrapper with the same callback kind and flags as the real command,
+     * so Obsidian offers it in the same places and registers its default hotkeys.
+     * The check variants always pass: the real check runs once the plugin is loaded.
+     */
+    private createWrapperCommand(cached: CachedCommand): Command {
+        const run = () => {
+            void this.pluginLoader.runLazyCommand(cached.id);
+        };
+        const cmd: Command = {
+            id: cached.id,
+            name: cached.name,
+            icon: cached.icon,
+            mobileOnly: cached.mobileOnly,
+            allowPreview: cached.allowPreview,
+            allowProperties: cached.allowProperties,
+            hotkeys: cached.hotkeys,
+        };
+
+        switch (cached.kind) {
+            case "editorCheckCallback":
+                cmd.editorCheckCallback = (checking) => {
+                    if (!checking) run();
+                    return true;
+                };
+                break;
+            case "editorCallback":
+                cmd.editorCallback = run;
+                break;
+            case "checkCallback":
+                cmd.checkCallback = (checking) => {
+                    if (!checking) run();
+                    return true;
+                };
+                break;
+            default:
+                cmd.callback = run;
+        }
+        return cmd;
+    }
+
     removeCachedCommandsForPlugin(pluginId: string): void {
+        this.removePlaceholders(pluginId);
+
         const commandIds = this.store.getIds(pluginId);
         if (!commandIds) return;
         commandIds.forEach((commandId) => this.removeCommandWrapper(commandId));
@@ -244,6 +401,67 @@ export class CommandCacheService {
         this.wrapperCommands.delete(commandId);
     }
 
+    /** Drop the ribbon placeholder that the plugin is about to replace with its own icon. */
+    releaseRibbonPlaceholder(pluginId: string, title: string): void {
+        this.ribbonPlaceholders.release(pluginId, title);
+    }
+
+    /** Drop the settings tab placeholder that the plugin is about to replace with its own tab. */
+    releaseSettingTabPlaceholder(tabId: string): void {
+        this.settingTabPlaceholders.release(tabId);
+    }
+
+    /**
+     * Keep the snapshot of a lazy plugin in sync with commands it adds after
+     * onload. Plugins without a snapshot are left to the next full refresh.
+     */
+    recordAddedCommand(pluginId: string, command: Command): void {
+        if (!this.isLazyMode(pluginId) || !this.store.has(pluginId)) return;
+        // Commands re-added on every load match the snapshot and need no write.
+        if (!this.store.add(pluginId, toCachedCommand(command, pluginId))) return;
+
+        // Persist right away: the plugin may be disabled again before any later save.
+        this.store.persist();
+        logger.debug(`cached command ${command.id} added by ${pluginId} after onload`);
+    }
+
+    recordRemovedCommand(pluginId: string, commandId: string): void {
+        if (!this.isLazyMode(pluginId)) return;
+        if (!this.store.remove(pluginId, commandId)) return;
+
+        this.removeCommandWrapper(commandId);
+        this.store.persist();
+        logger.debug(`cached command ${commandId} removed by ${pluginId}`);
+    }
+
+    /** Remember a plugin's menu handlers so they can be replayed for snapshots and placeholder clicks. */
+    recordMenuHandler(pluginId: string, eventRef: EventRef): void {
+        this.menuPlaceholders.recordHandler(pluginId, eventRef);
+    }
+
+    /**
+     * Remember which vault, metadata cache and workspace events a plugin listens
+     * to. Those handlers only run while the plugin is loaded, which makes them
+     * a poor fit for on-demand loading.
+     */
+    recordBackgroundEvent(pluginId: string, eventRef: EventRef): void {
+        const ref = eventRef as unknown as { e?: unknown; name?: string };
+        if (!ref.name) return;
+
+        const { vault, metadataCache, workspace } = this.ctx.app;
+        if (ref.e === vault) {
+            this.capture.recordBackgroundHook(pluginId, `vault:${ref.name}`);
+        } else if (ref.e === metadataCache) {
+            this.capture.recordBackgroundHook(pluginId, `metadataCache:${ref.name}`);
+        } else if (ref.e === workspace && BACKGROUND_WORKSPACE_EVENTS.includes(ref.name)) {
+            this.capture.recordBackgroundHook(pluginId, `workspace:${ref.name}`);
+        }
+    }
+
+    registerMenuPlaceholderEvents(): void {
+        this.menuPlaceholders.registerEvents();
+    }
+
     isWrapperCommand(commandId: string): boolean {
         const wrapper = this.wrapperCommands.get(commandId);
         if (!wrapper) return false;
@@ -252,6 +470,12 @@ export class CommandCacheService {
     }
 
     syncCommandWrappersForPlugin(pluginId: string): void {
+        // A disabled plugin unregisters its protocol handlers, ribbon icons and tabs on
+        // unload; put the placeholders back while it is unloaded again.
+        if (!isPluginLoaded(this.ctx.app, pluginId)) {
+            this.registerPlaceholders(pluginId);
+        }
+
         const commandIds = this.store.getIds(pluginId);
         if (!commandIds) return;
 
@@ -283,6 +507,11 @@ export class CommandCacheService {
     clear(): void {
         this.registeredWrappers.forEach((commandId) => this.removeCommandWrapper(commandId));
         this.registeredWrappers.clear();
+        this.protocolStubs.clear();
+        this.ribbonPlaceholders.clear();
+        this.settingTabPlaceholders.clear();
+        this.menuPlaceholders.clear();
+        this.capture.clear();
         this.store.clear();
     }
 
@@ -290,6 +519,21 @@ export class CommandCacheService {
     // Private helpers
     // ---------------------------------------------------------------------------
 
+    /** Stand-ins for the plugin's non-command registrations while it is unloaded. */
+    private registerPlaceholders(pluginId: string): void {
+        this.protocolStubs.register(pluginId, this.getCachedProtocolActions(pluginId));
+        this.ribbonPlaceholders.register(pluginId, this.getCachedRibbonIcons(pluginId));
+        this.settingTabPlaceholders.register(pluginId, this.getCachedSettingTabs(pluginId));
+        this.menuPlaceholders.register(pluginId, this.getCachedMenuItems(pluginId));
+    }
+
+    private removePlaceholders(pluginId: string): void {
+        this.protocolStubs.remove(this.getCachedProtocolActions(pluginId));
+        this.ribbonPlaceholders.remove(pluginId, this.getCachedRibbonIcons(pluginId));
+        this.settingTabPlaceholders.remove(this.getCachedSettingTabs(pluginId));
+        this.menuPlaceholders.remove(pluginId);
+    }
+
     private getLazyManifests(): PluginManifest[] {
         return this.ctx.getManifests().filter((p) => this.isLazyMode(p.id));
     }
@@ -1,5 +1,6 @@
 import type { PluginContext } from "src/core/plugin-context";
 import * as storageMs from "src/core/storage";
+import { COMMAND_CACHE_SCHEMA_VERSION } from "src/features/lazy-engine/command-cache/cache-schema";
 import { CommandCacheStore } from "src/features/lazy-engine/command-cache/command-cache-store";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
@@ -9,14 +10,17 @@ describe("CommandCacheStore", () => {
     let store: CommandCacheStore;
     let mockCtx: {
         app: object;
+        getSettings: ReturnType<typeof vi.fn>;
         getManifests: ReturnType<typeof vi.fn>;
     };
 
     beforeEach(() => {
         vi.resetAllMocks();
+        vi.mocked(storageMs.saveLocalStorage).mockReturnValue(true);
 
         mockCtx = {
             app: {},
+            getSettings: vi.fn().mockReturnValue({ shareCommandCache: false }),
             getManifests: vi.fn().mockReturnValue([
                 { id: "test-plugin", version: "1.0.0" },
                 { id: "other-plugin", version: "2.0.0" },
@@ -49,13 +53,30 @@ describe("CommandCacheStore", () => {
         });
     });
 
+    describe("add and remove", () => {
+        it("should update a snapshot one command at a time", () => {
+            store.set("test-plugin", [{ id: "cmd1", name: "Cmd 1", pluginId: "test-plugin" }]);
+
+            expect(store.add("test-plugin", { id: "cmd2", name: "Cmd 2", pluginId: "test-plugin" })).toBe(true);
+            expect(store.add("test-plugin", { id: "cmd2", name: "Cmd 2", kind: "callback", pluginId: "test-plugin" })).toBe(false);
+            expect(Array.from(store.getIds("test-plugin") ?? [])).toEqual(["cmd1", "cmd2"]);
+
+            expect(store.remove("test-plugin", "cmd1")).toBe(true);
+            expect(store.remove("test-plugin", "cmd1")).toBe(false);
+            expect(store.get("cmd1")).toBeUndefined();
+            expect(Array.from(store.getIds("test-plugin") ?? [])).toEqual(["cmd2"]);
+        });
+    });
+
     describe("loadFromData", () => {
-        it("should load cache from storage", () => {
-            vi.mocked(storageMs.loadLocalStorage).mockReturnValue({
-                "test-plugin": [{ id: "cmd1", name: "Cmd 1", icon: "icon1" }],
+        it("should load cache from storage", async () => {
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "Cmd 1", icon: "icon1" }] };
+                if (key === "commandCacheVersions") return { "test-plugin": "1.0.0" };
+                return null;
             });
 
-            store.loadFromData();
+            await store.loadFromData();
 
             expect(storageMs.loadLocalStorage).toHaveBeenCalledWith(mockCtx.app, "commandCache");
             expect(store.has("test-plugin")).toBe(true);
@@ -63,15 +84,45 @@ describe("CommandCacheStore", () => {
             expect(cached).toEqual({ id: "cmd1", name: "Cmd 1", icon: "icon1", pluginId: "test-plugin" });
         });
 
-        it("should do nothing if storage is empty", () => {
+        it("should do nothing if storage is empty", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockReturnValue(null);
 
             store.set("existing", [{ id: "cmd", name: "cmd", icon: "", pluginId: "existing" }]);
-            store.loadFromData();
+            await store.loadFromData();
 
             // Cache should not be cleared if no data is found (Wait, looking at the code, it returns early, so it preserves existing state)
             expect(store.has("existing")).toBe(true);
         });
+
+        it("should fill in outdated plugins from the shared cache file when sharing is enabled", async () => {
+            const adapter = {
+                exists: vi.fn().mockResolvedValue(true),
+                read: vi.fn().mockResolvedValue(
+                    JSON.stringify({
+                        platforms: {
+                            desktop: {
+                                commands: { "test-plugin": [{ id: "test-plugin:new", name: "New" }] },
+                                versions: { "test-plugin": "1.0.0" },
+                                registrations: {},
+                            },
+                        },
+                    }),
+                ),
+            };
+            const ctx = { ...mockCtx, app: { vault: { adapter } }, _plugin: { manifest: { dir: "plugins/on-demand" } } };
+            ctx.getSettings.mockReturnValue({ shareCommandCache: true });
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "test-plugin": [{ id: "test-plugin:old", name: "Old" }] };
+                if (key === "commandCacheVersions") return { "test-plugin": "0.9.0" };
+                return null;
+            });
+
+            await new CommandCacheStore(ctx as unknown as PluginContext).loadFromData();
+
+            expect(adapter.read).toHaveBeenCalledWith("plugins/on-demand/command-cache.json");
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(ctx.app, "commandCache", { "test-plugin": [{ id: "test-plugin:new", name: "New" }] });
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(ctx.app, "commandCacheVersions", { "test-plugin": "1.0.0" });
+        });
     });
 
     describe("persist", () => {
@@ -80,13 +131,156 @@ describe("CommandCacheStore", () => {
 
             store.persist();
 
-            expect(storageMs.saveLocalStorage).toHaveBeenCalledTimes(2);
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledTimes(4);
             expect(storageMs.saveLocalStorage).toHaveBeenNthCalledWith(1, mockCtx.app, "commandCache", {
                 "test-plugin": [{ id: "cmd1", name: "Cmd 1", icon: "icon1" }],
             });
             expect(storageMs.saveLocalStorage).toHaveBeenNthCalledWith(2, mockCtx.app, "commandCacheVersions", {
                 "test-plugin": "1.0.0",
             });
+            expect(storageMs.saveLocalStorage).toHaveBeenNthCalledWith(3, mockCtx.app, "registrationCache", {});
+            expect(storageMs.saveLocalStorage).toHaveBeenNthCalledWith(4, mockCtx.app, "commandCacheSchema", COMMAND_CACHE_SCHEMA_VERSION);
+        });
+
+        it("should save command metadata only when it differs from the defaults", () => {
+            store.set("test-plugin", [
+                { id: "cmd1", name: "Cmd 1", icon: "icon1", kind: "callback", allowPreview: false, hotkeys: [], pluginId: "test-plugin" },
+                { id: "cmd2", name: "Cmd 2", kind: "editorCallback", allowProperties: true, hotkeys: [{ modifiers: ["Mod"], key: "k" }], pluginId: "test-plugin" },
+            ]);
+
+            store.persist();
+
+            expect(storageMs.saveLocalStorage).toHaveBeenNthCalledWith(1, mockCtx.app, "commandCache", {
+                "test-plugin": [
+                    { id: "cmd1", name: "Cmd 1", icon: "icon1" },
+                    { id: "cmd2", name: "Cmd 2", icon: undefined, kind: "editorCallback", allowProperties: true, hotkeys: [{ modifiers: ["Mod"], key: "k" }] },
+                ],
+            });
+        });
+
+        it("should save captured registrations alongside the commands", () => {
+            store.set("test-plugin", [{ id: "cmd1", name: "Cmd 1", icon: "icon1", pluginId: "test-plugin" }]);
+            store.setRegistrations("test-plugin", { protocolActions: ["capture"] });
+
+            store.persist();
+
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(mockCtx.app, "registrationCache", {
+                "test-plugin": { protocolActions: ["capture"] },
+            });
+        });
+
+        it("should save the version of a plugin that has registrations but no commands", () => {
+            store.setRegistrations("test-plugin", { protocolActions: ["capture"] });
+
+            store.persist();
+
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(mockCtx.app, "commandCacheVersions", { "test-plugin": "1.0.0" });
+            expect(store.isValid("test-plugin")).toBe(true);
+        });
+
+        it("should write this platform's section of the shared cache file when sharing is enabled", async () => {
+            const adapter = {
+                exists: vi.fn().mockResolvedValue(true),
+                read: vi.fn().mockResolvedValue(JSON.stringify({ platforms: { mobile: { commands: {}, versions: {}, registrations: {} } } })),
+                write: vi.fn().mockResolvedValue(undefined),
+            };
+            const ctx = { ...mockCtx, app: { vault: { adapter } }, _plugin: { manifest: { dir: "plugins/on-demand" } } };
+            ctx.getSettings.mockReturnValue({ shareCommandCache: true });
+            const sharingStore = new CommandCacheStore(ctx as unknown as PluginContext);
+            sharingStore.set("test-plugin", [{ id: "cmd1", name: "Cmd 1", pluginId: "test-plugin" }]);
+
+            sharingStore.persist();
+            await sharingStore.writeSharedFile();
+
+            const written = JSON.parse(adapter.write.mock.calls[0][1] as string) as { platforms: Record<string, unknown> };
+            expect(adapter.write.mock.calls[0][0]).toBe("plugins/on-demand/command-cache.json");
+            expect(written.platforms).toEqual({
+                mobile: { commands: {}, versions: {}, registrations: {} },
+                desktop: { commands: { "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] }, versions: { "test-plugin": "1.0.0" }, registrations: {} },
+            });
+        });
+    });
+
+    describe("useBackend", () => {
+        function createFileCtx(write = vi.fn().mockResolvedValue(undefined)) {
+            const adapter = { exists: vi.fn().mockResolvedValue(false), read: vi.fn(), write, remove: vi.fn() };
+            const ctx = { ...mockCtx, app: { appId: "app-1", vault: { adapter } }, _plugin: { manifest: { dir: "plugins/on-demand" } } };
+            ctx.getSettings.mockReturnValue({ shareCommandCache: false, commandCacheBackend: "localStorage" });
+            return { adapter, store: new CommandCacheStore(ctx as unknown as PluginContext) };
+        }
+
+        it("should move the cache to the new backend and clear it from the previous one", async () => {
+            const { adapter, store: movingStore } = createFileCtx();
+            vi.mocked(storageMs.loadLocalStorage).mockReturnValue(null);
+            await movingStore.loadFromData();
+            movingStore.set("test-plugin", [{ id: "cmd1", name: "Cmd 1", pluginId: "test-plugin" }]);
+            movingStore.persist();
+
+            await movingStore.useBackend("file");
+
+            expect(adapter.write).toHaveBeenCalledWith("plugins/on-demand/command-cache.app-1.local.json", expect.stringContaining("cmd1"));
+            expect(storageMs.removeLocalStorage).toHaveBeenCalledWith(expect.anything(), "commandCache");
+            expect(storageMs.removeLocalStorage).toHaveBeenCalledWith(expect.anything(), "commandCacheSchema");
+        });
+
+        it("should keep the previous backend's copy when the new one cannot be written", async () => {
+            const { store: movingStore } = createFileCtx(vi.fn().mockRejectedValue(new Error("disk full")));
+            vi.mocked(storageMs.loadLocalStorage).mockReturnValue(null);
+            await movingStore.loadFromData();
+
+            await movingStore.useBackend("file");
+
+            expect(storageMs.removeLocalStorage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("save", () => {
+        it("should write one snapshot at a time and only the latest of those made meanwhile", async () => {
+            const pending: Array<() => void> = [];
+            const write = vi.fn(() => new Promise<void>((resolve) => pending.push(resolve)));
+            const adapter = { exists: vi.fn().mockResolvedValue(false), read: vi.fn(), write, remove: vi.fn() };
+            const ctx = { ...mockCtx, app: { appId: "app-1", vault: { adapter } }, _plugin: { manifest: { dir: "plugins/on-demand" } } };
+            ctx.getSettings.mockReturnValue({ shareCommandCache: false, commandCacheBackend: "file" });
+            const fileStore = new CommandCacheStore(ctx as unknown as PluginContext);
+
+            fileStore.set("test-plugin", [{ id: "cmd1", name: "Cmd 1", pluginId: "test-plugin" }]);
+            fileStore.persist();
+            await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1));
+            fileStore.set("test-plugin", [{ id: "cmd2", name: "Cmd 2", pluginId: "test-plugin" }]);
+            fileStore.persist();
+            fileStore.set("test-plugin", [{ id: "cmd3", name: "Cmd 3", pluginId: "test-plugin" }]);
+            fileStore.persist();
+
+            await Promise.resolve();
+            expect(write).toHaveBeenCalledTimes(1);
+
+            pending[0]();
+            await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(2));
+            pending[1]();
+            await Promise.resolve();
+
+            expect(write).toHaveBeenCalledTimes(2);
+            expect(write.mock.calls[1]).toEqual(["plugins/on-demand/command-cache.app-1.local.json", expect.stringContaining("cmd3")]);
+        });
+    });
+
+    describe("registrations", () => {
+        it("should load registrations from storage", async () => {
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "registrationCache") return { "test-plugin": { protocolActions: ["capture"] } };
+                return null;
+            });
+
+            await store.loadFromData();
+
+            expect(store.getRegistrations("test-plugin")).toEqual({ protocolActions: ["capture"] });
+        });
+
+        it("should drop the entry when a snapshot has no registrations", () => {
+            store.setRegistrations("test-plugin", { protocolActions: ["capture"] });
+            store.setRegistrations("test-plugin", undefined);
+
+            expect(store.getRegistrations("test-plugin")).toBeUndefined();
         });
     });
 
@@ -95,33 +289,46 @@ describe("CommandCacheStore", () => {
             expect(store.isValid("test-plugin")).toBe(false);
         });
 
-        it("should return false if cache has no data for plugin", () => {
-            store.set("test-plugin", []); // empty
+        it("should return false if cache has no data for plugin", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((app, key) => {
                 if (key === "commandCache") return {};
                 return null;
             });
+            await store.loadFromData();
+            store.set("test-plugin", []); // empty
             expect(store.isValid("test-plugin")).toBe(false);
         });
 
-        it("should return false if version doesnt match", () => {
-            store.set("test-plugin", [{ id: "cmd1", name: "", icon: "", pluginId: "test-plugin" }]);
+        it("should return false if version doesnt match", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((app, key) => {
-                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1" }] };
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "" }] };
                 if (key === "commandCacheVersions") return { "test-plugin": "0.9.0" }; // Different version
                 return null;
             });
+            await store.loadFromData();
             expect(store.isValid("test-plugin")).toBe(false);
         });
 
-        it("should return true if version matches", () => {
-            store.set("test-plugin", [{ id: "cmd1", name: "", icon: "", pluginId: "test-plugin" }]);
+        it("should return true if version matches", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((app, key) => {
-                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1" }] };
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "" }] };
                 if (key === "commandCacheVersions") return { "test-plugin": "1.0.0" }; // Matching version
                 return null;
             });
+            await store.loadFromData();
+            expect(store.isValid("test-plugin")).toBe(true);
+        });
+
+        it("should accept a plugin with only registrations when the version matches", async () => {
+            vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "registrationCache") return { "test-plugin": { ribbonIcons: [{ icon: "dice", title: "Roll" }] } };
+                if (key === "commandCacheVersions") return { "test-plugin": "1.0.0" };
+                if (key === "commandCacheSchema") return COMMAND_CACHE_SCHEMA_VERSION;
+                return null;
+            });
+            await store.loadFromData();
             expect(store.isValid("test-plugin")).toBe(true);
+            expect(store.isValid("other-plugin")).toBe(false);
         });
     });
 
@@ -138,38 +345,48 @@ describe("CommandCacheStore", () => {
     });
 
     describe("markVersionCurrent", () => {
-        it("should update only the version for the given plugin without touching commands", () => {
+        it("should update only the version for the given plugin and keep its commands", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] };
                 if (key === "commandCacheVersions") return { "test-plugin": "0.9.0" };
                 return null;
             });
+            await store.loadFromData();
+            vi.mocked(storageMs.saveLocalStorage).mockClear();
 
             store.markVersionCurrent("test-plugin");
 
-            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(
-                mockCtx.app,
-                "commandCacheVersions",
-                { "test-plugin": "1.0.0" },
+            // Written once the migration write started by loadFromData() is done.
+            await vi.waitFor(() =>
+                expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(
+                    mockCtx.app,
+                    "commandCacheVersions",
+                    { "test-plugin": "1.0.0" },
+                ),
             );
-            expect(storageMs.saveLocalStorage).not.toHaveBeenCalledWith(
+            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(
                 mockCtx.app,
                 "commandCache",
-                expect.anything(),
+                { "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] },
             );
         });
 
-        it("should preserve other plugin versions when updating", () => {
+        it("should preserve other plugin versions when updating", async () => {
             vi.mocked(storageMs.loadLocalStorage).mockImplementation((_app, key) => {
+                if (key === "commandCache") return { "other-plugin": [{ id: "cmd2", name: "Cmd 2" }], "test-plugin": [{ id: "cmd1", name: "Cmd 1" }] };
                 if (key === "commandCacheVersions") return { "other-plugin": "2.0.0", "test-plugin": "0.9.0" };
                 return null;
             });
+            await store.loadFromData();
 
             store.markVersionCurrent("test-plugin");
 
-            expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(
-                mockCtx.app,
-                "commandCacheVersions",
-                { "other-plugin": "2.0.0", "test-plugin": "1.0.0" },
+            await vi.waitFor(() =>
+                expect(storageMs.saveLocalStorage).toHaveBeenCalledWith(
+                    mockCtx.app,
+                    "commandCacheVersions",
+                    { "other-plugin": "2.0.0", "test-plugin": "1.0.0" },
+                ),
             );
         });
 
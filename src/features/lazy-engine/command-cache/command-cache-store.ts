@@ -1,16 +1,51 @@
+import log from "loglevel";
+import { Notice } from "obsidian";
 import type { CachedCommand } from "src/core/interfaces";
 import type { PluginContext } from "src/core/plugin-context";
-import { loadLocalStorage, saveLocalStorage } from "src/core/storage";
-import type { CommandCache } from "src/core/types";
+import type { CachedCommandEntry, CachedRegistrations, CommandCache, CommandCacheBackendKind, CommandCacheSnapshot, CommandCacheVersions, RegistrationCache } from "src/core/types";
+import type { CommandCacheBackend } from "src/features/lazy-engine/command-cache/cache-backends";
+import { createCommandCacheBackend } from "src/features/lazy-engine/command-cache/cache-backends";
+import { parseCommandCache, toPersistedCache } from "src/features/lazy-engine/command-cache/cache-schema";
+import { getCurrentPlatform, mergeSharedCache, SharedCacheFile } from "src/features/lazy-engine/command-cache/shared-cache-file";
+
+const logger = log.getLogger("OnDemandPlugin/CommandCacheStore");
+
+/** The persisted part of a command; optional metadata is only written when present. */
+function toEntry(command: CachedCommandEntry): CachedCommandEntry {
+    const entry: CachedCommandEntry = { id: command.id, name: command.name, icon: command.icon };
+    if (command.kind && command.kind !== "callback") entry.kind = command.kind;
+    if (command.allowPreview) entry.allowPreview = true;
+    if (command.allowProperties) entry.allowProperties = true;
+    if (command.mobileOnly) entry.mobileOnly = true;
+    if (command.hotkeys?.length) entry.hotkeys = command.hotkeys.map((hotkey) => ({ modifiers: [...hotkey.modifiers], key: hotkey.key }));
+    return entry;
+}
 
 export class CommandCacheStore {
     readonly commandCache = new Map<string, CachedCommand>();
     readonly pluginCommandIndex = new Map<string, Set<string>>();
+    readonly registrations = new Map<string, CachedRegistrations>();
+
+    /** What the backend holds: the snapshot last loaded or saved. */
+    private persisted: CommandCacheSnapshot = { commands: {}, versions: {}, registrations: {} };
+    /** Plugins dropped on load because their stored entry failed validation. */
+    private invalidPluginIds = new Set<string>();
+    private backend: CommandCacheBackend | null = null;
+    private saveFailureReported = false;
+    /**
+     * The write in progress and the snapshot waiting for it. Writes never
+     * overlap, so an older snapshot cannot land after a newer one, and only the
+     * latest waiting snapshot is written.
+     */
+    private writing: Promise<boolean> | null = null;
+    private queued: { snapshot: CommandCacheSnapshot; done: Promise<boolean> } | null = null;
 
     private ctx: PluginContext;
+    private sharedFile: SharedCacheFile;
 
     constructor(ctx: PluginContext) {
         this.ctx = ctx;
+        this.sharedFile = new SharedCacheFile(ctx);
     }
 
     get(commandId: string): CachedCommand | undefined {
@@ -32,6 +67,29 @@ export class CommandCacheStore {
         this.pluginCommandIndex.set(pluginId, ids);
     }
 
+    /**
+     * Add or replace a single command in an existing snapshot.
+     * @returns false when the same command was already cached.
+     */
+    add(pluginId: string, command: CachedCommand): boolean {
+        const existing = this.commandCache.get(command.id);
+        if (existing?.pluginId === pluginId && JSON.stringify(toEntry(existing)) === JSON.stringify(toEntry(command))) return false;
+
+        this.commandCache.set(command.id, command);
+        const ids = this.pluginCommandIndex.get(pluginId) ?? new Set<string>();
+        ids.add(command.id);
+        this.pluginCommandIndex.set(pluginId, ids);
+        return true;
+    }
+
+    /** @returns whether the command was cached for the plugin. */
+    remove(pluginId: string, commandId: string): boolean {
+        const ids = this.pluginCommandIndex.get(pluginId);
+        if (!ids?.delete(commandId)) return false;
+        this.commandCache.delete(commandId);
+        return true;
+    }
+
     getIds(pluginId: string): Set<string> | undefined {
         return this.pluginCommandIndex.get(pluginId);
     }
@@ -40,61 +98,203 @@ export class CommandCacheStore {
         return this.pluginCommandIndex.has(pluginId);
     }
 
-    loadFromData(): void {
-        const commandCacheSource = loadLocalStorage<CommandCache>(this.ctx.app, "commandCache");
-        if (!commandCacheSource) return;
+    getRegistrations(pluginId: string): CachedRegistrations | undefined {
+        return this.registrations.get(pluginId);
+    }
+
+    setRegistrations(pluginId: string, registrations: CachedRegistrations | undefined): void {
+        // Replace rather than merge, for the same reason set() drops the previous
+        // command snapshot: an updated plugin may no longer register an entry.
+        if (!registrations || Object.keys(registrations).length === 0) {
+            this.registrations.delete(pluginId);
+            return;
+        }
+        this.registrations.set(pluginId, structuredClone(registrations));
+    }
+
+    /**
+     * Load the cache from the configured backend, migrating and validating it,
+     * then, when sharing is enabled, fill in plugins that are missing or
+     * outdated locally from the shared cache file.
+     */
+    async loadFromData(): Promise<void> {
+        const backend = this.getBackend();
+        let raw: unknown = null;
+        try {
+            raw = await backend.load();
+        } catch (error) {
+            logger.warn(`Failed to read the command cache from ${backend.kind}; affected plugins will be rebuilt`, error);
+        }
+
+        const parsed = parseCommandCache(raw);
+        if (parsed) {
+            this.persisted = parsed.snapshot;
+            parsed.invalid.forEach((pluginId) => this.invalidPluginIds.add(pluginId));
+        }
+
+        const adopted = this.ctx.getSettings().shareCommandCache ? await this.mergeSharedFile() : false;
+        // Keep what is in memory when nothing was stored yet.
+        if (!parsed && !adopted) return;
+
+        this.applySnapshot(this.persisted);
+        if (parsed?.changed || adopted) void this.save(this.persisted);
+    }
+
+    /** The snapshot as last loaded or saved. Replaced, never mutated, on every save. */
+    getPersistedSnapshot(): CommandCacheSnapshot {
+        return this.persisted;
+    }
+
+    /** Plugins whose stored entry failed validation and have not been rebuilt since. */
+    getInvalidPluginIds(): string[] {
+        return Array.from(this.invalidPluginIds);
+    }
+
+    /**
+     * Move the cache to another backend, e.g. after the setting changed, and
+     * clear it from the previous one once writes to it have finished.
+     */
+    async useBackend(kind: CommandCacheBackendKind): Promise<void> {
+        const previous = this.backend;
+        if (previous?.kind === kind) return;
+        this.backend = createCommandCacheBackend(this.ctx, kind);
+        // Keep the old copy when the move failed, so switching back finds it.
+        if (!(await this.save(this.persisted)) || !previous) return;
+        try {
+            await previous.clear();
+        } catch (error) {
+            logger.warn(`Failed to clear the command cache from ${previous.kind}:`, error);
+        }
+    }
 
+    /** Write the current platform's section of the shared cache file right away. */
+    writeSharedFile(): Promise<void> {
+        return this.sharedFile.write(getCurrentPlatform(), this.buildSnapshot());
+    }
+
+    private async mergeSharedFile(): Promise<boolean> {
+        const shared = await this.sharedFile.read();
+        if (!shared) return false;
+
+        const installed: CommandCacheVersions = {};
+        this.ctx.getManifests().forEach((plugin) => (installed[plugin.id] = plugin.version ?? ""));
+
+        const { snapshot, adopted } = mergeSharedCache(this.persisted, shared, getCurrentPlatform(), installed);
+        if (!adopted.length) return false;
+
+        logger.debug(`Using the shared command cache for ${adopted.join(", ")}`);
+        this.persisted = snapshot;
+        adopted.forEach((pluginId) => this.invalidPluginIds.delete(pluginId));
+        return true;
+    }
+
+    private applySnapshot(snapshot: CommandCacheSnapshot): void {
         this.commandCache.clear();
         this.pluginCommandIndex.clear();
+        this.registrations.clear();
 
-        Object.entries(commandCacheSource).forEach(([pluginId, commands]) => {
+        Object.entries(snapshot.commands).forEach(([pluginId, commands]) => {
             const ids = new Set<string>();
             commands.forEach((command) => {
-                const cached: CachedCommand = {
-                    id: command.id,
-                    name: command.name,
-                    icon: command.icon,
-                    pluginId,
-                };
+                const cached: CachedCommand = { ...toEntry(command), pluginId };
                 this.commandCache.set(cached.id, cached);
                 ids.add(cached.id);
             });
             this.pluginCommandIndex.set(pluginId, ids);
         });
+        Object.entries(snapshot.registrations).forEach(([pluginId, registrations]) => this.registrations.set(pluginId, registrations));
     }
 
     persist(): void {
+        const snapshot = this.buildSnapshot();
+        Object.keys(snapshot.versions).forEach((pluginId) => this.invalidPluginIds.delete(pluginId));
+        void this.save(snapshot);
+        if (this.ctx.getSettings().shareCommandCache) {
+            void this.sharedFile.write(getCurrentPlatform(), snapshot);
+        }
+    }
+
+    private buildSnapshot(): CommandCacheSnapshot {
         const cache: CommandCache = {};
-        const versions: Record<string, string> = {};
+        const versions: CommandCacheVersions = {};
+        const registrations: RegistrationCache = {};
 
         this.ctx.getManifests().forEach((plugin) => {
             const commands = Array.from(this.commandCache.values())
                 .filter((command) => command.pluginId === plugin.id)
-                .map((command) => ({
-                    id: command.id,
-                    name: command.name,
-                    icon: command.icon,
-                }));
+                .map(toEntry);
             if (commands.length) {
                 cache[plugin.id] = commands;
+            }
+            const pluginRegistrations = this.registrations.get(plugin.id);
+            if (pluginRegistrations) {
+                registrations[plugin.id] = pluginRegistrations;
+            }
+            if (commands.length || pluginRegistrations) {
                 versions[plugin.id] = plugin.version ?? "";
             }
         });
 
-        saveLocalStorage(this.ctx.app, "commandCache", cache);
-        saveLocalStorage(this.ctx.app, "commandCacheVersions", versions);
+        return { commands: cache, versions, registrations };
     }
 
-    isValid(pluginId: string): boolean {
-        if (!this.pluginCommandIndex.has(pluginId)) return false;
+    /** @returns false when the backend could not write the cache. */
+    private save(snapshot: CommandCacheSnapshot): Promise<boolean> {
+        this.persisted = snapshot;
+        if (this.queued) {
+            this.queued.snapshot = snapshot;
+            return this.queued.done;
+        }
+        if (!this.writing) return this.startWrite(snapshot);
 
-        const cached = loadLocalStorage<CommandCache>(this.ctx.app, "commandCache")?.[pluginId];
-        if (!Array.isArray(cached) || cached.length === 0) return false;
+        const done = this.writing.then(() => {
+            const latest = this.queued?.snapshot ?? snapshot;
+            this.queued = null;
+            return this.startWrite(latest);
+        });
+        this.queued = { snapshot, done };
+        return done;
+    }
+
+    private startWrite(snapshot: CommandCacheSnapshot): Promise<boolean> {
+        const writing = this.write(snapshot).finally(() => {
+            if (this.writing === writing) this.writing = null;
+        });
+        this.writing = writing;
+        return writing;
+    }
+
+    private async write(snapshot: CommandCacheSnapshot): Promise<boolean> {
+        const backend = this.getBackend();
+        try {
+            await backend.save(toPersistedCache(snapshot));
+            return true;
+        } catch (error) {
+            logger.error(`Failed to save the command cache to ${backend.kind}:`, error);
+            if (!this.saveFailureReported) {
+                this.saveFailureReported = true;
+                new Notice("The command cache could not be saved. If this keeps happening, choose another command cache storage in the settings.");
+            }
+            return false;
+        }
+    }
+
+    private getBackend(): CommandCacheBackend {
+        this.backend ??= createCommandCacheBackend(this.ctx, this.ctx.getSettings().commandCacheBackend);
+        return this.backend;
+    }
+
+    isValid(pluginId: string): boolean {
+        const cached = this.persisted.commands[pluginId];
+        const hasCommands = this.pluginCommandIndex.has(pluginId) && Array.isArray(cached) && cached.length > 0;
+        // Some plugins only register protocol handlers, ribbon icons, tabs or menus.
+        const hasRegistrations = this.registrations.has(pluginId) && Boolean(this.persisted.registrations[pluginId]);
+        if (!hasCommands && !hasRegistrations) return false;
 
         const manifest = this.ctx.getManifests().find((p) => p.id === pluginId);
         if (!manifest) return false;
 
-        const cachedVersion = loadLocalStorage<Record<string, string>>(this.ctx.app, "commandCacheVersions")?.[pluginId];
+        const cachedVersion = this.persisted.versions[pluginId];
         if (!cachedVersion) return false;
 
         return cachedVersion === (manifest.version ?? "");
@@ -108,13 +308,13 @@ export class CommandCacheStore {
         const manifest = this.ctx.getManifests().find((p) => p.id === pluginId);
         if (!manifest) return;
 
-        const versions = loadLocalStorage<Record<string, string>>(this.ctx.app, "commandCacheVersions") ?? {};
-        versions[pluginId] = manifest.version ?? "";
-        saveLocalStorage(this.ctx.app, "commandCacheVersions", versions);
+        this.invalidPluginIds.delete(pluginId);
+        void this.save({ ...this.persisted, versions: { ...this.persisted.versions, [pluginId]: manifest.version ?? "" } });
     }
 
     clear(): void {
         this.commandCache.clear();
         this.pluginCommandIndex.clear();
+        this.registrations.clear();
     }
 }
@@ -0,0 +1,116 @@
+import type { EventRef, Menu } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { MenuPlaceholders } from "src/features/lazy-engine/command-cache/menu-placeholders";
+import type { Mock } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Handler = (...args: unknown[]) => void;
+
+interface TestItem {
+    title?: string;
+    click?: (evt: MouseEvent) => void;
+}
+
+function createTestMenu(items: TestItem[]): Menu {
+    return {
+        addItem(callback: (item: unknown) => void) {
+            const record: TestItem = {};
+            const item = {
+                setTitle(title: string) {
+                    record.title = title;
+                    return item;
+                },
+                setIcon: () => item,
+                setSection: () => item,
+                onClick(click: (evt: MouseEvent) => void) {
+                    record.click = click;
+                    return item;
+                },
+            };
+            callback(item);
+            items.push(record);
+        },
+    } as unknown as Menu;
+}
+
+describe("MenuPlaceholders", () => {
+    const file = { path: "note.md" };
+    let events: { _: Record<string, unknown[]> };
+    let workspaceHandlers: Map<string, Handler>;
+    let useMenus: boolean;
+    let pluginLoader: { ensurePluginLoaded: ReturnType<typeof vi.fn> };
+    let exported: Mock<(target: unknown) => void>;
+    let placeholders: MenuPlaceholders;
+
+    function registerPluginHandler(name: string, fn: Handler): EventRef {
+        const ref = { e: events, name, fn, ctx: null };
+        (events._[name] ??= []).push(ref);
+        return ref as unknown as EventRef;
+    }
+
+    beforeEach(() => {
+        events = { _: {} };
+        workspaceHandlers = new Map();
+        useMenus = true;
+        pluginLoader = { ensurePluginLoaded: vi.fn().mockResolvedValue(true) };
+        exported = vi.fn();
+
+        const ctx = {
+            app: {
+                workspace: {
+                    on: vi.fn((name: string, handler: Handler) => workspaceHandlers.set(name, handler)),
+                    getActiveFile: () => file,
+                    getActiveViewOfType: () => null,
+                },
+                vault: { getMarkdownFiles: () => [file] },
+            },
+            registerEvent: vi.fn(),
+            getSettings: () => ({ plugins: { "export-plugin": { lazyOptions: { useMenus } } } }),
+        } as unknown as PluginContext;
+        placeholders = new MenuPlaceholders(ctx, pluginLoader as unknown as PluginLoader);
+
+        placeholders.recordHandler(
+            "export-plugin",
+            registerPluginHandler("file-menu", (menu, target) => {
+                (menu as Menu).addItem((item) => item.setTitle("Export").setIcon("download").onClick(() => exported(target)));
+            }),
+        );
+    });
+
+    it("captures the items a plugin adds for a representative file", () => {
+        expect(placeholders.snapshot("export-plugin")).toEqual([{ menu: "file-menu", title: "Export", icon: "download", section: undefined }]);
+    });
+
+    it("ignores handlers that were unregistered when the plugin unloaded", () => {
+        events._["file-menu"] = [];
+
+        expect(placeholders.snapshot("export-plugin")).toEqual([]);
+    });
+
+    it("adds placeholders that load the plugin and run the real item for the clicked target", async () => {
+        placeholders.register("export-plugin", placeholders.snapshot("export-plugin"));
+        placeholders.registerEvents();
+
+        const items: TestItem[] = [];
+        const target = { path: "other.md" };
+        workspaceHandlers.get("file-menu")?.(createTestMenu(items), target, "file-explorer-context-menu");
+        expect(items.map((item) => item.title)).toEqual(["Export"]);
+
+        items[0].click?.({} as MouseEvent);
+
+        await vi.waitFor(() => expect(exported).toHaveBeenCalledWith(target));
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("export-plugin");
+    });
+
+    it("does not add placeholders for plugins that have not opted in", () => {
+        useMenus = false;
+        placeholders.register("export-plugin", placeholders.snapshot("export-plugin"));
+        placeholders.registerEvents();
+
+        const items: TestItem[] = [];
+        workspaceHandlers.get("file-menu")?.(createTestMenu(items), file, "file-explorer-context-menu");
+
+        expect(items).toEqual([]);
+    });
+});
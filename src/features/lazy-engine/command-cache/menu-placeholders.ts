@@ -0,0 +1,234 @@
+import log from "loglevel";
+import type { EventRef, Menu, MenuItem, TFile } from "obsidian";
+import { MarkdownView } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import type { CachedMenuItem, MenuEventName } from "src/core/types";
+import { isPluginLoaded } from "src/core/utils";
+
+const logger = log.getLogger("OnDemandPlugin/MenuPlaceholders");
+
+const MENU_EVENTS: MenuEventName[] = ["file-menu", "files-menu", "editor-menu"];
+
+type MenuClickHandler = (evt: MouseEvent | KeyboardEvent) => unknown;
+
+/**
+ * Internal shape of the references returned by `Events.on`.
+ */
+interface EventRefLike {
+    e?: { _?: Record<string, EventRefLike[] | undefined> };
+    name?: string;
+    fn?: (...args: unknown[]) => unknown;
+    ctx?: unknown;
+}
+
+interface RecordedMenuItem {
+    title?: string;
+    icon?: string;
+    section?: string;
+    onClick?: MenuClickHandler;
+}
+
+// ── Recording menu ─────────────────────────────────────────────────────────────
+
+/**
+ * A stand-in Menu that records the items handlers add instead of rendering them.
+ * Methods we do not care about are accepted and chained.
+ */
+function createRecordingMenu(items: RecordedMenuItem[]): Menu {
+    const menu: Menu = new Proxy({} as Menu, {
+        get: (_target, prop) => {
+            // Never look like a thenable.
+            if (prop === "then") return undefined;
+            if (prop === "addItem") {
+                return (callback: (item: MenuItem) => unknown) => {
+                    const record: RecordedMenuItem = {};
+                    items.push(record);
+                    callback(createRecordingItem(record));
+                    return menu;
+                };
+            }
+            return () => menu;
+        },
+    });
+    return menu;
+}
+
+function createRecordingItem(record: RecordedMenuItem): MenuItem {
+    const item: MenuItem = new Proxy({} as MenuItem, {
+        get: (_target, prop) => {
+            if (prop === "then") return undefined;
+            switch (prop) {
+                case "setTitle":
+                    return (title: string | DocumentFragment) => {
+                        record.title = typeof title === "string" ? title : (title.textContent ?? undefined);
+                        return item;
+                    };
+                case "setIcon":
+                    return (icon: string | null) => {
+                        record.icon = icon ?? undefined;
+                        return item;
+                    };
+                case "setSection":
+                    return (section: string) => {
+                        record.section = section;
+                        return item;
+                    };
+                case "onClick":
+                    return (callback: MenuClickHandler) => {
+                        record.onClick = callback;
+                        return item;
+                    };
+                case "setSubmenu":
+                    // Submenu entries are not cached; the parent item is enough to load the plugin.
+                    return () => createRecordingMenu([]);
+                default:
+                    return () => item;
+            }
+        },
+    });
+    return item;
+}
+
+// ── Placeholders ───────────────────────────────────────────────────────────────
+
+/**
+ * Captures the context menu items lazy plugins contribute and shows them as
+ * placeholders while the plugin is unloaded.
+ *
+ * Items are captured by replaying the plugin's own `file-menu`, `files-menu`
+ * and `editor-menu` handlers against a recording menu for representative
+ * targets. Clicking a placeholder loads the plugin, replays its handlers for
+ * the real target and runs the matching item's action. Placeholders are shown
+ * only for plugins that opt in via `lazyOptions.useMenus`.
+ */
+export class MenuPlaceholders {
+    /** Plugin id → menu event references the plugin registered. */
+    private handlers = new Map<string, EventRefLike[]>();
+    /** Plugin id → cached items to show while the plugin is unloaded. */
+    private placeholders = new Map<string, CachedMenuItem[]>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+    }
+
+    /** Install On-Demand's own menu handlers that add the placeholders. */
+    registerEvents(): void {
+        const { workspace } = this.ctx.app;
+        this.ctx.registerEvent(workspace.on("file-menu", (menu, ...args) => this.addPlaceholders("file-menu", menu, args)));
+        this.ctx.registerEvent(workspace.on("files-menu", (menu, ...args) => this.addPlaceholders("files-menu", menu, args)));
+        this.ctx.registerEvent(workspace.on("editor-menu", (menu, ...args) => this.addPlaceholders("editor-menu", menu, args)));
+    }
+
+    recordHandler(pluginId: string, eventRef: EventRef): void {
+        const ref = eventRef as unknown as EventRefLike;
+        if (!ref.name || !MENU_EVENTS.includes(ref.name as MenuEventName)) return;
+
+        // References from earlier loads are dead once the plugin unloads.
+        const live = this.getLiveHandlers(pluginId);
+        live.push(ref);
+        this.handlers.set(pluginId, live);
+    }
+
+    /** Replay the plugin's menu handlers for representative targets and return the items they add. */
+    snapshot(pluginId: string): CachedMenuItem[] {
+        if (!this.getLiveHandlers(pluginId).length) return [];
+
+        const items: CachedMenuItem[] = [];
+        for (const menu of MENU_EVENTS) {
+            const args = this.getRepresentativeArgs(menu);
+            if (!args) continue;
+
+            for (const recorded of this.replay(pluginId, menu, args)) {
+                if (!recorded.title) continue;
+                if (items.some((item) => item.menu === menu && item.title === recorded.title)) continue;
+                items.push({ menu, title: recorded.title, icon: recorded.icon, section: recorded.section });
+            }
+        }
+        return items;
+    }
+
+    register(pluginId: string, items: CachedMenuItem[]): void {
+        if (items.length) {
+            this.placeholders.set(pluginId, items);
+        }
+    }
+
+    remove(pluginId: string): void {
+        this.placeholders.delete(pluginId);
+    }
+
+    clear(): void {
+        this.placeholders.clear();
+        this.handlers.clear();
+    }
+
+    private addPlaceholders(menuName: MenuEventName, menu: Menu, args: unknown[]): void {
+        for (const [pluginId, items] of this.placeholders) {
+            if (!this.ctx.getSettings().plugins[pluginId]?.lazyOptions?.useMenus) continue;
+            if (isPluginLoaded(this.ctx.app, pluginId)) continue;
+
+            for (const cached of items) {
+                if (cached.menu !== menuName) continue;
+                menu.addItem((item) => {
+                    item.setTitle(cached.title).onClick((evt) => {
+                        void this.runRealItem(pluginId, cached, args, evt);
+                    });
+                    if (cached.icon) item.setIcon(cached.icon);
+                    if (cached.section) item.setSection(cached.section);
+                });
+            }
+        }
+    }
+
+    private async runRealItem(pluginId: string, cached: CachedMenuItem, args: unknown[], evt: MouseEvent | KeyboardEvent): Promise<void> {
+        const loaded = await this.pluginLoader.ensurePluginLoaded(pluginId);
+        if (!loaded) return;
+
+        const real = this.replay(pluginId, cached.menu, args).find((item) => item.title === cached.title);
+        if (!real?.onClick) {
+            logger.warn(`Menu item "${cached.title}" was not added by ${pluginId} after loading`);
+            return;
+        }
+
+        try {
+            await real.onClick(evt);
+        } catch (error) {
+            logger.error(`Error running menu item "${cached.title}" of ${pluginId}:`, error);
+        }
+    }
+
+    private replay(pluginId: string, menuName: MenuEventName, args: unknown[]): RecordedMenuItem[] {
+        const items: RecordedMenuItem[] = [];
+        const menu = createRecordingMenu(items);
+        for (const ref of this.getLiveHandlers(pluginId)) {
+            if (ref.name !== menuName) continue;
+            try {
+                ref.fn?.call(ref.ctx, menu, ...args);
+            } catch (error) {
+                logger.debug(`${menuName} handler of ${pluginId} failed during replay`, error);
+            }
+        }
+        return items;
+    }
+
+    private getRepresentativeArgs(menu: MenuEventName): unknown[] | null {
+        const { workspace, vault } = this.ctx.app;
+        if (menu === "editor-menu") {
+            const view = workspace.getActiveViewOfType(MarkdownView);
+            return view ? [view.editor, view] : null;
+        }
+
+        const file: TFile | undefined = workspace.getActiveFile() ?? vault.getMarkdownFiles()[0];
+        if (!file) return null;
+        return menu === "file-menu" ? [file, "file-explorer-context-menu", undefined] : [[file], "file-explorer-context-menu", undefined];
+    }
+
+    private getLiveHandlers(pluginId: string): EventRefLike[] {
+        return (this.handlers.get(pluginId) ?? []).filter((ref) => (ref.name ? ref.e?._?.[ref.name]?.includes(ref) : false));
+    }
+}
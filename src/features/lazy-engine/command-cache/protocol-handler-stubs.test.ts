@@ -0,0 +1,73 @@
+import type { ObsidianProtocolData, ObsidianProtocolHandler } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { ProtocolHandlerStubs } from "src/features/lazy-engine/command-cache/protocol-handler-stubs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("ProtocolHandlerStubs", () => {
+    let handlers: Map<string, ObsidianProtocolHandler>;
+    let workspace: {
+        protocolHandlers: Map<string, ObsidianProtocolHandler>;
+        registerObsidianProtocolHandler: ReturnType<typeof vi.fn>;
+        unregisterObsidianProtocolHandler: ReturnType<typeof vi.fn>;
+    };
+    let pluginLoader: { ensurePluginLoaded: ReturnType<typeof vi.fn> };
+    let stubs: ProtocolHandlerStubs;
+
+    beforeEach(() => {
+        handlers = new Map();
+        workspace = {
+            protocolHandlers: handlers,
+            registerObsidianProtocolHandler: vi.fn((action: string, handler: ObsidianProtocolHandler) => handlers.set(action, handler)),
+            unregisterObsidianProtocolHandler: vi.fn((action: string) => handlers.delete(action)),
+        };
+        pluginLoader = { ensurePluginLoaded: vi.fn().mockResolvedValue(true) };
+
+        const ctx = { app: { workspace } } as unknown as PluginContext;
+        stubs = new ProtocolHandlerStubs(ctx, pluginLoader as unknown as PluginLoader);
+    });
+
+    it("registers a stub for each cached action", () => {
+        stubs.register("capture-plugin", ["capture", "share"]);
+
+        expect(handlers.has("capture")).toBe(true);
+        expect(handlers.has("share")).toBe(true);
+        expect(stubs.isStub("capture")).toBe(true);
+    });
+
+    it("does not replace a handler that is already registered", () => {
+        const real = vi.fn();
+        handlers.set("capture", real);
+
+        stubs.register("capture-plugin", ["capture"]);
+
+        expect(handlers.get("capture")).toBe(real);
+        expect(stubs.isStub("capture")).toBe(false);
+    });
+
+    it("loads the plugin and re-dispatches the original parameters to the real handler", async () => {
+        const real = vi.fn();
+        stubs.register("capture-plugin", ["capture"]);
+
+        const params = { action: "capture", text: "hello" } as unknown as ObsidianProtocolData;
+        handlers.get("capture")!(params);
+        // Loading the plugin replaces the stub with its own handler.
+        handlers.set("capture", real);
+
+        await vi.waitFor(() => expect(real).toHaveBeenCalledWith(params));
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("capture-plugin");
+    });
+
+    it("removes only its own stubs", () => {
+        stubs.register("capture-plugin", ["capture"]);
+        stubs.remove(["capture"]);
+
+        expect(handlers.has("capture")).toBe(false);
+
+        const real = vi.fn();
+        handlers.set("capture", real);
+        stubs.remove(["capture"]);
+
+        expect(handlers.get("capture")).toBe(real);
+    });
+});
@@ -0,0 +1,131 @@
+import log from "loglevel";
+import type { ObsidianProtocolData, ObsidianProtocolHandler } from "obsidian";
+import { Notice } from "obsidian";
+import pTimeout from "p-timeout";
+import pWaitFor from "p-wait-for";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+
+const logger = log.getLogger("OnDemandPlugin/ProtocolHandlerStubs");
+
+/**
+ * Workspace internals that hold the action → handler map. Newer Obsidian
+ * builds keep it on `protocolHandler.handlers`, older ones on `protocolHandlers`.
+ */
+interface WorkspaceWithProtocolHandlers {
+    protocolHandler?: { handlers?: Map<string, ObsidianProtocolHandler> };
+    protocolHandlers?: Map<string, ObsidianProtocolHandler>;
+    registerObsidianProtocolHandler(action: string, handler: ObsidianProtocolHandler): void;
+    unregisterObsidianProtocolHandler(action: string, handler: ObsidianProtocolHandler): void;
+}
+
+/**
+ * Registers placeholder obsidian:// handlers for lazy plugins.
+ *
+ * A stub loads the owning plugin on first use and then re-dispatches the
+ * original URI parameters to the handler the plugin registered while loading.
+ * The real registration replaces the stub in Obsidian's map, so later URIs go
+ * straight to the plugin.
+ */
+export class ProtocolHandlerStubs {
+    private stubs = new Map<string, ObsidianProtocolHandler>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+    }
+
+    register(pluginId: string, actions: string[]): void {
+        const workspace = this.getWorkspace();
+        for (const action of actions) {
+            const existing = this.getHandler(action);
+            const stub = this.stubs.get(action);
+
+            if (existing && existing === stub) continue;
+            // The real plugin (or another plugin) already owns this action.
+            if (existing) {
+                this.stubs.delete(action);
+                continue;
+            }
+
+            const handler: ObsidianProtocolHandler = (params) => {
+                void this.dispatch(pluginId, action, handler, params);
+            };
+            workspace.registerObsidianProtocolHandler(action, handler);
+            this.stubs.set(action, handler);
+        }
+    }
+
+    remove(actions: string[]): void {
+        for (const action of actions) {
+            this.removeStub(action);
+        }
+    }
+
+    isStub(action: string): boolean {
+        const stub = this.stubs.get(action);
+        return stub !== undefined && this.getHandler(action) === stub;
+    }
+
+    clear(): void {
+        Array.from(this.stubs.keys()).forEach((action) => this.removeStub(action));
+        this.stubs.clear();
+    }
+
+    private removeStub(action: string): void {
+        const stub = this.stubs.get(action);
+        if (!stub) return;
+        if (this.getHandler(action) === stub) {
+            this.getWorkspace().unregisterObsidianProtocolHandler(action, stub);
+        }
+        this.stubs.delete(action);
+    }
+
+    private async dispatch(pluginId: string, action: string, stub: ObsidianProtocolHandler, params: ObsidianProtocolData): Promise<void> {
+        const loaded = await this.pluginLoader.ensurePluginLoaded(pluginId);
+        if (!loaded) return;
+
+        const handler = await this.waitForRealHandler(action, stub);
+        if (!handler) {
+            new Notice(`Protocol action not available: ${action} (plugin: ${pluginId}).`);
+            return;
+        }
+
+        this.stubs.delete(action);
+        logger.debug(`Re-dispatching obsidian://${action} to ${pluginId}`);
+        try {
+            await handler(params);
+        } catch (error) {
+            logger.error(`Error handling obsidian://${action} for ${pluginId}:`, error);
+        }
+    }
+
+    /** Wait for the plugin to replace the stub; registration may happen after an await in onload. */
+    private async waitForRealHandler(action: string, stub: ObsidianProtocolHandler, timeoutMs = 8000): Promise<ObsidianProtocolHandler | null> {
+        const isReal = () => {
+            const handler = this.getHandler(action);
+            return handler !== undefined && handler !== stub;
+        };
+
+        try {
+            await pTimeout(pWaitFor(isReal, { interval: 100 }), { milliseconds: timeoutMs });
+        } catch {
+            logger.warn(`Timeout waiting for obsidian://${action} handler to be registered`);
+            return null;
+        }
+        return this.getHandler(action) ?? null;
+    }
+
+    private getHandler(action: string): ObsidianProtocolHandler | undefined {
+        const workspace = this.getWorkspace();
+        const handlers = workspace.protocolHandler?.handlers ?? workspace.protocolHandlers;
+        return handlers?.get(action);
+    }
+
+    private getWorkspace() {
+        return this.ctx.app.workspace as unknown as WorkspaceWithProtocolHandlers;
+    }
+}
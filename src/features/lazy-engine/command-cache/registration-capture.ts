@@ -0,0 +1,80 @@
+import type { CachedMenuItem, CachedRegistrations, CachedRibbonIcon, CachedSettingTab } from "src/core/types";
+
+/**
+ * Session-wide record of the non-command registrations each plugin made while
+ * it was loaded. Fed by the Plugin.prototype patches and read back by
+ * CommandCacheService when it snapshots a plugin, so the persisted cache
+ * reflects what the plugin registered during its most recent load.
+ */
+export class RegistrationCapture {
+    private captured = new Map<string, CachedRegistrations>();
+
+    recordProtocolAction(pluginId: string, action: string): void {
+        const entry = this.getOrCreate(pluginId);
+        entry.protocolActions ??= [];
+        if (!entry.protocolActions.includes(action)) {
+            entry.protocolActions.push(action);
+        }
+    }
+
+    recordCodeBlockLanguage(pluginId: string, language: string): void {
+        const entry = this.getOrCreate(pluginId);
+        entry.codeBlockLanguages ??= [];
+        if (!entry.codeBlockLanguages.includes(language)) {
+            entry.codeBlockLanguages.push(language);
+        }
+    }
+
+    recordBackgroundHook(pluginId: string, hook: string): void {
+        const entry = this.getOrCreate(pluginId);
+        entry.backgroundHooks ??= [];
+        if (!entry.backgroundHooks.includes(hook)) {
+            entry.backgroundHooks.push(hook);
+        }
+    }
+
+    recordRibbonIcon(pluginId: string, icon: CachedRibbonIcon): void {
+        const entry = this.getOrCreate(pluginId);
+        // Titles form the ribbon item id, so a re-added icon replaces the old record.
+        entry.ribbonIcons = (entry.ribbonIcons ?? []).filter((existing) => existing.title !== icon.title);
+        entry.ribbonIcons.push(icon);
+    }
+
+    recordSettingTab(pluginId: string, tab: CachedSettingTab): void {
+        const entry = this.getOrCreate(pluginId);
+        entry.settingTabs = (entry.settingTabs ?? []).filter((existing) => existing.id !== tab.id);
+        entry.settingTabs.push(tab);
+    }
+
+    /** Menu items are produced by replaying handlers at snapshot time, so they replace the previous set. */
+    recordMenuItems(pluginId: string, items: CachedMenuItem[]): void {
+        const entry = this.getOrCreate(pluginId);
+        if (items.length) {
+            entry.menuItems = items;
+        } else {
+            delete entry.menuItems;
+        }
+    }
+
+    get(pluginId: string): CachedRegistrations | undefined {
+        return this.captured.get(pluginId);
+    }
+
+    /** Forget what was captured for a plugin, e.g. before it is loaded again for a fresh snapshot. */
+    reset(pluginId: string): void {
+        this.captured.delete(pluginId);
+    }
+
+    clear(): void {
+        this.captured.clear();
+    }
+
+    private getOrCreate(pluginId: string): CachedRegistrations {
+        let entry = this.captured.get(pluginId);
+        if (!entry) {
+            entry = {};
+            this.captured.set(pluginId, entry);
+        }
+        return entry;
+    }
+}
@@ -0,0 +1,68 @@
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { RibbonPlaceholders } from "src/features/lazy-engine/command-cache/ribbon-placeholders";
+import type { Mock } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+interface TestRibbonItem {
+    id: string;
+    callback(evt: MouseEvent): unknown;
+}
+
+describe("RibbonPlaceholders", () => {
+    let items: TestRibbonItem[];
+    let pluginLoader: { ensurePluginLoaded: Mock<(pluginId: string) => Promise<boolean>> };
+    let placeholders: RibbonPlaceholders;
+
+    beforeEach(() => {
+        items = [];
+        pluginLoader = { ensurePluginLoaded: vi.fn<(pluginId: string) => Promise<boolean>>() };
+
+        const ribbon = {
+            items,
+            addRibbonItemButton: vi.fn((id: string, _icon: string, _title: string, callback: (evt: MouseEvent) => unknown) => {
+                items.push({ id, callback });
+            }),
+            removeRibbonAction: vi.fn((id: string) => {
+                const index = items.findIndex((item) => item.id === id);
+                if (index >= 0) items.splice(index, 1);
+            }),
+        };
+        const ctx = {
+            app: { workspace: { leftRibbon: ribbon }, updateRibbonDisplay: vi.fn() },
+        } as unknown as PluginContext;
+
+        placeholders = new RibbonPlaceholders(ctx, pluginLoader as unknown as PluginLoader);
+    });
+
+    it("loads the plugin on click and runs the ribbon action it registers", async () => {
+        const realAction = vi.fn();
+        pluginLoader.ensurePluginLoaded.mockImplementation(() => {
+            // Loading the plugin releases the placeholder and adds the real icon under the same id.
+            placeholders.release("kanban", "Open board");
+            items.push({ id: "kanban:Open board", callback: realAction });
+            return Promise.resolve(true);
+        });
+
+        placeholders.register("kanban", [{ icon: "layout", title: "Open board" }]);
+        expect(items.map((item) => item.id)).toEqual(["kanban:Open board"]);
+
+        const evt = {} as MouseEvent;
+        await items[0].callback(evt);
+        await vi.waitFor(() => expect(realAction).toHaveBeenCalledWith(evt));
+
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("kanban");
+        expect(items).toHaveLength(1);
+    });
+
+    it("does not run anything when the plugin fails to load", async () => {
+        pluginLoader.ensurePluginLoaded.mockResolvedValue(false);
+
+        placeholders.register("kanban", [{ icon: "layout", title: "Open board" }]);
+        const placeholder = items[0];
+        await placeholder.callback({} as MouseEvent);
+
+        await vi.waitFor(() => expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("kanban"));
+        expect(items).toEqual([placeholder]);
+    });
+});
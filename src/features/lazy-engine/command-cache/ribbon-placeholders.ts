@@ -0,0 +1,147 @@
+import log from "loglevel";
+import pTimeout from "p-timeout";
+import pWaitFor from "p-wait-for";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import type { CachedRibbonIcon } from "src/core/types";
+import { getRibbonItemId } from "src/patches/ribbon-reorder";
+
+const logger = log.getLogger("OnDemandPlugin/RibbonPlaceholders");
+
+interface RibbonItemLike {
+    id: string;
+    callback(evt: MouseEvent): unknown;
+}
+
+/**
+ * Ribbon internals used to add, remove and look up items by id.
+ */
+interface RibbonWithItems {
+    items?: RibbonItemLike[];
+    addRibbonItemButton(id: string, icon: string, title: string, callback: (evt: MouseEvent) => unknown): HTMLElement;
+    removeRibbonAction(id: string): void;
+}
+
+/**
+ * Renders the cached ribbon icons of unloaded lazy plugins.
+ *
+ * Placeholders reuse the id Obsidian gives the real icon, so the user's saved
+ * ribbon order and hidden state apply to them unchanged. A click loads the
+ * plugin and forwards the event to the icon the plugin registers.
+ */
+export class RibbonPlaceholders {
+    /** Ribbon item id → the placeholder item we added. */
+    private placeholders = new Map<string, RibbonItemLike>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+    }
+
+    register(pluginId: string, icons: CachedRibbonIcon[]): void {
+        if (!icons.length) return;
+        const ribbon = this.getRibbon();
+        if (!ribbon) return;
+
+        let added = false;
+        for (const { icon, title, position } of icons) {
+            const id = getRibbonItemId(pluginId, title);
+            if (this.placeholders.has(id)) continue;
+            // The plugin's own icon is already in the ribbon.
+            if (ribbon.items?.some((item) => item.id === id)) continue;
+
+            ribbon.addRibbonItemButton(id, icon, title, (evt) => {
+                void this.forwardClick(pluginId, id, evt);
+            });
+
+            const item = ribbon.items?.find((candidate) => candidate.id === id);
+            if (!item) continue;
+            this.placeholders.set(id, item);
+            this.moveToPosition(ribbon, item, position);
+            added = true;
+        }
+
+        if (added) this.updateRibbonDisplay();
+    }
+
+    /** Remove a single placeholder, e.g. right before the plugin adds the real icon. */
+    release(pluginId: string, title: string): void {
+        this.removePlaceholder(getRibbonItemId(pluginId, title));
+    }
+
+    remove(pluginId: string, icons: CachedRibbonIcon[]): void {
+        icons.forEach(({ title }) => this.release(pluginId, title));
+    }
+
+    clear(): void {
+        Array.from(this.placeholders.keys()).forEach((id) => this.removePlaceholder(id));
+        this.placeholders.clear();
+    }
+
+    private removePlaceholder(id: string): void {
+        const placeholder = this.placeholders.get(id);
+        if (!placeholder) return;
+        this.placeholders.delete(id);
+
+        const ribbon = this.getRibbon();
+        // Only remove by id while our placeholder is the item holding it.
+        if (ribbon?.items?.find((item) => item.id === id) === placeholder) {
+            ribbon.removeRibbonAction(id);
+        }
+    }
+
+    private async forwardClick(pluginId: string, id: string, evt: MouseEvent): Promise<void> {
+        const loaded = await this.pluginLoader.ensurePluginLoaded(pluginId);
+        if (!loaded) return;
+
+        const item = await this.waitForRealItem(id);
+        if (!item) {
+            logger.warn(`Ribbon icon ${id} was not registered after loading ${pluginId}`);
+            return;
+        }
+
+        try {
+            await item.callback(evt);
+        } catch (error) {
+            logger.error(`Error forwarding ribbon click to ${id}:`, error);
+        }
+    }
+
+    private async waitForRealItem(id: string, timeoutMs = 8000): Promise<RibbonItemLike | null> {
+        const findReal = () => this.getRibbon()?.items?.find((item) => item.id === id && item !== this.placeholders.get(id));
+
+        try {
+            await pTimeout(
+                pWaitFor(() => findReal() !== undefined, { interval: 100 }),
+                { milliseconds: timeoutMs },
+            );
+        } catch {
+            return null;
+        }
+        return findReal() ?? null;
+    }
+
+    private moveToPosition(ribbon: RibbonWithItems, item: RibbonItemLike, position: number | undefined): void {
+        const items = ribbon.items;
+        if (!items || position === undefined) return;
+        const current = items.indexOf(item);
+        if (current < 0) return;
+        items.splice(current, 1);
+        items.splice(Math.min(position, items.length), 0, item);
+    }
+
+    private updateRibbonDisplay(): void {
+        try {
+            this.ctx.app.updateRibbonDisplay();
+        } catch (error) {
+            logger.warn("updateRibbonDisplay failed:", error);
+        }
+    }
+
+    private getRibbon() {
+        return this.ctx.app.workspace.leftRibbon as unknown as RibbonWithItems | undefined;
+    }
+}
@@ -0,0 +1,74 @@
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { SettingTabPlaceholders } from "src/features/lazy-engine/command-cache/setting-tab-placeholders";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+interface TestTab {
+    id: string;
+    name: string;
+    display?: () => void;
+    containerEl?: unknown;
+}
+
+describe("SettingTabPlaceholders", () => {
+    let setting: {
+        pluginTabs: TestTab[];
+        activeTab: TestTab | null;
+        addSettingTab: ReturnType<typeof vi.fn>;
+        removeSettingTab: ReturnType<typeof vi.fn>;
+        openTab: ReturnType<typeof vi.fn>;
+    };
+    let pluginLoader: { ensurePluginLoaded: ReturnType<typeof vi.fn> };
+    let placeholders: SettingTabPlaceholders;
+
+    beforeEach(() => {
+        setting = {
+            pluginTabs: [],
+            activeTab: null,
+            addSettingTab: vi.fn((tab: TestTab) => setting.pluginTabs.push(tab)),
+            removeSettingTab: vi.fn((tab: TestTab) => {
+                setting.pluginTabs = setting.pluginTabs.filter((candidate) => candidate !== tab);
+            }),
+            openTab: vi.fn((tab: TestTab) => {
+                setting.activeTab = tab;
+            }),
+        };
+        pluginLoader = { ensurePluginLoaded: vi.fn().mockResolvedValue(true) };
+
+        const ctx = { app: { setting } } as unknown as PluginContext;
+        placeholders = new SettingTabPlaceholders(ctx, pluginLoader as unknown as PluginLoader);
+    });
+
+    it("adds a placeholder tab for each cached tab that is not listed yet", () => {
+        setting.pluginTabs.push({ id: "loaded-plugin", name: "Loaded" });
+
+        placeholders.register("lazy-plugin", [{ id: "lazy-plugin", name: "Lazy" }]);
+        placeholders.register("loaded-plugin", [{ id: "loaded-plugin", name: "Loaded" }]);
+
+        expect(setting.addSettingTab).toHaveBeenCalledTimes(1);
+        expect(setting.pluginTabs.map((tab) => tab.id)).toEqual(["loaded-plugin", "lazy-plugin"]);
+    });
+
+    it("removes the placeholder when it is released", () => {
+        placeholders.register("lazy-plugin", [{ id: "lazy-plugin", name: "Lazy" }]);
+        placeholders.release("lazy-plugin");
+
+        expect(setting.pluginTabs).toEqual([]);
+    });
+
+    it("loads the plugin when displayed and switches to the real tab", async () => {
+        placeholders.register("lazy-plugin", [{ id: "lazy-plugin", name: "Lazy" }]);
+        const placeholder = setting.pluginTabs[0];
+        placeholder.containerEl = { empty: vi.fn(), createEl: vi.fn() };
+
+        setting.activeTab = placeholder;
+        placeholder.display?.();
+        // Loading the plugin replaces the placeholder with its own tab.
+        placeholders.release("lazy-plugin");
+        const real = { id: "lazy-plugin", name: "Lazy" };
+        setting.pluginTabs.push(real);
+
+        await vi.waitFor(() => expect(setting.openTab).toHaveBeenCalledWith(real));
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("lazy-plugin");
+    });
+});
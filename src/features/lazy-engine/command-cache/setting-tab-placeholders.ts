@@ -0,0 +1,140 @@
+import log from "loglevel";
+import type { App } from "obsidian";
+import { SettingTab } from "obsidian";
+import pTimeout from "p-timeout";
+import pWaitFor from "p-wait-for";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import type { CachedSettingTab } from "src/core/types";
+
+const logger = log.getLogger("OnDemandPlugin/SettingTabPlaceholders");
+
+interface SettingTabLike {
+    id: string;
+    name: string;
+}
+
+/**
+ * Settings modal internals used to add, remove and switch plugin tabs.
+ */
+interface SettingModal {
+    pluginTabs: SettingTabLike[];
+    activeTab: SettingTabLike | null;
+    addSettingTab(tab: SettingTabLike): void;
+    removeSettingTab(tab: SettingTabLike): void;
+    openTab(tab: SettingTabLike): void;
+}
+
+/**
+ * Stand-in tab that loads its plugin as soon as it is displayed.
+ */
+class PlaceholderSettingTab extends SettingTab {
+    id: string;
+    name: string;
+    private onDisplay: (tab: PlaceholderSettingTab) => void;
+
+    constructor(app: App, cached: CachedSettingTab, onDisplay: (tab: PlaceholderSettingTab) => void) {
+        super();
+        this.app = app;
+        this.id = cached.id;
+        this.name = cached.name;
+        this.onDisplay = onDisplay;
+    }
+
+    display(): void {
+        this.showMessage(`Loading ${this.name}…`);
+        this.onDisplay(this);
+    }
+
+    showMessage(text: string): void {
+        this.containerEl.empty();
+        this.containerEl.createEl("p", { text, cls: "setting-item-description" });
+    }
+}
+
+/**
+ * Lists the cached settings tabs of unloaded lazy plugins in the settings modal.
+ *
+ * Selecting a placeholder loads the plugin and then switches to the tab the
+ * plugin adds itself, which replaces the placeholder under the same id.
+ */
+export class SettingTabPlaceholders {
+    /** Tab id → the placeholder tab we added. */
+    private placeholders = new Map<string, PlaceholderSettingTab>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+    }
+
+    register(pluginId: string, tabs: CachedSettingTab[]): void {
+        if (!tabs.length) return;
+        const setting = this.getSettingModal();
+        if (!setting) return;
+
+        for (const cached of tabs) {
+            if (this.placeholders.has(cached.id)) continue;
+            // The plugin's own tab is already listed.
+            if (setting.pluginTabs.some((tab) => tab.id === cached.id)) continue;
+
+            const placeholder = new PlaceholderSettingTab(this.ctx.app, cached, (tab) => {
+                void this.loadAndOpen(pluginId, tab);
+            });
+            setting.addSettingTab(placeholder);
+            this.placeholders.set(cached.id, placeholder);
+        }
+    }
+
+    /** Remove a single placeholder, e.g. right before the plugin adds the real tab. */
+    release(tabId: string): void {
+        const placeholder = this.placeholders.get(tabId);
+        if (!placeholder) return;
+        this.placeholders.delete(tabId);
+        this.getSettingModal()?.removeSettingTab(placeholder);
+    }
+
+    remove(tabs: CachedSettingTab[]): void {
+        tabs.forEach(({ id }) => this.release(id));
+    }
+
+    clear(): void {
+        Array.from(this.placeholders.keys()).forEach((id) => this.release(id));
+    }
+
+    private async loadAndOpen(pluginId: string, placeholder: PlaceholderSettingTab): Promise<void> {
+        const loaded = await this.pluginLoader.ensurePluginLoaded(pluginId);
+        const real = loaded ? await this.waitForRealTab(placeholder) : null;
+        if (!real) {
+            placeholder.showMessage(`Settings for ${placeholder.name} are not available. The plugin failed to load.`);
+            logger.warn(`Settings tab ${placeholder.id} was not registered after loading ${pluginId}`);
+            return;
+        }
+
+        const setting = this.getSettingModal();
+        // Only switch when the user is still looking at the placeholder.
+        if (setting && (setting.activeTab === placeholder || setting.activeTab?.id === placeholder.id)) {
+            setting.openTab(real);
+        }
+    }
+
+    private async waitForRealTab(placeholder: PlaceholderSettingTab, timeoutMs = 8000): Promise<SettingTabLike | null> {
+        const findReal = () => this.getSettingModal()?.pluginTabs.find((tab) => tab.id === placeholder.id && tab !== placeholder);
+
+        try {
+            await pTimeout(
+                pWaitFor(() => findReal() !== undefined, { interval: 100 }),
+                { milliseconds: timeoutMs },
+            );
+        } catch {
+            return null;
+        }
+        return findReal() ?? null;
+    }
+
+    private getSettingModal() {
+        return (this.ctx.app as unknown as { setting?: SettingModal } | undefined)?.setting;
+    }
+}
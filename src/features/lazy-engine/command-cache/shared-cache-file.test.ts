@@ -0,0 +1,77 @@
+import type { CommandCacheSnapshot, SharedCommandCacheFile } from "src/core/types";
+import { mergeSharedCache } from "src/features/lazy-engine/command-cache/shared-cache-file";
+import { describe, expect, it } from "vitest";
+
+const emptySnapshot = (): CommandCacheSnapshot => ({ commands: {}, versions: {}, registrations: {} });
+
+describe("mergeSharedCache", () => {
+    const shared: SharedCommandCacheFile = {
+        platforms: {
+            desktop: {
+                commands: { "plugin-a": [{ id: "plugin-a:desktop", name: "Desktop" }] },
+                versions: { "plugin-a": "1.0.0" },
+                registrations: { "plugin-a": { protocolActions: ["plugin-a"] } },
+            },
+            mobile: {
+                commands: {
+                    "plugin-a": [{ id: "plugin-a:mobile", name: "Mobile" }],
+                    "plugin-b": [
+                        { id: "plugin-b:shared", name: "Shared" },
+                        { id: "plugin-b:touch", name: "Touch", mobileOnly: true },
+                    ],
+                },
+                versions: { "plugin-a": "1.0.0", "plugin-b": "2.0.0" },
+                registrations: {},
+            },
+        },
+    };
+
+    it("keeps local entries that match the installed version", () => {
+        const local: CommandCacheSnapshot = {
+            commands: { "plugin-a": [{ id: "plugin-a:local", name: "Local" }] },
+            versions: { "plugin-a": "1.0.0" },
+            registrations: {},
+        };
+
+        const { snapshot, adopted } = mergeSharedCache(local, shared, "desktop", { "plugin-a": "1.0.0" });
+
+        expect(adopted).toEqual([]);
+        expect(snapshot.commands["plugin-a"]).toEqual([{ id: "plugin-a:local", name: "Local" }]);
+    });
+
+    it("prefers the same platform's entry for missing or outdated plugins", () => {
+        const local: CommandCacheSnapshot = {
+            commands: { "plugin-a": [{ id: "plugin-a:old", name: "Old" }] },
+            versions: { "plugin-a": "0.9.0" },
+            registrations: {},
+        };
+
+        const { snapshot, adopted } = mergeSharedCache(local, shared, "desktop", { "plugin-a": "1.0.0" });
+
+        expect(adopted).toEqual(["plugin-a"]);
+        expect(snapshot.commands["plugin-a"]).toEqual([{ id: "plugin-a:desktop", name: "Desktop" }]);
+        expect(snapshot.versions["plugin-a"]).toBe("1.0.0");
+        expect(snapshot.registrations["plugin-a"]).toEqual({ protocolActions: ["plugin-a"] });
+    });
+
+    it("falls back to the other platform and drops mobile-only commands on desktop", () => {
+        const { snapshot, adopted } = mergeSharedCache(emptySnapshot(), shared, "desktop", { "plugin-b": "2.0.0" });
+
+        expect(adopted).toEqual(["plugin-b"]);
+        expect(snapshot.commands["plugin-b"]).toEqual([{ id: "plugin-b:shared", name: "Shared" }]);
+    });
+
+    it("keeps mobile-only commands when the fallback runs on mobile", () => {
+        const file: SharedCommandCacheFile = { platforms: { desktop: shared.platforms.mobile } };
+
+        const { snapshot } = mergeSharedCache(emptySnapshot(), file, "mobile", { "plugin-b": "2.0.0" });
+
+        expect(snapshot.commands["plugin-b"]).toHaveLength(2);
+    });
+
+    it("ignores entries built for another version", () => {
+        const { adopted } = mergeSharedCache(emptySnapshot(), shared, "mobile", { "plugin-a": "1.1.0", "plugin-c": "1.0.0" });
+
+        expect(adopted).toEqual([]);
+    });
+});
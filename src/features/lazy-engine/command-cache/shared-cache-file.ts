@@ -0,0 +1,129 @@
+import log from "loglevel";
+import { normalizePath, Platform } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+import type { CachePlatform, CommandCacheSnapshot, CommandCacheVersions, SharedCommandCacheFile } from "src/core/types";
+
+const logger = log.getLogger("OnDemandPlugin/SharedCacheFile");
+
+const FILE_NAME = "command-cache.json";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function getCurrentPlatform(): CachePlatform {
+    return Platform.isMobile ? "mobile" : "desktop";
+}
+
+function otherPlatform(platform: CachePlatform): CachePlatform {
+    return platform === "mobile" ? "desktop" : "mobile";
+}
+
+/**
+ * Fill in the local cache from the shared file for plugins whose local entry
+ * is missing or was built for a different version than the one installed.
+ *
+ * The snapshot written by the same platform is preferred. The other platform's
+ * snapshot is used as a fallback when it matches the installed version; on
+ * desktop, commands the plugin only registers on mobile are left out.
+ *
+ * @returns the merged snapshot and the ids of the plugins taken from the file.
+ */
+export function mergeSharedCache(local: CommandCacheSnapshot, shared: SharedCommandCacheFile, platform: CachePlatform, installedVersions: CommandCacheVersions): { snapshot: CommandCacheSnapshot; adopted: string[] } {
+    const snapshot: CommandCacheSnapshot = {
+        commands: { ...local.commands },
+        versions: { ...local.versions },
+        registrations: { ...local.registrations },
+    };
+    const adopted: string[] = [];
+
+    for (const [pluginId, version] of Object.entries(installedVersions)) {
+        if (local.commands[pluginId]?.length && local.versions[pluginId] === version) continue;
+
+        const source = [platform, otherPlatform(platform)].find((candidate) => {
+            const entry = shared.platforms[candidate];
+            return entry?.versions[pluginId] === version && Array.isArray(entry.commands[pluginId]);
+        });
+        if (!source) continue;
+
+        const entry = shared.platforms[source]!;
+        const commands = source !== platform && platform === "desktop" ? entry.commands[pluginId].filter((command) => !command.mobileOnly) : entry.commands[pluginId];
+        if (!commands.length) continue;
+
+        snapshot.commands[pluginId] = commands;
+        snapshot.versions[pluginId] = version;
+        const registrations = entry.registrations[pluginId];
+        if (registrations) {
+            snapshot.registrations[pluginId] = registrations;
+        } else {
+            delete snapshot.registrations[pluginId];
+        }
+        adopted.push(pluginId);
+    }
+
+    return { snapshot, adopted };
+}
+
+/**
+ * The command cache file in the plugin directory.
+ *
+ * Unlike local storage, the file travels with the vault, so a device can start
+ * with the cache another device already built. Each platform writes only its
+ * own section of the file.
+ */
+export class SharedCacheFile {
+    /** Serializes read-modify-write cycles so concurrent persists do not drop sections. */
+    private writing: Promise<void> = Promise.resolve();
+
+    private ctx: PluginContext;
+
+    constructor(ctx: PluginContext) {
+        this.ctx = ctx;
+    }
+
+    get path(): string {
+        return normalizePath(`${this.ctx._plugin.manifest.dir}/${FILE_NAME}`);
+    }
+
+    async read(): Promise<SharedCommandCacheFile | null> {
+        const { adapter } = this.ctx.app.vault;
+        try {
+            if (!(await adapter.exists(this.path))) return null;
+            const parsed: unknown = JSON.parse(await adapter.read(this.path));
+            if (!isRecord(parsed) || !isRecord(parsed.platforms)) {
+                logger.warn(`Ignoring malformed ${this.path}`);
+                return null;
+            }
+
+            const platforms: SharedCommandCacheFile["platforms"] = {};
+            for (const platform of ["desktop", "mobile"] as const) {
+                const entry = parsed.platforms[platform];
+                if (isRecord(entry) && isRecord(entry.commands) && isRecord(entry.versions)) {
+                    platforms[platform] = {
+                        commands: entry.commands as CommandCacheSnapshot["commands"],
+                        versions: entry.versions as CommandCacheVersions,
+                        registrations: isRecord(entry.registrations) ? (entry.registrations as CommandCacheSnapshot["registrations"]) : {},
+                    };
+                }
+            }
+            return { platforms };
+        } catch (error) {
+            logger.warn(`Failed to read ${this.path}:`, error);
+            return null;
+        }
+    }
+
+    /** Replace this platform's section of the file, keeping the others. */
+    write(platform: CachePlatform, snapshot: CommandCacheSnapshot): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            try {
+                const file = (await this.read()) ?? { platforms: {} };
+                file.platforms[platform] = snapshot;
+                await this.ctx.app.vault.adapter.write(this.path, JSON.stringify(file, null, 2));
+            } catch (error) {
+                logger.warn(`Failed to write ${this.path}:`, error);
+            }
+        });
+        return this.writing;
+    }
+}
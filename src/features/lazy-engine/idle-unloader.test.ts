@@ -0,0 +1,109 @@
+import type { PluginContext } from "src/core/plugin-context";
+import type { DeviceSettings } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
+import type { CommandCacheService } from "src/features/lazy-engine/command-cache/command-cache-service";
+import { IdleUnloader } from "src/features/lazy-engine/idle-unloader";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("IdleUnloader", () => {
+    let settings: DeviceSettings;
+    let loaded: Record<string, { _loaded: boolean }>;
+    let leavesByType: Record<string, unknown[]>;
+    let disablePlugin: ReturnType<typeof vi.fn>;
+    let registerCachedCommandsForPlugin: ReturnType<typeof vi.fn>;
+    let unloader: IdleUnloader;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+
+        settings = {
+            plugins: {
+                kanban: { mode: PLUGIN_MODE.LAZY, unloadAfterIdleMinutes: 10, lazyOptions: { useView: true, viewTypes: ["kanban"], useFile: false, fileCriteria: {} } },
+                keep: { mode: PLUGIN_MODE.LAZY },
+                eager: { mode: PLUGIN_MODE.ALWAYS_ENABLED, unloadAfterIdleMinutes: 10 },
+            },
+            lazyOnViews: {},
+        } as unknown as DeviceSettings;
+        loaded = { kanban: { _loaded: true }, keep: { _loaded: true }, eager: { _loaded: true } };
+        leavesByType = {};
+        disablePlugin = vi.fn((id: string) => {
+            delete loaded[id];
+            return Promise.resolve();
+        });
+        registerCachedCommandsForPlugin = vi.fn();
+
+        const ctx = {
+            app: {
+                plugins: { plugins: loaded, enabledPlugins: new Set(Object.keys(loaded)) },
+                workspace: { getLeavesOfType: (type: string) => leavesByType[type] ?? [] },
+            },
+            obsidianPlugins: { disablePlugin },
+            getSettings: () => settings,
+            getPluginMode: (id: string) => settings.plugins[id]?.mode,
+            getManifests: () => [{ id: "kanban" }, { id: "keep" }, { id: "eager" }],
+        } as unknown as PluginContext;
+
+        unloader = new IdleUnloader(ctx, { registerCachedCommandsForPlugin } as unknown as CommandCacheService);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("unloads a plugin once its idle timeout has passed since it was first seen", async () => {
+        await unloader.unloadIdlePlugins();
+        expect(disablePlugin).not.toHaveBeenCalled();
+
+        vi.setSystemTime(10 * 60_000);
+        await unloader.unloadIdlePlugins();
+
+        expect(disablePlugin).toHaveBeenCalledExactlyOnceWith("kanban");
+        expect(registerCachedCommandsForPlugin).toHaveBeenCalledWith("kanban");
+    });
+
+    it("restarts the clock when one of the plugin's commands runs", async () => {
+        await unloader.unloadIdlePlugins();
+        vi.setSystemTime(9 * 60_000);
+        unloader.markActive("kanban");
+
+        vi.setSystemTime(15 * 60_000);
+        await unloader.unloadIdlePlugins();
+
+        expect(disablePlugin).not.toHaveBeenCalled();
+    });
+
+    it("keeps plugins loaded while one of their views is open", async () => {
+        await unloader.unloadIdlePlugins();
+        leavesByType.kanban = [{ view: {} }];
+
+        vi.setSystemTime(60 * 60_000);
+        await unloader.unloadIdlePlugins();
+
+        expect(disablePlugin).not.toHaveBeenCalled();
+    });
+
+    it("keeps plugins loaded while a loaded plugin depends on them, also indirectly", async () => {
+        settings.plugins.keep.dependsOn = ["eager"];
+        settings.plugins.eager.dependsOn = ["kanban"];
+
+        await unloader.unloadIdlePlugins();
+        vi.setSystemTime(10 * 60_000);
+        await unloader.unloadIdlePlugins();
+
+        expect(disablePlugin).not.toHaveBeenCalled();
+        expect(await unloader.returnToLazy("kanban")).toBe(false);
+
+        delete loaded.keep;
+        delete loaded.eager;
+        expect(await unloader.returnToLazy("kanban")).toBe(true);
+    });
+
+    it("returns only loaded lazy-on-demand plugins to lazy", async () => {
+        expect(unloader.getReturnablePluginIds()).toEqual(["kanban", "keep"]);
+
+        expect(await unloader.returnToLazy("eager")).toBe(false);
+        expect(await unloader.returnToLazy("keep")).toBe(true);
+        expect(disablePlugin).toHaveBeenCalledExactlyOnceWith("keep");
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * idle-unloader.ts — Returning loaded lazy plugins to their unloaded state.
+ *
+ * A lazy plugin stays loaded once a command or view brought it up. Plugins
+ * with an `unloadAfterIdleMinutes` setting are disabled again after that long
+ * without one of their commands running and without an open leaf of their view
+ * types; the cached command wrappers and placeholders take over again.
+ * A plugin stays loaded while another loaded plugin depends on it, directly
+ * or through its own `dependsOn`.
+ */
+import log from "loglevel";
+import { IDLE_UNLOAD_CHECK_INTERVAL_MS } from "src/core/constants";
+import type { PluginContext } from "src/core/plugin-context";
+import { PLUGIN_MODE } from "src/core/types";
+import { isPluginLoaded } from "src/core/utils";
+import type { CommandCacheService } from "src/features/lazy-engine/command-cache/command-cache-service";
+import { getLazyViewTypes } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
+import { resolveDependencyOrder } from "src/features/lazy-engine/lazy-runner/dependency-graph";
+import { PlaceholderView } from "src/features/lazy-engine/lazy-loader/loaders/view-placeholders";
+import { patchCommandExecution } from "src/patches/command-execution";
+
+const logger = log.getLogger("OnDemandPlugin/IdleUnloader");
+
+export class IdleUnloader {
+    /** Plugin id → last time one of its commands ran, or it was first seen loaded. */
+    private lastActivity = new Map<string, number>();
+
+    private ctx: PluginContext;
+    private commandCache: CommandCacheService;
+
+    constructor(ctx: PluginContext, commandCache: CommandCacheService) {
+        this.ctx = ctx;
+        this.commandCache = commandCache;
+    }
+
+    register(): void {
+        this.ctx.register(
+            patchCommandExecution(this.ctx, (commandId) => {
+                const pluginId = this.ctx.getCommandPluginId(commandId);
+                if (pluginId) this.markActive(pluginId);
+            }),
+        );
+        this.ctx._plugin.registerInterval(
+            window.setInterval(() => {
+                void this.unloadIdlePlugins();
+            }, IDLE_UNLOAD_CHECK_INTERVAL_MS),
+        );
+    }
+
+    markActive(pluginId: string): void {
+        this.lastActivity.set(pluginId, Date.now());
+    }
+
+    /** Loaded plugins in lazy-on-demand mode, i.e. the ones that can be returned to lazy. */
+    getReturnablePluginIds(): string[] {
+        return this.ctx
+            .getManifests()
+            .map((manifest) => manifest.id)
+            .filter((pluginId) => this.ctx.getPluginMode(pluginId) === PLUGIN_MODE.LAZY && isPluginLoaded(this.ctx.app, pluginId));
+    }
+
+    async unloadIdlePlugins(): Promise<void> {
+        const now = Date.now();
+        for (const pluginId of this.getReturnablePluginIds()) {
+            const minutes = this.ctx.getSettings().plugins[pluginId]?.unloadAfterIdleMinutes;
+            if (!minutes || minutes <= 0) continue;
+
+            // Start the clock for plugins loaded without running a command (views, files, …).
+            const lastActivity = this.lastActivity.get(pluginId);
+            if (lastActivity === undefined || this.hasOpenViews(pluginId)) {
+                this.markActive(pluginId);
+                continue;
+            }
+            if (now - lastActivity < minutes * 60_000) continue;
+            if (this.getLoadedDependents(pluginId).length) continue;
+
+            logger.info(`Unloading ${pluginId} after ${minutes} idle minutes`);
+            await this.returnToLazy(pluginId);
+        }
+    }
+
+    /**
+     * Disable a loaded lazy plugin and put its command wrappers and placeholders back.
+     *
+     * @returns false when the plugin is not a loaded lazy-on-demand plugin, or
+     * a loaded plugin still depends on it.
+     */
+    async returnToLazy(pluginId: string): Promise<boolean> {
+        if (this.ctx.getPluginMode(pluginId) !== PLUGIN_MODE.LAZY || !isPluginLoaded(this.ctx.app, pluginId)) {
+            return false;
+        }
+        const dependents = this.getLoadedDependents(pluginId);
+        if (dependents.length) {
+            logger.info(`Keeping ${pluginId} loaded for ${dependents.join(", ")}`);
+            return false;
+        }
+
+        try {
+            await this.ctx.obsidianPlugins.disablePlugin(pluginId);
+        } catch (error) {
+            logger.error(`Failed to unload ${pluginId}:`, error);
+            return false;
+        }
+        this.lastActivity.delete(pluginId);
+        this.commandCache.registerCachedCommandsForPlugin(pluginId);
+        return true;
+    }
+
+    clear(): void {
+        this.lastActivity.clear();
+    }
+
+    /** Loaded plugins that have `pluginId` in their transitive `dependsOn`. */
+    private getLoadedDependents(pluginId: string): string[] {
+        const plugins = this.ctx.getSettings().plugins;
+        return this.ctx
+            .getManifests()
+            .map((manifest) => manifest.id)
+            .filter((id) => id !== pluginId && isPluginLoaded(this.ctx.app, id))
+            .filter((id) => resolveDependencyOrder(id, (dependencyId) => plugins[dependencyId]?.dependsOn ?? []).order.includes(pluginId));
+    }
+
+    private hasOpenViews(pluginId: string): boolean {
+        const { workspace } = this.ctx.app;
+        for (const [viewType, owner] of getLazyViewTypes(this.ctx)) {
+            if (owner !== pluginId) continue;
+            if (workspace.getLeavesOfType(viewType).some((leaf) => !(leaf.view instanceof PlaceholderView))) return true;
+        }
+        return false;
+    }
+}
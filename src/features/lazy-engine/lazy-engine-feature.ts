@@ -1,31 +1,60 @@
 import type { WorkspaceLeaf } from "obsidian";
+import { Notice } from "obsidian";
 import PQueue from "p-queue";
+import { IDLE_LOAD_TIMEOUT_MS } from "src/core/constants";
 import type { EventBus } from "src/core/event-bus";
 import type { AppFeature } from "src/core/feature";
 import type { FeatureManager } from "src/core/feature-manager";
 import type { PluginContext } from "src/core/plugin-context";
+import type { LoadTrigger } from "src/core/types";
 import { PLUGIN_MODE } from "src/core/types";
+import { runWhenIdle } from "src/core/utils";
+import { BundleAnalyzer } from "src/features/lazy-engine/bundle-analyzer";
 import { CommandCacheService } from "src/features/lazy-engine/command-cache/command-cache-service";
+import { IdleUnloader } from "src/features/lazy-engine/idle-unloader";
+import { CodeBlockLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/code-block-lazy-loader";
 import { FileLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/file-lazy-loader";
 import { LeafLockManager, LeafViewLockStrategy } from "src/features/lazy-engine/lazy-loader/loaders/internal/leaf-lock";
 import { ViewLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/view-lazy-loader";
+import { ViewPlaceholders } from "src/features/lazy-engine/lazy-loader/loaders/view-placeholders";
 import { LazyCommandRunner } from "src/features/lazy-engine/lazy-runner/lazy-command-runner";
+import { planLoadOrder } from "src/features/lazy-engine/load-order";
+import { LoadProfiler } from "src/features/lazy-engine/load-profiler";
+import { UsageTracker } from "src/features/lazy-engine/usage-tracker";
+import { patchPluginCodeBlockProcessor } from "src/patches/code-block-processor";
+import { patchPluginRegisterExtensions } from "src/patches/extension-registry";
+import { patchLeafOpenFile } from "src/patches/leaf-open-file";
+import { patchPluginBackgroundHooks } from "src/patches/plugin-background-hooks";
+import { patchPluginCommands } from "src/patches/plugin-commands";
+import { patchPluginLookup } from "src/patches/plugin-lookup";
+import { patchPluginRegisterEvent } from "src/patches/plugin-register-event";
+import { patchPluginProtocolHandler } from "src/patches/protocol-handler";
 import { patchRibbonReorder } from "src/patches/ribbon-reorder";
-import { patchPluginRegisterView } from "src/patches/view-registry";
+import { patchPluginAddSettingTab } from "src/patches/setting-tab";
+import { patchPluginRegisterView, patchViewRegistration } from "src/patches/view-registry";
 import { patchSetViewState } from "src/patches/view-state";
 import type { CoreContainer } from "src/services/core-container";
+import { ReturnToLazyModal } from "src/ui/modals/return-to-lazy-modal";
 
 export class LazyEngineFeature implements AppFeature {
     public commandCache!: CommandCacheService;
     public lazyRunner!: LazyCommandRunner;
+    public loadProfiler!: LoadProfiler;
+    public bundleAnalyzer!: BundleAnalyzer;
+    public usageTracker!: UsageTracker;
 
     private viewLoader!: ViewLazyLoader;
     private fileLoader!: FileLazyLoader;
+    private codeBlockLoader!: CodeBlockLazyLoader;
+    private viewPlaceholders!: ViewPlaceholders;
+    private idleUnloader!: IdleUnloader;
     private layoutReadyQueue!: PQueue;
+    private idleLoadCancellers = new Set<() => void>();
+    private uninstallPluginLookup: (() => void) | null = null;
     private ctx!: PluginContext;
     private events!: EventBus;
 
-    onload(ctx: PluginContext, core: CoreContainer, features: FeatureManager, events: EventBus) {
+    async onload(ctx: PluginContext, core: CoreContainer, features: FeatureManager, events: EventBus) {
         this.ctx = ctx;
         this.events = events;
 
@@ -33,44 +62,152 @@ export class LazyEngineFeature implements AppFeature {
         this.lazyRunner = new LazyCommandRunner(ctx);
         this.commandCache = new CommandCacheService(ctx, this.lazyRunner);
 
+        this.loadProfiler = new LoadProfiler(ctx);
+        this.loadProfiler.loadFromData();
+        this.bundleAnalyzer = new BundleAnalyzer(ctx);
+        this.usageTracker = new UsageTracker(ctx);
+        this.usageTracker.loadFromData();
+
         // Wire up setter injection
         this.lazyRunner.setCommandRegistry(this.commandCache);
+        this.lazyRunner.setLoadProfiler(this.loadProfiler);
+        this.lazyRunner.setUsageTracker(this.usageTracker);
 
         // 2. Loaders setup
         const lockManager = new LeafLockManager();
         this.viewLoader = new ViewLazyLoader(ctx, this.lazyRunner, this.commandCache, new LeafViewLockStrategy(lockManager));
 
         this.fileLoader = new FileLazyLoader(ctx, this.lazyRunner, { lock: (leaf: WorkspaceLeaf) => lockManager.lock(leaf, "leaf-generic") });
+        this.viewLoader.setUsageTracker(this.usageTracker);
+        this.fileLoader.setUsageTracker(this.usageTracker);
+
+        this.codeBlockLoader = new CodeBlockLazyLoader(ctx, this.lazyRunner, this.commandCache);
+
+        this.viewPlaceholders = new ViewPlaceholders(ctx, this.lazyRunner);
+        this.idleUnloader = new IdleUnloader(ctx, this.commandCache);
 
         // 3. Patches and Subscriptions
         patchSetViewState({
             register: (unload) => this.ctx.register(unload),
             onViewType: (viewType: string) => this.viewLoader.checkViewTypeForLazyLoading(viewType),
         });
-        patchRibbonReorder(ctx);
+        patchLeafOpenFile({
+            register: (unload) => this.ctx.register(unload),
+            shouldLoadBeforeOpen: (file) => this.fileLoader.hasPluginForExtension(file),
+            beforeOpenFile: (file) => this.fileLoader.loadPluginForExtension(file),
+        });
+        patchRibbonReorder(ctx, {
+            beforeAdd: (pluginId, title) => this.commandCache.releaseRibbonPlaceholder(pluginId, title),
+            onAdded: (pluginId, icon) => this.commandCache.capture.recordRibbonIcon(pluginId, icon),
+        });
         // Session-wide: attribute registerView calls to their plugin even when
         // they happen after an await in onload (loadingPluginId is gone by then).
         ctx.register(patchPluginRegisterView(ctx));
+        // Same for registerExtensions, which feeds lazyOptions.extensions.
+        ctx.register(patchPluginRegisterExtensions(ctx));
+        // Session-wide as well: obsidian:// actions are snapshotted with the command
+        // cache so stub handlers can load the plugin when a URI arrives.
+        ctx.register(patchPluginProtocolHandler((pluginId, action) => this.commandCache.capture.recordProtocolAction(pluginId, action)));
+        ctx.register(
+            patchPluginAddSettingTab((pluginId, tab) => {
+                this.commandCache.releaseSettingTabPlaceholder(tab.id);
+                this.commandCache.capture.recordSettingTab(pluginId, tab);
+            }),
+        );
+        ctx.register(
+            patchPluginRegisterEvent((pluginId, eventRef) => {
+                this.commandCache.recordMenuHandler(pluginId, eventRef);
+                this.commandCache.recordBackgroundEvent(pluginId, eventRef);
+            }),
+        );
+        // Commands added or removed after onload keep the cached snapshot current.
+        ctx.register(
+            patchPluginCommands({
+                onAdd: (pluginId, command) => this.commandCache.recordAddedCommand(pluginId, command),
+                onRemove: (pluginId, commandId) => this.commandCache.recordRemovedCommand(pluginId, commandId),
+            }),
+        );
+        ctx.register(patchPluginBackgroundHooks((pluginId, hook) => this.commandCache.capture.recordBackgroundHook(pluginId, hook)));
+        ctx.register(patchPluginCodeBlockProcessor((pluginId, language) => this.commandCache.capture.recordCodeBlockLanguage(pluginId, language)));
+        ctx.register(
+            patchViewRegistration(ctx, {
+                beforeRegister: (type, creator) => this.viewPlaceholders.beforeRegister(type, creator),
+                onRegistered: (type) => this.viewPlaceholders.onRegistered(type),
+                onUnregistered: (type) => this.viewPlaceholders.onUnregistered(type),
+            }),
+        );
+        // Opt-in: load lazy plugins that other plugins look up for their API.
+        this.syncPluginLookupPatch();
 
         this.viewLoader.registerActiveLeafReload();
         this.fileLoader.register();
+        this.codeBlockLoader.register();
+        this.commandCache.registerMenuPlaceholderEvents();
+        // Before the workspace layout is restored, so restored leaves get a placeholder.
+        this.viewPlaceholders.register();
+        this.idleUnloader.register();
+        this.registerReturnToLazyCommand();
 
-        this.layoutReadyQueue = new PQueue({ concurrency: 3, interval: 100 });
+        this.layoutReadyQueue = new PQueue({ concurrency: this.getLoadConcurrency() });
 
         // 4. Initialize cache BEFORE hooking onLayoutReady: when the plugin is
         // (re)loaded after the workspace is already ready, onLayoutReady fires the
         // callback synchronously, and the stale-cache refresh would then run against
         // an empty store and find nothing to rebuild.
-        this.commandCache.loadFromData();
+        await this.commandCache.loadFromData();
         this.commandCache.registerCachedCommands();
 
         this.registerLayoutReadyLoader();
     }
 
     onunload() {
+        this.uninstallPluginLookup?.();
+        this.uninstallPluginLookup = null;
+        this.loadProfiler?.flush();
+        this.usageTracker?.flush();
         this.commandCache?.clear();
+        this.viewPlaceholders?.clear();
+        this.idleUnloader?.clear();
+        this.bundleAnalyzer?.clear();
         this.lazyRunner?.clear();
         this.layoutReadyQueue?.clear();
+        this.idleLoadCancellers.forEach((cancel) => cancel());
+        this.idleLoadCancellers.clear();
+    }
+
+    /**
+     * Keep the plugin lookup patch installed only while `loadOnPluginLookup` is
+     * on, so `app.plugins.plugins` stays the plain map otherwise. Called again
+     * whenever settings are saved or the profile changes.
+     */
+    syncPluginLookupPatch() {
+        const enabled = this.ctx.getSettings().loadOnPluginLookup;
+        if (enabled && !this.uninstallPluginLookup) {
+            this.uninstallPluginLookup = patchPluginLookup(this.ctx, (pluginId) => this.lazyRunner.ensurePluginLoaded(pluginId));
+        } else if (!enabled && this.uninstallPluginLookup) {
+            this.uninstallPluginLookup();
+            this.uninstallPluginLookup = null;
+        }
+    }
+
+    private registerReturnToLazyCommand() {
+        this.ctx._plugin.addCommand({
+            id: "return-to-lazy",
+            name: "Return plugin to lazy",
+            callback: () => {
+                const ids = new Set(this.idleUnloader.getReturnablePluginIds());
+                const manifests = this.ctx.getManifests().filter((m) => ids.has(m.id));
+                if (!manifests.length) {
+                    new Notice("No lazy plugins are loaded");
+                    return;
+                }
+                new ReturnToLazyModal(this.ctx.app, manifests, (manifest) => {
+                    void this.idleUnloader.returnToLazy(manifest.id).then((unloaded) => {
+                        new Notice(unloaded ? `${manifest.name} returned to lazy` : `Failed to unload ${manifest.name}`);
+                    });
+                }).open();
+            },
+        });
     }
 
     private registerLayoutReadyLoader() {
@@ -85,9 +222,10 @@ export class LazyEngineFeature implements AppFeature {
         const toLoad = manifests.filter((m) => this.ctx.getPluginMode(m.id) === PLUGIN_MODE.LAZY_ON_LAYOUT_READY);
 
         if (toLoad.length > 0) {
-            const tasks = toLoad.map((manifest) => this.layoutReadyQueue.add(() => this.lazyRunner.ensurePluginLoaded(manifest.id).catch((err) => console.error("Failed loading plugin onLayoutReady", manifest.id, err))));
-
-            await Promise.all(tasks);
+            await this.loadInOrder(
+                toLoad.map((m) => m.id),
+                "layoutReady",
+            );
             this.commandCache.registerCachedCommands();
         }
 
@@ -96,6 +234,62 @@ export class LazyEngineFeature implements AppFeature {
         // Rebuild them here, after layout-ready plugins are loaded, so the wasEnabled
         // check inside refreshStaleCacheForPlugin sees the final enabled state.
         await this.refreshStaleCommandCaches();
+
+        // Scheduled after the stale-cache refresh, which temporarily enables and
+        // disables plugins and would otherwise race with the idle loads.
+        const idleIds = manifests.filter((m) => this.ctx.getPluginMode(m.id) === PLUGIN_MODE.LAZY_ON_IDLE).map((m) => m.id);
+        if (idleIds.length > 0) {
+            this.whenIdle(() => this.loadIdlePlugins(idleIds));
+        }
+    }
+
+    private async loadIdlePlugins(pluginIds: string[]) {
+        await this.loadInOrder(pluginIds, "idle");
+        this.commandCache.registerCachedCommands();
+    }
+
+    /**
+     * Load plugins through the layout-ready queue, one priority tier at a time.
+     * Within a tier, a plugin starts only after its `loadAfter` plugins finished;
+     * those were queued earlier, so waiting never blocks a slot they need.
+     */
+    private async loadInOrder(pluginIds: string[], trigger: LoadTrigger) {
+        const { plugins, layoutReadyDelayMs } = this.ctx.getSettings();
+        const plan = planLoadOrder(pluginIds.map((pluginId) => ({ pluginId, priority: plugins[pluginId]?.loadPriority, loadAfter: plugins[pluginId]?.loadAfter })));
+        this.layoutReadyQueue.concurrency = this.getLoadConcurrency();
+
+        const loads = new Map<string, Promise<unknown>>();
+        const tiers = Array.from(new Set(plan.map((p) => p.tier)));
+        for (const tier of tiers) {
+            const tasks = plan
+                .filter((p) => p.tier === tier)
+                .map(({ pluginId, after }) => {
+                    const task = this.layoutReadyQueue.add(async () => {
+                        await Promise.all(after.map((id) => loads.get(id) ?? Promise.resolve()));
+                        await this.lazyRunner.ensurePluginLoaded(pluginId, trigger).catch((err) => console.error(`Failed loading plugin (${trigger})`, pluginId, err));
+                        if (layoutReadyDelayMs > 0) {
+                            // Use the window timer API to align with popout-window execution context.
+                            await new Promise((r) => window.setTimeout(r, layoutReadyDelayMs));
+                        }
+                    });
+                    loads.set(pluginId, task);
+                    return task;
+                });
+            await Promise.all(tasks);
+        }
+    }
+
+    private getLoadConcurrency(): number {
+        return Math.max(1, Math.floor(this.ctx.getSettings().layoutReadyConcurrency) || 1);
+    }
+
+    /** Run `task` once the app is idle, at most IDLE_LOAD_TIMEOUT_MS from now. */
+    private whenIdle(task: () => Promise<void>) {
+        const cancel = runWhenIdle(() => {
+            this.idleLoadCancellers.delete(cancel);
+            void task();
+        }, IDLE_LOAD_TIMEOUT_MS);
+        this.idleLoadCancellers.add(cancel);
     }
 
     private async refreshStaleCommandCaches() {
@@ -126,6 +320,7 @@ export class LazyEngineFeature implements AppFeature {
                 await this.ctx.obsidianPlugins.disablePlugin(pluginId);
             }
             this.commandCache.registerCachedCommandsForPlugin(pluginId);
+            this.viewPlaceholders.register();
             return;
         }
 
@@ -133,7 +328,16 @@ export class LazyEngineFeature implements AppFeature {
             this.commandCache.removeCachedCommandsForPlugin(pluginId);
             // If layout is already ready, load it immediately. Otherwise it will be handled by the layoutReadyLoader.
             if (this.ctx.app.workspace.layoutReady) {
-                await this.lazyRunner.ensurePluginLoaded(pluginId);
+                await this.lazyRunner.ensurePluginLoaded(pluginId, "apply");
+            }
+            return;
+        }
+
+        if (mode === PLUGIN_MODE.LAZY_ON_IDLE) {
+            this.commandCache.removeCachedCommandsForPlugin(pluginId);
+            // Before layout ready, onLayoutReady schedules the idle load.
+            if (this.ctx.app.workspace.layoutReady) {
+                this.whenIdle(() => this.loadIdlePlugins([pluginId]));
             }
             return;
         }
@@ -2,8 +2,10 @@ import log from "loglevel";
 import type { WorkspaceLeaf } from "obsidian";
 import type { PluginLoader } from "src/core/interfaces";
 import type { PluginContext } from "src/core/plugin-context";
+import type { UsageKind } from "src/core/types";
 import { isPluginLoaded, rebuildLeafView } from "src/core/utils";
 import type { LockStrategy } from "src/features/lazy-engine/lazy-loader/loaders/internal/leaf-lock";
+import type { UsageTracker } from "src/features/lazy-engine/usage-tracker";
 
 const logger = log.getLogger("OnDemandPlugin/BaseLazyLoader");
 
@@ -17,6 +19,10 @@ export abstract class BaseLazyLoader<TLockTarget> {
         ensurePluginLoaded(pluginId: string): Promise<boolean>;
     };
     protected lockStrategy: LockStrategy<TLockTarget>;
+    /** Optional; injected by LazyEngineFeature to count activations. */
+    protected usageTracker?: UsageTracker;
+    /** The kind of use an activation of this loader counts as. */
+    protected abstract usageKind: UsageKind;
 
     constructor(
         ctx: PluginContext,
@@ -30,6 +36,10 @@ export abstract class BaseLazyLoader<TLockTarget> {
         this.lockStrategy = lockStrategy;
     }
 
+    setUsageTracker(tracker: UsageTracker): void {
+        this.usageTracker = tracker;
+    }
+
     /**
      * Template method for lazy loading a plugin.
      * Subclasses should implement the specific resolution logic.
@@ -78,6 +88,8 @@ export abstract class BaseLazyLoader<TLockTarget> {
             return false;
         }
 
+        // Only activations that loaded the plugin count as a use; later ones find it running.
+        this.usageTracker?.record(pluginId, this.usageKind);
         return true;
     }
 
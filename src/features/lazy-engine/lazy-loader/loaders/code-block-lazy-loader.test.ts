@@ -0,0 +1,73 @@
+import { MarkdownView } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { PLUGIN_MODE } from "src/core/types";
+import { CodeBlockLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/code-block-lazy-loader";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("CodeBlockLazyLoader", () => {
+    const file = { path: "notes/tasks.md", extension: "md" };
+
+    let loadedPlugins: Record<string, { _loaded: boolean }>;
+    let fileContents: Record<string, string>;
+    let onFileOpen: (opened: typeof file | null) => void;
+    let leaf: { id: string; view: MarkdownView; rebuildView: ReturnType<typeof vi.fn> };
+    let pluginLoader: { ensurePluginLoaded: ReturnType<typeof vi.fn> };
+    let cachedRead: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        loadedPlugins = {};
+        fileContents = { "notes/tasks.md": "# Today\n\n```dataview\nLIST\n```\n" };
+        cachedRead = vi.fn((target: typeof file) => Promise.resolve(fileContents[target.path]));
+        leaf = { id: "leaf-1", view: Object.assign(Object.create(MarkdownView.prototype) as MarkdownView, { file }), rebuildView: vi.fn().mockResolvedValue(undefined) };
+        pluginLoader = {
+            ensurePluginLoaded: vi.fn((pluginId: string) => {
+                loadedPlugins[pluginId] = { _loaded: true };
+                return Promise.resolve(true);
+            }),
+        };
+
+        const ctx = {
+            app: {
+                plugins: { plugins: loadedPlugins, enabledPlugins: new Set<string>() },
+                vault: { cachedRead },
+                workspace: {
+                    on: (name: string, callback: (opened: typeof file | null) => void) => {
+                        if (name === "file-open") onFileOpen = callback;
+                        return {};
+                    },
+                    onLayoutReady: vi.fn(),
+                    getLeavesOfType: (type: string) => (type === "markdown" ? [leaf] : []),
+                },
+            },
+            _plugin: { registerMarkdownPostProcessor: vi.fn() },
+            registerEvent: vi.fn(),
+            getManifests: () => [{ id: "dataview" }, { id: "charts" }],
+            getPluginMode: () => PLUGIN_MODE.LAZY,
+        } as unknown as PluginContext;
+
+        const languages: Record<string, string[]> = { dataview: ["dataview"], charts: ["chart"] };
+        new CodeBlockLazyLoader(ctx, pluginLoader as unknown as PluginLoader, {
+            getCachedCodeBlockLanguages: (pluginId) => languages[pluginId] ?? [],
+        }).register();
+    });
+
+    it("loads the plugin of a cached fence language and rebuilds the open editor", async () => {
+        onFileOpen(file);
+
+        await vi.waitFor(() => expect(leaf.rebuildView).toHaveBeenCalledTimes(1));
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledTimes(1);
+        expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("dataview");
+    });
+
+    it("leaves the file alone when the language's plugin is already loaded", async () => {
+        loadedPlugins.dataview = { _loaded: true };
+
+        onFileOpen(file);
+        await vi.waitFor(() => expect(cachedRead).toHaveBeenCalledWith(file));
+        await cachedRead.mock.results[0].value;
+
+        expect(pluginLoader.ensurePluginLoaded).not.toHaveBeenCalled();
+        expect(leaf.rebuildView).not.toHaveBeenCalled();
+    });
+});
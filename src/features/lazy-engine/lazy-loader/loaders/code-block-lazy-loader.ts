@@ -0,0 +1,141 @@
+import log from "loglevel";
+import type { TFile } from "obsidian";
+import { MarkdownView } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { isPluginLoaded, rebuildLeafView } from "src/core/utils";
+import { resolvePluginForCodeBlock } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
+
+const logger = log.getLogger("OnDemandPlugin/CodeBlockLazyLoader");
+
+/** Opening fence of a fenced code block, capturing its language. */
+const FENCE_LANGUAGE_PATTERN = /^[ \t>]*(?:`{3,}|~{3,})[ \t]*([^\s`~{]+)/gm;
+
+/**
+ * Source of the code block languages captured for each plugin.
+ * Implemented by CommandCacheService.
+ */
+export interface CodeBlockLanguageSource {
+    getCachedCodeBlockLanguages(pluginId: string): string[];
+}
+
+/**
+ * Handles lazy loading of plugins that render fenced code blocks
+ * (e.g. Dataview, Tasks or chart plugins).
+ *
+ * Reading view and embeds are covered by a post-processor that looks for
+ * unrendered `language-*` blocks; source and live preview are covered by
+ * scanning the opened file for fences. Once the owning plugin is loaded,
+ * the affected leaves are re-rendered so the block appears
+ * without reopening the note.
+ */
+export class CodeBlockLazyLoader {
+    /** Plugins currently being loaded → files waiting for a re-render. */
+    private pending = new Map<string, Set<string>>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+    private languageSource: CodeBlockLanguageSource;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader, languageSource: CodeBlockLanguageSource) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+        this.languageSource = languageSource;
+    }
+
+    register(): void {
+        const { app } = this.ctx;
+
+        this.ctx._plugin.registerMarkdownPostProcessor((el, info) => {
+            this.checkRenderedSection(el, info.sourcePath);
+        });
+
+        this.ctx.registerEvent(
+            app.workspace.on("file-open", (file: TFile | null) => {
+                if (file) void this.checkFileForCodeBlocks(file);
+            }),
+        );
+
+        // Initial layout scan
+        app.workspace.onLayoutReady(() => {
+            app.workspace.iterateAllLeaves((leaf) => {
+                if (leaf.view instanceof MarkdownView && leaf.view.file) {
+                    void this.checkFileForCodeBlocks(leaf.view.file);
+                }
+            });
+        });
+    }
+
+    private checkRenderedSection(el: HTMLElement, sourcePath: string): void {
+        el.querySelectorAll("pre > code").forEach((code) => {
+            const languageClass = Array.from(code.classList).find((name) => name.startsWith("language-"));
+            if (languageClass) {
+                this.loadForLanguage(languageClass.slice("language-".length), sourcePath);
+            }
+        });
+    }
+
+    private async checkFileForCodeBlocks(file: TFile): Promise<void> {
+        if (file.extension !== "md") return;
+
+        let content: string;
+        try {
+            content = await this.ctx.app.vault.cachedRead(file);
+        } catch (e) {
+            logger.debug(`error reading ${file.path}`, e);
+            return;
+        }
+
+        for (const match of content.matchAll(FENCE_LANGUAGE_PATTERN)) {
+            this.loadForLanguage(match[1], file.path);
+        }
+    }
+
+    private loadForLanguage(language: string, sourcePath: string): void {
+        const pluginId = resolvePluginForCodeBlock(this.ctx, language, (id) => this.languageSource.getCachedCodeBlockLanguages(id));
+        if (!pluginId || isPluginLoaded(this.ctx.app, pluginId)) return;
+
+        const waiting = this.pending.get(pluginId);
+        if (waiting) {
+            waiting.add(sourcePath);
+            return;
+        }
+
+        this.pending.set(pluginId, new Set([sourcePath]));
+        logger.debug(`loading ${pluginId} for \`${language}\` code block in ${sourcePath}`);
+        void this.pluginLoader
+            .ensurePluginLoaded(pluginId)
+            .then(async (loaded) => {
+                const paths = this.pending.get(pluginId) ?? new Set<string>();
+                this.pending.delete(pluginId);
+                if (loaded) await this.rerenderFiles(paths);
+            })
+            .catch((error) => {
+                this.pending.delete(pluginId);
+                logger.error(`Error loading ${pluginId} for code block ${language}:`, error);
+            });
+    }
+
+    /**
+     * Reading view only needs its sections re-rendered; the live preview editor
+     * builds its code block widgets once, so those leaves are rebuilt instead.
+     */
+    private async rerenderFiles(paths: Set<string>): Promise<void> {
+        const leaves = this.ctx.app.workspace.getLeavesOfType("markdown");
+        for (const leaf of leaves) {
+            const view = leaf.view;
+            if (!(view instanceof MarkdownView)) continue;
+
+            try {
+                if (view.getMode() === "preview") {
+                    // Embeds render with their own source path, so every reading view may be affected.
+                    view.previewMode.rerender(true);
+                } else if (view.file && paths.has(view.file.path)) {
+                    await rebuildLeafView(leaf);
+                }
+            } catch (error) {
+                logger.warn(`Failed to re-render leaf ${leaf.id}:`, error);
+            }
+        }
+    }
+}
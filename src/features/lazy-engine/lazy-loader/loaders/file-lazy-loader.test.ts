@@ -0,0 +1,58 @@
+import type { PluginContext } from "src/core/plugin-context";
+import { PLUGIN_MODE } from "src/core/types";
+import type { LockStrategy } from "src/features/lazy-engine/lazy-loader/loaders/internal/leaf-lock";
+import { FileLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/file-lazy-loader";
+import type { LazyCommandRunner } from "src/features/lazy-engine/lazy-runner/lazy-command-runner";
+import type { UsageTracker } from "src/features/lazy-engine/usage-tracker";
+import type { Mock } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("FileLazyLoader", () => {
+    const file = { path: "boards/todo.kanban", extension: "kanban" };
+
+    let loadedPlugins: Record<string, { _loaded: boolean }>;
+    let pluginLoader: { ensurePluginLoaded: Mock<(pluginId: string) => Promise<boolean>> };
+    let usageTracker: { record: ReturnType<typeof vi.fn> };
+    let loader: FileLazyLoader;
+
+    beforeEach(() => {
+        loadedPlugins = {};
+        pluginLoader = {
+            ensurePluginLoaded: vi.fn((pluginId: string) => {
+                loadedPlugins[pluginId] = { _loaded: true };
+                return Promise.resolve(true);
+            }),
+        };
+        usageTracker = { record: vi.fn() };
+
+        const settings = { plugins: { kanban: { mode: PLUGIN_MODE.LAZY, lazyOptions: { useExtensions: true, extensions: ["kanban"] } } } };
+        const ctx = {
+            app: { plugins: { plugins: loadedPlugins, enabledPlugins: new Set<string>() } },
+            getSettings: () => settings,
+            getPluginMode: () => PLUGIN_MODE.LAZY,
+        } as unknown as PluginContext;
+
+        loader = new FileLazyLoader(ctx, pluginLoader as unknown as LazyCommandRunner, {} as LockStrategy<never>);
+        loader.setUsageTracker(usageTracker as unknown as UsageTracker);
+    });
+
+    describe("loadPluginForExtension", () => {
+        it("loads the plugin registering the extension and counts it as a file use", async () => {
+            await loader.loadPluginForExtension(file as never);
+
+            expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledWith("kanban");
+            expect(usageTracker.record).toHaveBeenCalledWith("kanban", "file");
+        });
+
+        it("counts no use when the plugin fails to load or is already loaded", async () => {
+            pluginLoader.ensurePluginLoaded.mockResolvedValue(false);
+            await loader.loadPluginForExtension(file as never);
+
+            loadedPlugins.kanban = { _loaded: true };
+            await loader.loadPluginForExtension(file as never);
+
+            expect(pluginLoader.ensurePluginLoaded).toHaveBeenCalledTimes(1);
+            expect(usageTracker.record).not.toHaveBeenCalled();
+        });
+    });
+});
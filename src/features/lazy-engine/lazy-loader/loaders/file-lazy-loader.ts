@@ -2,8 +2,9 @@ import log from "loglevel";
 import type { View, WorkspaceLeaf } from "obsidian";
 import { TFile } from "obsidian";
 import type { PluginContext } from "src/core/plugin-context";
+import { isPluginLoaded } from "src/core/utils";
 import { BaseLazyLoader } from "src/features/lazy-engine/lazy-loader/loaders/base-lazy-loader";
-import { resolvePluginForFile } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
+import { resolvePluginForExtension, resolvePluginForFile } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
 import type { LockStrategy } from "src/features/lazy-engine/lazy-loader/loaders/internal/leaf-lock";
 import type { LazyCommandRunner as PluginLoader } from "src/features/lazy-engine/lazy-runner/lazy-command-runner";
 
@@ -27,8 +28,12 @@ interface ViewState {
  * Handles lazy loading of plugins based on file criteria.
  * When a file is opened that matches certain criteria (suffix, frontmatter, content),
  * the corresponding plugin is loaded and the view is rebuilt.
+ * Files with an extension registered by a lazy plugin are reopened once the
+ * plugin has loaded, so they do not stay in Obsidian's fallback view.
  */
 export class FileLazyLoader extends BaseLazyLoader<WorkspaceLeaf> {
+    protected usageKind = "file" as const;
+
     constructor(
         ctx: PluginContext,
         pluginLoader: PluginLoader & {
@@ -84,7 +89,36 @@ export class FileLazyLoader extends BaseLazyLoader<WorkspaceLeaf> {
         }
     }
 
+    /** Whether a lazy plugin that is not loaded yet registers the file's extension. */
+    hasPluginForExtension(file: TFile): boolean {
+        return this.getUnloadedPluginForExtension(file) !== null;
+    }
+
+    /**
+     * Load the plugin that registers the file's extension, if it is lazy and
+     * not loaded yet. Called before a leaf opens the file.
+     */
+    async loadPluginForExtension(file: TFile): Promise<void> {
+        const pluginId = this.getUnloadedPluginForExtension(file);
+        if (!pluginId) return;
+
+        logger.debug(`loading ${pluginId} before opening ${file.path}`);
+        if (await this.pluginLoader.ensurePluginLoaded(pluginId)) {
+            this.usageTracker?.record(pluginId, this.usageKind);
+        }
+    }
+
+    private getUnloadedPluginForExtension(file: TFile): string | null {
+        const pluginId = resolvePluginForExtension(this.ctx, file.extension);
+        return pluginId && !isPluginLoaded(this.ctx.app, pluginId) ? pluginId : null;
+    }
+
     private async checkFileForLazyLoading(file: TFile, leaf: WorkspaceLeaf): Promise<void> {
+        if (resolvePluginForExtension(this.ctx, file.extension)) {
+            await this.checkExtensionForLazyLoading(file, leaf);
+            return;
+        }
+
         const leafId = this.getLeafId(leaf);
 
         await this.loadPluginWithLock(
@@ -110,4 +144,30 @@ export class FileLazyLoader extends BaseLazyLoader<WorkspaceLeaf> {
             },
         );
     }
+
+    /**
+     * Handles leaves that already show a file with a lazily registered extension,
+     * e.g. restored from the saved layout before the plugin was loaded.
+     */
+    private async checkExtensionForLazyLoading(file: TFile, leaf: WorkspaceLeaf): Promise<void> {
+        const leafId = this.getLeafId(leaf);
+
+        await this.loadPluginWithLock(
+            leaf,
+            async () => resolvePluginForExtension(this.ctx, file.extension),
+            { leafId, description: file.path },
+            async (wasNewlyLoaded) => {
+                if (!wasNewlyLoaded) return;
+
+                const expectedViewType = this.ctx.app.viewRegistry.getTypeByExtension(file.extension);
+                if (!expectedViewType || leaf.view.getViewType() === expectedViewType) {
+                    logger.debug(`skipping reopen for ${file.path} - already in ${leaf.view.getViewType()}`);
+                    return;
+                }
+
+                logger.debug(`reopening ${file.path} in leaf ${leafId} as ${expectedViewType}`);
+                await leaf.openFile(file);
+            },
+        );
+    }
 }
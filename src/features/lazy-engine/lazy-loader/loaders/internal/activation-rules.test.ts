@@ -1,6 +1,6 @@
 import type { PluginContext } from "src/core/plugin-context";
 import { PLUGIN_MODE, type DeviceSettings } from "src/core/types";
-import { resolvePluginForViewType } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
+import { getLazyViewTypes, resolvePluginForCodeBlock, resolvePluginForExtension, resolvePluginForViewType } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
 import { describe, expect, it } from "vitest";
 
 function createCtx(settings: DeviceSettings, modes: Record<string, PLUGIN_MODE>): PluginContext {
@@ -16,6 +16,11 @@ describe("resolvePluginForViewType", () => {
             defaultMode: PLUGIN_MODE.LAZY,
             pruneUninstalledEntries: false,
             showDescriptions: true,
+            loadOnPluginLookup: false,
+            shareCommandCache: false,
+            commandCacheBackend: "localStorage",
+            layoutReadyConcurrency: 3,
+            layoutReadyDelayMs: 0,
             plugins: {
                 "plugin-a": {
                     mode: PLUGIN_MODE.LAZY,
@@ -43,6 +48,11 @@ describe("resolvePluginForViewType", () => {
             defaultMode: PLUGIN_MODE.LAZY,
             pruneUninstalledEntries: false,
             showDescriptions: true,
+            loadOnPluginLookup: false,
+            shareCommandCache: false,
+            commandCacheBackend: "localStorage",
+            layoutReadyConcurrency: 3,
+            layoutReadyDelayMs: 0,
             plugins: {},
             lazyOnViews: {
                 "plugin-b": ["kanban"],
@@ -64,6 +74,11 @@ describe("resolvePluginForViewType", () => {
             defaultMode: PLUGIN_MODE.ALWAYS_DISABLED,
             pruneUninstalledEntries: false,
             showDescriptions: true,
+            loadOnPluginLookup: false,
+            shareCommandCache: false,
+            commandCacheBackend: "localStorage",
+            layoutReadyConcurrency: 3,
+            layoutReadyDelayMs: 0,
             plugins: {
                 "plugin-c": {
                     mode: PLUGIN_MODE.ALWAYS_ENABLED,
@@ -86,3 +101,75 @@ describe("resolvePluginForViewType", () => {
         expect(resolvePluginForViewType(ctx, "excalidraw")).toBeNull();
     });
 });
+
+describe("getLazyViewTypes", () => {
+    it("maps view types of lazy plugins from lazyOptions and the legacy map", () => {
+        const settings = {
+            plugins: {
+                "plugin-a": { mode: PLUGIN_MODE.LAZY, lazyOptions: { useView: true, viewTypes: ["kanban"], useFile: false, fileCriteria: {} } },
+                "plugin-b": { mode: PLUGIN_MODE.LAZY, lazyOptions: { useView: false, viewTypes: ["ignored"], useFile: false, fileCriteria: {} } },
+                "plugin-c": { mode: PLUGIN_MODE.ALWAYS_ENABLED, lazyOptions: { useView: true, viewTypes: ["eager"], useFile: false, fileCriteria: {} } },
+            },
+            lazyOnViews: { "plugin-d": ["kanban", "calendar"] },
+        } as unknown as DeviceSettings;
+
+        const ctx = createCtx(settings, { "plugin-a": PLUGIN_MODE.LAZY, "plugin-b": PLUGIN_MODE.LAZY, "plugin-c": PLUGIN_MODE.ALWAYS_ENABLED, "plugin-d": PLUGIN_MODE.LAZY });
+
+        expect(Object.fromEntries(getLazyViewTypes(ctx))).toEqual({ kanban: "plugin-a", calendar: "plugin-d" });
+    });
+});
+
+describe("resolvePluginForExtension", () => {
+    const settings = {
+        plugins: {
+            "csv-plugin": {
+                mode: PLUGIN_MODE.LAZY,
+                lazyOptions: { useView: false, viewTypes: [], useFile: false, fileCriteria: {}, useExtensions: true, extensions: ["csv", "tsv"] },
+            },
+            "kanban-plugin": {
+                mode: PLUGIN_MODE.LAZY,
+                lazyOptions: { useView: false, viewTypes: [], useFile: false, fileCriteria: {}, useExtensions: false, extensions: ["kanban"] },
+            },
+        },
+    } as unknown as DeviceSettings;
+
+    it("resolves a lazy plugin that registered the extension", () => {
+        const ctx = createCtx(settings, { "csv-plugin": PLUGIN_MODE.LAZY });
+
+        expect(resolvePluginForExtension(ctx, "CSV")).toBe("csv-plugin");
+        expect(resolvePluginForExtension(ctx, "md")).toBeNull();
+    });
+
+    it("requires useExtensions and a lazy mode", () => {
+        expect(resolvePluginForExtension(createCtx(settings, { "kanban-plugin": PLUGIN_MODE.LAZY }), "kanban")).toBeNull();
+        expect(resolvePluginForExtension(createCtx(settings, { "csv-plugin": PLUGIN_MODE.ALWAYS_ENABLED }), "csv")).toBeNull();
+    });
+});
+
+describe("resolvePluginForCodeBlock", () => {
+    const languages: Record<string, string[]> = {
+        "plugin-a": ["dataview", "dataviewjs"],
+        "plugin-b": ["chart"],
+    };
+
+    function createCodeBlockCtx(modes: Record<string, PLUGIN_MODE>): PluginContext {
+        return {
+            getManifests: () => Object.keys(languages).map((id) => ({ id })),
+            getPluginMode: (pluginId: string) => modes[pluginId] ?? PLUGIN_MODE.ALWAYS_DISABLED,
+        } as unknown as PluginContext;
+    }
+
+    it("resolves the lazy plugin that registered the language", () => {
+        const ctx = createCodeBlockCtx({ "plugin-a": PLUGIN_MODE.LAZY, "plugin-b": PLUGIN_MODE.LAZY });
+
+        expect(resolvePluginForCodeBlock(ctx, "dataviewjs", (id) => languages[id] ?? [])).toBe("plugin-a");
+        expect(resolvePluginForCodeBlock(ctx, "chart", (id) => languages[id] ?? [])).toBe("plugin-b");
+        expect(resolvePluginForCodeBlock(ctx, "mermaid", (id) => languages[id] ?? [])).toBeNull();
+    });
+
+    it("ignores plugins that are not in a lazy mode", () => {
+        const ctx = createCodeBlockCtx({ "plugin-a": PLUGIN_MODE.ALWAYS_ENABLED });
+
+        expect(resolvePluginForCodeBlock(ctx, "dataview", (id) => languages[id] ?? [])).toBeNull();
+    });
+});
@@ -1,7 +1,7 @@
 /**
  * activation-rules.ts — Centralised resolution of lazy-loading activation rules.
  *
- * Both ViewLazyLoader and FileLazyLoader query this module to decide which
+ * ViewLazyLoader, FileLazyLoader and CodeBlockLazyLoader query this module to decide which
  * plugin should handle a given view type or file, removing duplicated rule
  * look-ups and hard-coded special cases.
  */
@@ -65,6 +65,30 @@ export function resolvePluginForViewType(ctx: PluginContext, viewType: string):
     return null;
 }
 
+/**
+ * Map every view type configured for a lazy plugin to that plugin, with the
+ * same precedence as resolvePluginForViewType.
+ */
+export function getLazyViewTypes(ctx: PluginContext): Map<string, string> {
+    const settings = ctx.getSettings();
+    const viewTypes = new Map<string, string>();
+    const add = (pluginId: string, types: string[]) => {
+        if (!isLazyMode(ctx.getPluginMode(pluginId))) return;
+        types.forEach((viewType) => {
+            if (!viewTypes.has(viewType)) viewTypes.set(viewType, pluginId);
+        });
+    };
+
+    for (const [pluginId, pluginSettings] of Object.entries(settings.plugins)) {
+        const opts = pluginSettings.lazyOptions;
+        if (opts?.useView) add(pluginId, opts.viewTypes);
+    }
+    for (const [pluginId, types] of Object.entries(settings.lazyOnViews || {})) {
+        add(pluginId, types);
+    }
+    return viewTypes;
+}
+
 // ---------------------------------------------------------------------------
 // File resolution
 // ---------------------------------------------------------------------------
@@ -110,6 +134,63 @@ export async function resolvePluginForFile(ctx: PluginContext, file: TFile): Pro
     return null;
 }
 
+// ---------------------------------------------------------------------------
+// Extension resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the plugin that should be lazy-loaded to open files with `extension`.
+ *
+ * Extensions are captured from `registerExtensions` into the per-plugin
+ * lazyOptions, so only plugins with `useExtensions` enabled are considered.
+ *
+ * @param ctx - The plugin context containing settings and app instance
+ * @param extension - The file extension without the leading dot (e.g., "csv")
+ * @returns The plugin ID that registers this extension, or null
+ */
+export function resolvePluginForExtension(ctx: PluginContext, extension: string): string | null {
+    const normalized = extension.toLowerCase();
+    if (!normalized) return null;
+
+    for (const [pluginId, pluginSettings] of Object.entries(ctx.getSettings().plugins)) {
+        const opts = pluginSettings.lazyOptions;
+        if (!opts?.useExtensions || !opts.extensions?.includes(normalized)) continue;
+
+        if (!isLazyMode(ctx.getPluginMode(pluginId))) continue;
+        logger.debug(`[LazyPlugins] resolvePluginForExtension: resolved ${pluginId} for .${normalized}`);
+        return pluginId;
+    }
+
+    return null;
+}
+
+// ---------------------------------------------------------------------------
+// Code block resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the lazy plugin that registered a code block processor for `language`.
+ *
+ * Languages are not configured by the user; they are captured from
+ * `registerMarkdownCodeBlockProcessor` while the command cache is rebuilt.
+ *
+ * @param ctx - The plugin context containing settings and app instance
+ * @param language - The fenced code block language (e.g., "dataview")
+ * @param getCachedLanguages - Cached languages for a plugin
+ * @returns The plugin ID that should render this code block, or null
+ */
+export function resolvePluginForCodeBlock(ctx: PluginContext, language: string, getCachedLanguages: (pluginId: string) => string[]): string | null {
+    for (const manifest of ctx.getManifests()) {
+        if (!isLazyMode(ctx.getPluginMode(manifest.id))) continue;
+        if (!getCachedLanguages(manifest.id).includes(language)) continue;
+
+        logger.debug(`[LazyPlugins] resolvePluginForCodeBlock: resolved ${manifest.id} for ${language}`);
+        return manifest.id;
+    }
+
+    return null;
+}
+
 // ---------------------------------------------------------------------------
 // Criteria matching
 // ---------------------------------------------------------------------------
@@ -16,6 +16,8 @@ const logger = log.getLogger("OnDemandPlugin/ViewLazyLoader");
  * plugin is loaded and commands are synchronized.
  */
 export class ViewLazyLoader extends BaseLazyLoader<LeafResource> {
+    protected usageKind = "view" as const;
+
     private debouncedInitializeLazyViewForLeaf = debounce(
         (leaf: WorkspaceLeaf | null) => {
             if (leaf) {
@@ -0,0 +1,137 @@
+import type { ViewCreator, WorkspaceLeaf } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import type { DeviceSettings } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
+import { PlaceholderView, ViewPlaceholders } from "src/features/lazy-engine/lazy-loader/loaders/view-placeholders";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+interface TestLeaf {
+    view: unknown;
+    rebuildView: ReturnType<typeof vi.fn>;
+}
+
+describe("ViewPlaceholders", () => {
+    let viewByType: Record<string, ViewCreator>;
+    let leaves: TestLeaf[];
+    let loadedPlugins: Record<string, { _loaded: boolean }>;
+    let pluginLoader: { ensurePluginLoaded: ReturnType<typeof vi.fn> };
+    let placeholders: ViewPlaceholders;
+
+    beforeEach(() => {
+        viewByType = {};
+        leaves = [];
+        loadedPlugins = {};
+        pluginLoader = { ensurePluginLoaded: vi.fn().mockResolvedValue(true) };
+
+        const settings = {
+            plugins: {
+                kanban: { mode: PLUGIN_MODE.LAZY, lazyOptions: { useView: true, viewTypes: ["kanban"], useFile: false, fileCriteria: {} } },
+                calendar: { mode: PLUGIN_MODE.LAZY, lazyOptions: { useView: true, viewTypes: ["calendar"], useFile: false, fileCriteria: {} } },
+            },
+            lazyOnViews: {},
+        } as unknown as DeviceSettings;
+
+        const ctx = {
+            app: {
+                plugins: { plugins: loadedPlugins },
+                viewRegistry: {
+                    viewByType,
+                    getViewCreatorByType: (type: string) => viewByType[type],
+                    registerView: vi.fn((type: string, creator: ViewCreator) => {
+                        viewByType[type] = creator;
+                    }),
+                    unregisterView: vi.fn((type: string) => {
+                        delete viewByType[type];
+                    }),
+                },
+                workspace: {
+                    getLeavesOfType: (type: string) => leaves.filter((leaf) => (leaf.view as { getViewType(): string }).getViewType() === type),
+                },
+            },
+            getSettings: () => settings,
+            getPluginMode: (id: string) => settings.plugins[id]?.mode,
+            getManifests: () => [
+                { id: "kanban", name: "Kanban" },
+                { id: "calendar", name: "Calendar" },
+            ],
+        } as unknown as PluginContext;
+
+        placeholders = new ViewPlaceholders(ctx, pluginLoader as unknown as PluginLoader);
+    });
+
+    function openPlaceholderLeaf(type: string): TestLeaf {
+        const leaf: TestLeaf = { view: undefined, rebuildView: vi.fn().mockResolvedValue(undefined) };
+        leaf.view = viewByType[type](leaf as unknown as WorkspaceLeaf);
+        leaves.push(leaf);
+        return leaf;
+    }
+
+    it("registers a placeholder for each view type of an unloaded lazy plugin", () => {
+        loadedPlugins.calendar = { _loaded: true };
+
+        placeholders.register();
+
+        expect(Object.keys(viewByType)).toEqual(["kanban"]);
+        const view = openPlaceholderLeaf("kanban").view as PlaceholderView;
+        expect(view).toBeInstanceOf(PlaceholderView);
+        expect(view.getViewType()).toBe("kanban");
+        expect(view.getDisplayText()).toBe("Kanban");
+    });
+
+    it("keeps the restored state of the leaf", async () => {
+        placeholders.register();
+        const view = openPlaceholderLeaf("kanban").view as PlaceholderView;
+
+        await view.setState({ file: "Board.md" }, { history: false });
+
+        expect(view.getState()).toEqual({ file: "Board.md" });
+    });
+
+    it("steps aside for the real view and rebuilds placeholder leaves", () => {
+        placeholders.register();
+        const leaf = openPlaceholderLeaf("kanban");
+        const realCreator = vi.fn() as unknown as ViewCreator;
+
+        placeholders.beforeRegister("kanban", realCreator);
+        expect(viewByType.kanban).toBeUndefined();
+
+        viewByType.kanban = realCreator;
+        placeholders.onRegistered("kanban");
+
+        expect(leaf.rebuildView).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores its own registrations", () => {
+        placeholders.register();
+        openPlaceholderLeaf("kanban");
+
+        placeholders.beforeRegister("kanban", viewByType.kanban);
+
+        expect(viewByType.kanban).toBeDefined();
+    });
+
+    it("brings the placeholder back after the real view is unregistered", () => {
+        vi.useFakeTimers();
+        vi.stubGlobal("window", { setTimeout });
+        try {
+            placeholders.register();
+            placeholders.beforeRegister("kanban", vi.fn());
+
+            placeholders.onUnregistered("kanban");
+            vi.runAllTimers();
+
+            expect(viewByType.kanban).toBeDefined();
+        } finally {
+            vi.unstubAllGlobals();
+            vi.useRealTimers();
+        }
+    });
+
+    it("removes its placeholders on clear", () => {
+        placeholders.register();
+        placeholders.clear();
+
+        expect(viewByType).toEqual({});
+    });
+});
@@ -0,0 +1,160 @@
+import log from "loglevel";
+import type { ViewCreator, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { ItemView } from "obsidian";
+import type { PluginLoader } from "src/core/interfaces";
+import type { PluginContext } from "src/core/plugin-context";
+import { isPluginLoaded, rebuildLeafView } from "src/core/utils";
+import { getLazyViewTypes } from "src/features/lazy-engine/lazy-loader/loaders/internal/activation-rules";
+
+const logger = log.getLogger("OnDemandPlugin/ViewPlaceholders");
+
+/**
+ * Stand-in view for a leaf whose view type belongs to an unloaded lazy plugin.
+ * It reports the real view type and keeps the leaf's saved state, so the
+ * workspace layout survives until the plugin takes over.
+ */
+export class PlaceholderView extends ItemView {
+    private viewType: string;
+    private pluginName: string;
+    private state: Record<string, unknown> = {};
+    private onLoad: () => Promise<boolean>;
+
+    constructor(leaf: WorkspaceLeaf, viewType: string, pluginName: string, onLoad: () => Promise<boolean>) {
+        super(leaf);
+        this.viewType = viewType;
+        this.pluginName = pluginName;
+        this.onLoad = onLoad;
+    }
+
+    getViewType(): string {
+        return this.viewType;
+    }
+
+    getDisplayText(): string {
+        return this.pluginName;
+    }
+
+    getIcon(): string {
+        return "plug";
+    }
+
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        this.state = state && typeof state === "object" ? (state as Record<string, unknown>) : {};
+        await super.setState(state, result);
+    }
+
+    getState(): Record<string, unknown> {
+        return this.state;
+    }
+
+    onOpen(): Promise<void> {
+        this.render();
+        return Promise.resolve();
+    }
+
+    private render(): void {
+        this.contentEl.empty();
+        this.contentEl.addClass("lazy-view-placeholder");
+        const message = this.contentEl.createEl("p", { text: `${this.pluginName} is not loaded yet.` });
+        const button = this.contentEl.createEl("button", { cls: "mod-cta", text: "Load" });
+        button.addEventListener("click", () => {
+            button.disabled = true;
+            message.setText(`Loading ${this.pluginName}…`);
+            void this.onLoad().then((loaded) => {
+                // On success the leaf is handed over to the real view.
+                if (!loaded) {
+                    button.disabled = false;
+                    message.setText(`${this.pluginName} failed to load.`);
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Registers a PlaceholderView for every view type of an unloaded lazy plugin,
+ * so restored leaves show the owning plugin and a "Load" button instead of a
+ * blank pane. Visible leaves are still loaded by ViewLazyLoader, which sees
+ * the real view type.
+ *
+ * When the plugin registers its view, the placeholder is removed and each
+ * placeholder leaf is rebuilt; the rebuild reads the saved state from the
+ * placeholder and passes it to the real view.
+ */
+export class ViewPlaceholders {
+    /** View type → the placeholder creator we registered. */
+    private creators = new Map<string, ViewCreator>();
+    /** View type → placeholder leaves waiting for the real view. */
+    private handovers = new Map<string, WorkspaceLeaf[]>();
+
+    private ctx: PluginContext;
+    private pluginLoader: PluginLoader;
+
+    constructor(ctx: PluginContext, pluginLoader: PluginLoader) {
+        this.ctx = ctx;
+        this.pluginLoader = pluginLoader;
+    }
+
+    /** Register placeholders for all lazy view types that nobody provides yet. */
+    register(): void {
+        getLazyViewTypes(this.ctx).forEach((pluginId, viewType) => this.registerPlaceholder(viewType, pluginId));
+    }
+
+    clear(): void {
+        const { viewRegistry } = this.ctx.app;
+        Array.from(this.creators.keys()).forEach((viewType) => {
+            this.creators.delete(viewType);
+            if (viewRegistry.getViewCreatorByType(viewType)) viewRegistry.unregisterView(viewType);
+        });
+        this.handovers.clear();
+    }
+
+    /** Step aside for the real view and remember which leaves to hand over. */
+    beforeRegister(viewType: string, creator: ViewCreator): void {
+        const placeholder = this.creators.get(viewType);
+        if (!placeholder || creator === placeholder) return;
+
+        const leaves = this.ctx.app.workspace.getLeavesOfType(viewType).filter((leaf) => leaf.view instanceof PlaceholderView);
+        if (leaves.length) this.handovers.set(viewType, leaves);
+
+        // unregisterView would fire `view-unregistered`, and Obsidian would swap
+        // out the leaves (and their state) before the real view arrives.
+        this.creators.delete(viewType);
+        delete this.ctx.app.viewRegistry.viewByType[viewType];
+    }
+
+    onRegistered(viewType: string): void {
+        const leaves = this.handovers.get(viewType);
+        if (!leaves) return;
+        this.handovers.delete(viewType);
+
+        for (const leaf of leaves) {
+            if (!(leaf.view instanceof PlaceholderView)) continue;
+            rebuildLeafView(leaf).catch((error) => logger.warn(`Failed to hand leaf over to ${viewType}:`, error));
+        }
+    }
+
+    /** Bring the placeholder back once the plugin unregisters its view, e.g. when it is unloaded. */
+    onUnregistered(viewType: string): void {
+        if (this.creators.has(viewType)) {
+            this.creators.delete(viewType);
+            return;
+        }
+        const pluginId = getLazyViewTypes(this.ctx).get(viewType);
+        if (!pluginId) return;
+        // The plugin is still marked loaded while its unload callbacks run.
+        window.setTimeout(() => this.registerPlaceholder(viewType, pluginId), 0);
+    }
+
+    private registerPlaceholder(viewType: string, pluginId: string): void {
+        const { viewRegistry } = this.ctx.app;
+        if (this.creators.has(viewType) || viewRegistry.getViewCreatorByType(viewType)) return;
+        if (isPluginLoaded(this.ctx.app, pluginId)) return;
+
+        const pluginName = this.ctx.getManifests().find((manifest) => manifest.id === pluginId)?.name ?? pluginId;
+        const creator: ViewCreator = (leaf) => new PlaceholderView(leaf, viewType, pluginName, () => this.pluginLoader.ensurePluginLoaded(pluginId));
+        this.creators.set(viewType, creator);
+        viewRegistry.registerView(viewType, creator);
+        logger.debug(`registered placeholder view for ${viewType} (${pluginId})`);
+    }
+}
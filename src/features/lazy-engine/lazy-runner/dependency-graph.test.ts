@@ -0,0 +1,29 @@
+import { resolveDependencyOrder } from "src/features/lazy-engine/lazy-runner/dependency-graph";
+import { describe, expect, it } from "vitest";
+
+function graph(edges: Record<string, string[]>) {
+    return (pluginId: string) => edges[pluginId] ?? [];
+}
+
+describe("resolveDependencyOrder", () => {
+    it("returns only the root when it has no dependencies", () => {
+        expect(resolveDependencyOrder("a", graph({}))).toEqual({ order: ["a"], cycles: [] });
+    });
+
+    it("orders transitive dependencies before the plugins that need them", () => {
+        const { order } = resolveDependencyOrder("consumer", graph({ consumer: ["dataview", "helper"], helper: ["dataview"] }));
+
+        expect(order).toEqual(["dataview", "helper", "consumer"]);
+    });
+
+    it("reports cycles and still returns every reachable plugin once", () => {
+        const { order, cycles } = resolveDependencyOrder("a", graph({ a: ["b"], b: ["c"], c: ["a"] }));
+
+        expect(order).toEqual(["c", "b", "a"]);
+        expect(cycles).toEqual([["a", "b", "c", "a"]]);
+    });
+
+    it("ignores self-dependencies", () => {
+        expect(resolveDependencyOrder("a", graph({ a: ["a"] }))).toEqual({ order: ["a"], cycles: [] });
+    });
+});
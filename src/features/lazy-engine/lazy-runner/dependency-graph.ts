@@ -0,0 +1,49 @@
+/**
+ * dependency-graph.ts — Resolution of per-plugin `dependsOn` lists.
+ *
+ * LazyCommandRunner walks the graph from the plugin being loaded and loads
+ * the returned order front to back, so dependencies come up before the
+ * plugins that use their API.
+ */
+
+export interface DependencyOrder {
+    /** Every plugin reachable from the root, dependencies first, root last. */
+    order: string[];
+    /** Cycles found during the walk, e.g. `["a", "b", "a"]`. Their closing edge is ignored. */
+    cycles: string[][];
+}
+
+/**
+ * Depth-first walk of the dependency graph rooted at `rootId`.
+ *
+ * @param rootId - The plugin being loaded
+ * @param getDependencies - The `dependsOn` list of a plugin
+ */
+export function resolveDependencyOrder(rootId: string, getDependencies: (pluginId: string) => string[]): DependencyOrder {
+    const order: string[] = [];
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (pluginId: string) => {
+        if (visited.has(pluginId)) return;
+
+        const onStack = stack.indexOf(pluginId);
+        if (onStack >= 0) {
+            cycles.push([...stack.slice(onStack), pluginId]);
+            return;
+        }
+
+        stack.push(pluginId);
+        for (const dependencyId of getDependencies(pluginId)) {
+            if (dependencyId && dependencyId !== pluginId) visit(dependencyId);
+        }
+        stack.pop();
+
+        visited.add(pluginId);
+        order.push(pluginId);
+    };
+
+    visit(rootId);
+    return { order, cycles };
+}
@@ -21,6 +21,9 @@ describe("LazyCommandRunner", () => {
             enablePlugin: ReturnType<typeof vi.fn>;
         };
         getData: ReturnType<typeof vi.fn>;
+        getSettings: ReturnType<typeof vi.fn>;
+        getManifests: ReturnType<typeof vi.fn>;
+        getPluginMode: ReturnType<typeof vi.fn>;
     };
     let mockRegistry: {
         getCachedCommand: ReturnType<typeof vi.fn>;
@@ -44,6 +47,9 @@ describe("LazyCommandRunner", () => {
                 enablePlugin: vi.fn().mockResolvedValue(undefined),
             },
             getData: vi.fn().mockReturnValue({ showConsoleLog: false }),
+            getSettings: vi.fn().mockReturnValue({ plugins: {} }),
+            getManifests: vi.fn().mockReturnValue([]),
+            getPluginMode: vi.fn().mockReturnValue("lazy"),
         };
 
         mockRegistry = {
@@ -117,6 +123,23 @@ describe("LazyCommandRunner", () => {
             // Total calls should be 1
             expect(mockCtx.obsidianPlugins.enablePlugin).toHaveBeenCalledTimes(1);
         });
+
+        it("should load dependencies before the plugin and skip always-disabled ones", async () => {
+            vi.mocked(utilsMs.isPluginLoaded).mockReturnValue(false);
+            vi.mocked(pWaitFor).mockResolvedValue(undefined);
+            mockCtx.getSettings.mockReturnValue({
+                plugins: {
+                    consumer: { mode: "lazy", dependsOn: ["helper", "disabled", "missing"] },
+                    helper: { mode: "lazy", dependsOn: ["dataview"] },
+                },
+            });
+            mockCtx.getManifests.mockReturnValue([{ id: "consumer" }, { id: "helper" }, { id: "dataview" }, { id: "disabled" }]);
+            mockCtx.getPluginMode.mockImplementation((id: string) => (id === "disabled" ? "alwaysDisabled" : "lazy"));
+
+            await runner.ensurePluginLoaded("consumer");
+
+            expect(mockCtx.obsidianPlugins.enablePlugin.mock.calls.map(([id]) => id as string)).toEqual(["dataview", "helper", "consumer"]);
+        });
     });
 
     describe("runLazyCommand", () => {
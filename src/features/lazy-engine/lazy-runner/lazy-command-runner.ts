@@ -7,8 +7,13 @@ import pTimeout from "p-timeout";
 import pWaitFor from "p-wait-for";
 import type { CommandRegistry, PluginLoader } from "src/core/interfaces";
 import type { PluginContext } from "src/core/plugin-context";
+import type { LoadTrigger } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
 import { isPluginEnabled, isPluginLoaded } from "src/core/utils";
 import { CommandExecutor } from "src/features/lazy-engine/lazy-runner/command-executor";
+import { resolveDependencyOrder } from "src/features/lazy-engine/lazy-runner/dependency-graph";
+import type { LoadProfiler } from "src/features/lazy-engine/load-profiler";
+import type { UsageTracker } from "src/features/lazy-engine/usage-tracker";
 
 const logger = log.getLogger("OnDemandPlugin/LazyCommandRunner");
 
@@ -18,6 +23,10 @@ export class LazyCommandRunner implements PluginLoader {
     private commandExecutor!: CommandExecutor;
     /** Injected after construction to break circular dependency. */
     private commandRegistry!: CommandRegistry;
+    /** Optional; injected by LazyEngineFeature to time plugin loads. */
+    private loadProfiler?: LoadProfiler;
+    /** Optional; injected by LazyEngineFeature to count lazy command invocations. */
+    private usageTracker?: UsageTracker;
     // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
     private ctx: PluginContext;
 
@@ -33,6 +42,14 @@ export class LazyCommandRunner implements PluginLoader {
         this.commandExecutor = new CommandExecutor(this.ctx, registry);
     }
 
+    setLoadProfiler(profiler: LoadProfiler) {
+        this.loadProfiler = profiler;
+    }
+
+    setUsageTracker(tracker: UsageTracker) {
+        this.usageTracker = tracker;
+    }
+
     clear() {
         this.pluginMutexes.clear();
     }
@@ -53,6 +70,7 @@ export class LazyCommandRunner implements PluginLoader {
             return;
         }
 
+        this.usageTracker?.record(cached.pluginId, "command");
         const success = await this.ensurePluginLoaded(cached.pluginId);
         if (!success) return;
 
@@ -86,7 +104,42 @@ export class LazyCommandRunner implements PluginLoader {
         new Notice(`Command not available: ${commandId} (plugin: ${pluginId}). It may be disabled in plugin settings.`);
     }
 
-    async ensurePluginLoaded(pluginId: string): Promise<boolean> {
+    /**
+     * Load a plugin after the plugins listed in its (transitive) `dependsOn`.
+     * A dependency that fails to load is logged but does not block the plugin.
+     */
+    async ensurePluginLoaded(pluginId: string, trigger: LoadTrigger = "onDemand"): Promise<boolean> {
+        for (const dependencyId of this.getDependenciesToLoad(pluginId)) {
+            const loaded = await this.loadPlugin(dependencyId, trigger);
+            if (!loaded) {
+                logger.warn(`Dependency ${dependencyId} of ${pluginId} failed to load`);
+            }
+        }
+        return this.loadPlugin(pluginId, trigger);
+    }
+
+    /**
+     * Dependencies are resolved up front and loaded one by one, each under its
+     * own mutex, so a dependency cycle can never deadlock the per-plugin locks.
+     */
+    private getDependenciesToLoad(pluginId: string): string[] {
+        const plugins = this.ctx.getSettings().plugins;
+        const { order, cycles } = resolveDependencyOrder(pluginId, (id) => plugins[id]?.dependsOn ?? []);
+        cycles.forEach((cycle) => logger.warn(`Ignoring plugin dependency cycle: ${cycle.join(" → ")}`));
+
+        const installed = new Set(this.ctx.getManifests().map((m) => m.id));
+        return order.filter((id) => {
+            if (id === pluginId) return false;
+            if (!installed.has(id)) {
+                logger.warn(`Dependency ${id} of ${pluginId} is not installed`);
+                return false;
+            }
+            // Respect an explicit "always disabled"; the settings tab warns about it.
+            return this.ctx.getPluginMode(id) !== PLUGIN_MODE.ALWAYS_DISABLED;
+        });
+    }
+
+    private async loadPlugin(pluginId: string, trigger: LoadTrigger): Promise<boolean> {
         const mutex = this.getPluginMutex(pluginId);
 
         return await mutex.runExclusive(async () => {
@@ -99,8 +152,11 @@ export class LazyCommandRunner implements PluginLoader {
                     return true;
                 }
 
-                await this.ctx.obsidianPlugins.enablePlugin(pluginId);
-                const loadSuccess = await this.waitForPluginLoaded(pluginId);
+                const enableAndWait = async () => {
+                    await this.ctx.obsidianPlugins.enablePlugin(pluginId);
+                    return this.waitForPluginLoaded(pluginId);
+                };
+                const loadSuccess = this.loadProfiler ? await this.loadProfiler.measure(pluginId, trigger, enableAndWait) : await enableAndWait();
 
                 if (!loadSuccess) return false;
 
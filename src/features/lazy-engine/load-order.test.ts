@@ -0,0 +1,48 @@
+import { LOAD_PRIORITY } from "src/core/types";
+import { planLoadOrder } from "src/features/lazy-engine/load-order";
+import { describe, expect, it } from "vitest";
+
+describe("planLoadOrder", () => {
+    it("keeps input order for unconstrained plugins of the same priority", () => {
+        const plan = planLoadOrder([{ pluginId: "a" }, { pluginId: "b" }, { pluginId: "c" }]);
+
+        expect(plan.map((p) => p.pluginId)).toEqual(["a", "b", "c"]);
+        expect(plan.every((p) => p.tier === 1)).toBe(true);
+    });
+
+    it("orders plugins by priority tier", () => {
+        const plan = planLoadOrder([{ pluginId: "low", priority: LOAD_PRIORITY.LOW }, { pluginId: "normal" }, { pluginId: "high", priority: LOAD_PRIORITY.HIGH }]);
+
+        expect(plan.map((p) => p.pluginId)).toEqual(["high", "normal", "low"]);
+    });
+
+    it("loads plugins after the ones they depend on and ignores plugins outside the pass", () => {
+        const plan = planLoadOrder([{ pluginId: "consumer", loadAfter: ["api", "not-in-pass"] }, { pluginId: "api" }]);
+
+        expect(plan).toEqual([
+            { pluginId: "api", tier: 1, after: [] },
+            { pluginId: "consumer", tier: 1, after: ["api"] },
+        ]);
+    });
+
+    it("moves a plugin to the tier of a lower-priority plugin it loads after", () => {
+        const plan = planLoadOrder([{ pluginId: "consumer", priority: LOAD_PRIORITY.HIGH, loadAfter: ["api"] }, { pluginId: "api", priority: LOAD_PRIORITY.LOW }, { pluginId: "other" }]);
+
+        expect(plan.map((p) => [p.pluginId, p.tier])).toEqual([
+            ["other", 1],
+            ["api", 2],
+            ["consumer", 2],
+        ]);
+    });
+
+    it("breaks loadAfter cycles so every plugin still loads", () => {
+        const plan = planLoadOrder([
+            { pluginId: "a", loadAfter: ["b"] },
+            { pluginId: "b", loadAfter: ["a"] },
+        ]);
+
+        expect(plan.map((p) => p.pluginId)).toEqual(["a", "b"]);
+        expect(plan[0].after).toEqual([]);
+        expect(plan[1].after).toEqual(["a"]);
+    });
+});
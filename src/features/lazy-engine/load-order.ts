@@ -0,0 +1,76 @@
+/**
+ * load-order.ts — Ordering of plugins loaded in bulk after layout ready / on idle.
+ *
+ * Plugins are grouped into priority tiers and ordered so that every plugin
+ * listed in `loadAfter` comes first. The result is consumed by
+ * LazyEngineFeature, which loads one tier at a time through its queue.
+ */
+import log from "loglevel";
+import { LOAD_PRIORITY } from "src/core/types";
+
+const logger = log.getLogger("OnDemandPlugin/LoadOrder");
+
+const TIER_BY_PRIORITY: Record<LOAD_PRIORITY, number> = {
+    [LOAD_PRIORITY.HIGH]: 0,
+    [LOAD_PRIORITY.NORMAL]: 1,
+    [LOAD_PRIORITY.LOW]: 2,
+};
+
+export interface LoadOrderEntry {
+    pluginId: string;
+    priority?: LOAD_PRIORITY;
+    loadAfter?: string[];
+}
+
+export interface PlannedLoad {
+    pluginId: string;
+    /** Effective tier: never lower than the tier of anything it loads after. */
+    tier: number;
+    /** Plugins in this pass that must finish loading first. */
+    after: string[];
+}
+
+/**
+ * Order `entries` by tier and `loadAfter` constraints.
+ *
+ * - `loadAfter` references to plugins outside this pass are ignored.
+ * - A plugin that loads after a lower-priority plugin is moved to that tier.
+ * - Constraints forming a cycle are dropped (with a warning) so that every
+ *   plugin still loads.
+ *
+ * Input order is kept among plugins that are otherwise unconstrained.
+ */
+export function planLoadOrder(entries: LoadOrderEntry[]): PlannedLoad[] {
+    const index = new Map(entries.map((entry, i) => [entry.pluginId, i]));
+    const baseTier = (entry: LoadOrderEntry) => TIER_BY_PRIORITY[entry.priority ?? LOAD_PRIORITY.NORMAL] ?? TIER_BY_PRIORITY[LOAD_PRIORITY.NORMAL];
+    const afterOf = (entry: LoadOrderEntry) => Array.from(new Set(entry.loadAfter ?? [])).filter((id) => id !== entry.pluginId && index.has(id));
+
+    // Kahn's algorithm, always picking the lowest (tier, input index) among ready entries.
+    const pending = new Map(entries.map((entry) => [entry.pluginId, new Set(afterOf(entry))]));
+    const ordered: LoadOrderEntry[] = [];
+    const byPriority = (a: LoadOrderEntry, b: LoadOrderEntry) => baseTier(a) - baseTier(b) || index.get(a.pluginId)! - index.get(b.pluginId)!;
+
+    while (pending.size > 0) {
+        const ready = entries.filter((entry) => pending.get(entry.pluginId)?.size === 0).sort(byPriority);
+        // Only a cycle leaves nothing ready: break it at the highest-priority entry.
+        const next = ready[0] ?? entries.filter((entry) => pending.has(entry.pluginId)).sort(byPriority)[0];
+        if (!ready.length) {
+            logger.warn(`loadAfter cycle detected; loading ${next.pluginId} without waiting for ${Array.from(pending.get(next.pluginId) ?? []).join(", ")}`);
+        }
+
+        ordered.push(next);
+        pending.delete(next.pluginId);
+        pending.forEach((after) => after.delete(next.pluginId));
+    }
+
+    const planned = new Map<string, PlannedLoad>();
+    for (const entry of ordered) {
+        // Keep only constraints that point backwards; forward ones were cycle edges.
+        const after = afterOf(entry).filter((id) => planned.has(id));
+        const tier = Math.max(baseTier(entry), ...after.map((id) => planned.get(id)!.tier));
+        planned.set(entry.pluginId, { pluginId: entry.pluginId, tier, after });
+    }
+
+    // Stable sort keeps the dependency order within each tier.
+    return Array.from(planned.values()).sort((a, b) => a.tier - b.tier);
+}
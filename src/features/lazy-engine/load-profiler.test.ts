@@ -0,0 +1,90 @@
+import type { PluginContext } from "src/core/plugin-context";
+import type { LoadTimeSample } from "src/core/types";
+import { LoadProfiler, summarizeLoadTimes } from "src/features/lazy-engine/load-profiler";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const storage = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock("src/core/storage", () => ({
+    loadLocalStorage: (_app: unknown, prefix: string) => storage.get(prefix),
+    saveLocalStorage: (_app: unknown, prefix: string, value: unknown) => storage.set(prefix, structuredClone(value)),
+}));
+
+function samples(...durations: number[]): LoadTimeSample[] {
+    return durations.map((durationMs, i) => ({ durationMs, timestamp: i, trigger: "onDemand" }));
+}
+
+describe("summarizeLoadTimes", () => {
+    it("returns null without samples", () => {
+        expect(summarizeLoadTimes([])).toBeNull();
+    });
+
+    it("computes the median and nearest-rank p95", () => {
+        expect(summarizeLoadTimes(samples(30, 10, 20))).toEqual({ count: 3, medianMs: 20, p95Ms: 30 });
+        expect(summarizeLoadTimes(samples(10, 40, 20, 30))).toEqual({ count: 4, medianMs: 25, p95Ms: 40 });
+    });
+});
+
+describe("LoadProfiler", () => {
+    let plugins: Record<string, { _loaded: boolean }>;
+    let profiler: LoadProfiler;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal("window", { setTimeout, clearTimeout });
+        storage.clear();
+        plugins = {};
+        profiler = new LoadProfiler({ app: { plugins: { plugins } } } as unknown as PluginContext);
+        profiler.loadFromData();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it("records loads that take a plugin from unloaded to loaded", async () => {
+        const result = await profiler.measure("dataview", "layoutReady", () => {
+            plugins.dataview = { _loaded: true };
+            return Promise.resolve(true);
+        });
+
+        expect(result).toBe(true);
+        expect(profiler.getHistory("dataview")).toEqual([expect.objectContaining({ trigger: "layoutReady" })]);
+    });
+
+    it("ignores plugins that were already loaded or failed to load", async () => {
+        plugins.loaded = { _loaded: true };
+
+        await profiler.measure("loaded", "onDemand", () => Promise.resolve());
+        await profiler.measure("broken", "onDemand", () => Promise.resolve());
+
+        expect(profiler.getHistory("loaded")).toEqual([]);
+        expect(profiler.getHistory("broken")).toEqual([]);
+    });
+
+    it("keeps a rolling history and persists it", () => {
+        for (let i = 0; i < 25; i++) {
+            profiler.record("dataview", { durationMs: i, timestamp: i, trigger: "apply" });
+        }
+        vi.runAllTimers();
+
+        const reloaded = new LoadProfiler({ app: { plugins: { plugins } } } as unknown as PluginContext);
+        reloaded.loadFromData();
+
+        expect(reloaded.getHistory("dataview").map((sample) => sample.durationMs)).toEqual(Array.from({ length: 20 }, (_, i) => i + 5));
+    });
+
+    it("batches writes until the save delay passes or the profiler is flushed", () => {
+        profiler.record("dataview", { durationMs: 10, timestamp: 1, trigger: "apply" });
+        profiler.record("kanban", { durationMs: 20, timestamp: 2, trigger: "apply" });
+        expect(storage.has("loadTimes")).toBe(false);
+
+        vi.runAllTimers();
+        expect(Object.keys(storage.get("loadTimes") as object)).toEqual(["dataview", "kanban"]);
+
+        profiler.record("kanban", { durationMs: 30, timestamp: 3, trigger: "apply" });
+        profiler.flush();
+        expect((storage.get("loadTimes") as Record<string, unknown[]>).kanban).toHaveLength(2);
+    });
+});
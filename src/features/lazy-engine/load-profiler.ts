@@ -0,0 +1,84 @@
+/**
+ * load-profiler.ts — Per-plugin load times.
+ *
+ * Every load that goes through LazyCommandRunner, the layout-ready / idle
+ * queue or a startup-policy apply is timed from `enablePlugin` until the
+ * plugin reports loaded. A rolling history per plugin is kept in vault-scoped
+ * local storage, since load times are specific to the device. Writes are
+ * batched, as a layout-ready pass records many samples in a row.
+ */
+import { LOAD_TIME_HISTORY_SIZE, STATS_SAVE_DELAY_MS } from "src/core/constants";
+import type { PluginContext } from "src/core/plugin-context";
+import { loadLocalStorage, saveLocalStorage } from "src/core/storage";
+import type { LoadTimeHistory, LoadTimeSample, LoadTrigger } from "src/core/types";
+import { isPluginLoaded } from "src/core/utils";
+
+export interface LoadTimeStats {
+    count: number;
+    medianMs: number;
+    p95Ms: number;
+}
+
+/**
+ * Median and 95th percentile (nearest rank) of the given samples.
+ */
+export function summarizeLoadTimes(samples: LoadTimeSample[]): LoadTimeStats | null {
+    if (!samples.length) return null;
+    const sorted = samples.map((sample) => sample.durationMs).sort((a, b) => a - b);
+    const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+    const middle = Math.floor(sorted.length / 2);
+    const medianMs = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return { count: sorted.length, medianMs, p95Ms: rank(0.95) };
+}
+
+export class LoadProfiler {
+    private history: LoadTimeHistory = {};
+    private saveTimer: number | null = null;
+
+    private ctx: PluginContext;
+
+    constructor(ctx: PluginContext) {
+        this.ctx = ctx;
+    }
+
+    loadFromData(): void {
+        const source = loadLocalStorage<LoadTimeHistory>(this.ctx.app, "loadTimes");
+        this.history = source && typeof source === "object" ? source : {};
+    }
+
+    /**
+     * Run `load` and record how long it took, but only when it actually took
+     * the plugin from unloaded to loaded.
+     */
+    async measure<T>(pluginId: string, trigger: LoadTrigger, load: () => Promise<T>): Promise<T> {
+        const wasLoaded = isPluginLoaded(this.ctx.app, pluginId);
+        const start = performance.now();
+        const result = await load();
+        if (!wasLoaded && isPluginLoaded(this.ctx.app, pluginId)) {
+            this.record(pluginId, { durationMs: Math.round(performance.now() - start), timestamp: Date.now(), trigger });
+        }
+        return result;
+    }
+
+    record(pluginId: string, sample: LoadTimeSample): void {
+        const samples = [...(this.history[pluginId] ?? []), sample];
+        this.history[pluginId] = samples.slice(-LOAD_TIME_HISTORY_SIZE);
+        this.saveTimer ??= window.setTimeout(() => this.flush(), STATS_SAVE_DELAY_MS);
+    }
+
+    /** Write samples that are still waiting for the batched save, e.g. on unload. */
+    flush(): void {
+        if (this.saveTimer === null) return;
+        window.clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        saveLocalStorage(this.ctx.app, "loadTimes", this.history);
+    }
+
+    getHistory(pluginId: string): LoadTimeSample[] {
+        return this.history[pluginId] ?? [];
+    }
+
+    getStats(pluginId: string): LoadTimeStats | null {
+        return summarizeLoadTimes(this.getHistory(pluginId));
+    }
+}
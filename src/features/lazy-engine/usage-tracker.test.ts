@@ -0,0 +1,65 @@
+import type { PluginContext } from "src/core/plugin-context";
+import { UsageTracker } from "src/features/lazy-engine/usage-tracker";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const storage = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock("src/core/storage", () => ({
+    loadLocalStorage: (_app: unknown, prefix: string) => storage.get(prefix),
+    saveLocalStorage: (_app: unknown, prefix: string, value: unknown) => storage.set(prefix, structuredClone(value)),
+}));
+
+describe("UsageTracker", () => {
+    let tracker: UsageTracker;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal("window", { setTimeout, clearTimeout });
+        storage.clear();
+        tracker = new UsageTracker({ app: {} } as unknown as PluginContext);
+        tracker.loadFromData();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it("counts uses per kind and remembers the last one", () => {
+        tracker.record("dataview", "command", 100);
+        tracker.record("dataview", "command", 300);
+        tracker.record("dataview", "view", 200);
+
+        expect(tracker.get("dataview", "command")).toEqual({ count: 2, lastUsedAt: 300, recentUses: [100, 300] });
+        expect(tracker.get("dataview", "file")).toBeUndefined();
+        expect(tracker.getTotal("dataview")).toEqual({ count: 3, lastUsedAt: 300 });
+    });
+
+    it("reports never-used plugins with zero counts", () => {
+        expect(tracker.getTotal("unused")).toEqual({ count: 0, lastUsedAt: 0 });
+    });
+
+    it("counts the uses of the last week across kinds", () => {
+        const day = 24 * 60 * 60 * 1000;
+        tracker.record("dataview", "command", 0);
+        tracker.record("dataview", "view", 5 * day);
+        tracker.record("dataview", "command", 9 * day);
+
+        expect(tracker.getUsesSince("dataview", 2 * day)).toBe(2);
+        // Uses older than a week are dropped when the next one is recorded.
+        expect(tracker.get("dataview", "command")?.recentUses).toEqual([9 * day]);
+        expect(tracker.getUsesSince("unused", 0)).toBe(0);
+    });
+
+    it("persists to vault-scoped storage once the batched save runs", () => {
+        tracker.record("excalidraw", "file", 42);
+        expect(storage.has("usageStats")).toBe(false);
+        vi.runAllTimers();
+
+        const reloaded = new UsageTracker({ app: {} } as unknown as PluginContext);
+        reloaded.loadFromData();
+
+        expect(storage.has("usageStats")).toBe(true);
+        expect(reloaded.get("excalidraw", "file")).toEqual({ count: 1, lastUsedAt: 42, recentUses: [42] });
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * usage-tracker.ts — How often lazy plugins are actually needed.
+ *
+ * LazyCommandRunner counts lazy command invocations and the view and file
+ * loaders count activations that had to load their plugin. Counts, the time of
+ * the last use and the uses of the last week are kept per plugin and kind in
+ * vault-scoped local storage, next to the command cache, so unused plugins
+ * stand out in the settings list. Writes are batched like the load profiler's.
+ */
+import { STATS_SAVE_DELAY_MS } from "src/core/constants";
+import type { PluginContext } from "src/core/plugin-context";
+import { loadLocalStorage, saveLocalStorage } from "src/core/storage";
+import type { UsageCounter, UsageKind, UsageStats } from "src/core/types";
+
+/** Uses older than this are dropped from `recentUses`. */
+const RECENT_USE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class UsageTracker {
+    private stats: UsageStats = {};
+    private saveTimer: number | null = null;
+
+    private ctx: PluginContext;
+
+    constructor(ctx: PluginContext) {
+        this.ctx = ctx;
+    }
+
+    loadFromData(): void {
+        const source = loadLocalStorage<UsageStats>(this.ctx.app, "usageStats");
+        this.stats = source && typeof source === "object" ? source : {};
+    }
+
+    record(pluginId: string, kind: UsageKind, now = Date.now()): void {
+        const usage = (this.stats[pluginId] ??= {});
+        const counter = usage[kind];
+        const recentUses = [...(counter?.recentUses ?? []).filter((time) => time > now - RECENT_USE_WINDOW_MS), now];
+        usage[kind] = { count: (counter?.count ?? 0) + 1, lastUsedAt: now, recentUses };
+        this.saveTimer ??= window.setTimeout(() => this.flush(), STATS_SAVE_DELAY_MS);
+    }
+
+    /** Write uses that are still waiting for the batched save, e.g. on unload. */
+    flush(): void {
+        if (this.saveTimer === null) return;
+        window.clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        saveLocalStorage(this.ctx.app, "usageStats", this.stats);
+    }
+
+    get(pluginId: string, kind: UsageKind): UsageCounter | undefined {
+        return this.stats[pluginId]?.[kind];
+    }
+
+    /** Uses of all kinds combined; `lastUsedAt` is 0 when the plugin was never used. */
+    getTotal(pluginId: string): UsageCounter {
+        const counters = Object.values(this.stats[pluginId] ?? {});
+        return {
+            count: counters.reduce((sum, counter) => sum + counter.count, 0),
+            lastUsedAt: Math.max(0, ...counters.map((counter) => counter.lastUsedAt)),
+        };
+    }
+
+    /** Uses of all kinds at or after `since`; only the last week is kept. */
+    getUsesSince(pluginId: string, since: number): number {
+        return Object.values(this.stats[pluginId] ?? {}).reduce((sum, counter) => sum + (counter.recentUses ?? []).filter((time) => time >= since).length, 0);
+    }
+}
@@ -1,5 +1,7 @@
+import { FeatureEvents } from "src/core/event-bus";
 import { PLUGIN_MODE } from "src/core/types";
 import { MaintenanceFeature } from "src/features/maintenance/maintenance-feature";
+import type { Mock } from "vitest";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 describe("MaintenanceFeature", () => {
@@ -15,6 +17,7 @@ describe("MaintenanceFeature", () => {
         saveSettings: ReturnType<typeof vi.fn>;
         _plugin: { manifest: { id: string } };
     };
+    let mockEvents: { emit: Mock<(event: string, payload: unknown) => Promise<void>>; on: ReturnType<typeof vi.fn> };
     let mockRegistry: {
         loadEnabledPluginsFromDisk: ReturnType<typeof vi.fn>;
         writeCommunityPluginsFile: ReturnType<typeof vi.fn>;
@@ -48,10 +51,23 @@ describe("MaintenanceFeature", () => {
         };
 
         feature = new MaintenanceFeature();
-        const mockEvents = { emit: vi.fn(), on: vi.fn() };
+        mockEvents = { emit: vi.fn<(event: string, payload: unknown) => Promise<void>>(), on: vi.fn() };
         feature.onload(mockCtx as never, { registry: mockRegistry } as never, {} as never, mockEvents as never);
     });
 
+    describe("rebuildAndApplyCommandCache", () => {
+        it("should return the report of the rebuild, not of the apply that follows it", async () => {
+            const rebuildReport = { plugins: [{ pluginId: "plugin-1" }] };
+            mockEvents.emit.mockImplementation((_event, payload) => {
+                (payload as { onReport: (report: unknown) => void }).onReport(rebuildReport);
+                return Promise.resolve();
+            });
+
+            await expect(feature.rebuildAndApplyCommandCache({ force: true })).resolves.toBe(rebuildReport);
+            expect(mockEvents.emit).toHaveBeenCalledWith(FeatureEvents.REBUILD_CACHE_REQUESTED, expect.objectContaining({ force: true }));
+        });
+    });
+
     describe("applyBatchModeReplace", () => {
         it("should replace modes for matching plugins", () => {
             const changed = feature.applyBatchModeReplace(PLUGIN_MODE.ALWAYS_DISABLED, PLUGIN_MODE.LAZY);
@@ -67,6 +83,19 @@ describe("MaintenanceFeature", () => {
         });
     });
 
+    describe("applyModeRecommendations", () => {
+        it("should stage recommended modes that still match the current mode", () => {
+            const changed = feature.applyModeRecommendations([
+                { pluginId: "plugin-2", from: PLUGIN_MODE.ALWAYS_ENABLED, to: PLUGIN_MODE.LAZY, reason: "" },
+                { pluginId: "plugin-1", from: PLUGIN_MODE.LAZY, to: PLUGIN_MODE.ALWAYS_DISABLED, reason: "" },
+            ]);
+
+            expect(changed).toBe(1);
+            expect(mockCtx.getSettings().plugins["plugin-2"]).toEqual({ mode: PLUGIN_MODE.LAZY, userConfigured: true });
+            expect(mockCtx.getSettings().plugins["plugin-1"].mode).toBe(PLUGIN_MODE.ALWAYS_DISABLED);
+        });
+    });
+
     describe("executeSync coreToLazy", () => {
         it("should sync from disk to lazy settings", async () => {
             // plugin-1 is on disk but ALWAYS_DISABLED -> should become ALWAYS_ENABLED
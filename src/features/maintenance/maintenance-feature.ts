@@ -4,6 +4,11 @@ import type { AppFeature } from "src/core/feature";
 import type { FeatureManager } from "src/core/feature-manager";
 import type { PluginContext } from "src/core/plugin-context";
 import { PLUGIN_MODE } from "src/core/types";
+import { isPluginLoaded } from "src/core/utils";
+import type { CacheDiffReport } from "src/features/lazy-engine/command-cache/cache-diff";
+import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
+import type { ModeRecommendation, PluginSignals } from "src/features/maintenance/mode-recommendations";
+import { recommendModes } from "src/features/maintenance/mode-recommendations";
 import type { CoreContainer } from "src/services/core-container";
 import type { PluginRegistry } from "src/services/registry/plugin-registry";
 
@@ -23,17 +28,29 @@ export class MaintenanceFeature implements AppFeature {
     private ctx!: PluginContext;
     private registry!: PluginRegistry;
     private events!: EventBus;
+    private features!: FeatureManager;
 
     onload(ctx: PluginContext, core: CoreContainer, features: FeatureManager, events: EventBus) {
         this.ctx = ctx;
         this.registry = core.registry;
         this.events = events;
+        this.features = features;
     }
 
     onunload() {}
 
-    async rebuildAndApplyCommandCache(options?: { force?: boolean }) {
-        await this.events.emit(FeatureEvents.REBUILD_CACHE_REQUESTED, options);
+    /** @returns what the rebuild changed in the command cache, when the lazy engine is running. */
+    async rebuildAndApplyCommandCache(options?: { force?: boolean }): Promise<CacheDiffReport | null> {
+        let report: CacheDiffReport | null = null;
+        await this.events.emit(FeatureEvents.REBUILD_CACHE_REQUESTED, {
+            ...options,
+            onReport: (rebuilt: CacheDiffReport) => (report = rebuilt),
+        });
+        return report;
+    }
+
+    getLastCacheDiffReport(): CacheDiffReport | null {
+        return this.features.get(LazyEngineFeature)?.commandCache.getLastDiffReport() ?? null;
     }
 
     async buildSyncPreview(direction: SyncDirection): Promise<SyncPreviewResult> {
@@ -138,6 +155,60 @@ export class MaintenanceFeature implements AppFeature {
         return changed;
     }
 
+    /** Suggested mode changes for installed plugins, based on what was observed about each of them. */
+    getModeRecommendations(now = Date.now()): ModeRecommendation[] {
+        const selfId = this.ctx._plugin.manifest.id;
+        const signals = this.ctx
+            .getManifests()
+            .filter((m) => m.id !== selfId)
+            .map((m) => this.collectSignals(m.id, now));
+        return recommendModes(signals, now);
+    }
+
+    /** Stage the given recommendations, keeping the other per-plugin settings. */
+    applyModeRecommendations(recommendations: ModeRecommendation[]): number {
+        const settings = this.ctx.getSettings();
+        let changed = 0;
+
+        for (const { pluginId, from, to } of recommendations) {
+            // Skip suggestions that no longer match the staged mode.
+            if (this.ctx.getPluginMode(pluginId) !== from) continue;
+            settings.plugins[pluginId] = { ...settings.plugins[pluginId], mode: to, userConfigured: true };
+            changed++;
+        }
+        return changed;
+    }
+
+    private collectSignals(pluginId: string, now: number): PluginSignals {
+        // LazyEngineFeature loads after this feature, so it is looked up on use.
+        const lazyEngine = this.features.get(LazyEngineFeature);
+        const commandCache = lazyEngine?.commandCache;
+        const settings = this.ctx.getSettings();
+        const pluginSettings = settings.plugins[pluginId];
+        const lazyOptions = pluginSettings?.lazyOptions;
+        const registrations = commandCache?.getKnownRegistrations(pluginId);
+
+        const liveCommandCount = isPluginLoaded(this.ctx.app, pluginId) ? Object.keys(this.ctx.obsidianCommands.commands).filter((id) => id.startsWith(`${pluginId}:`)).length : 0;
+        const viewTypes = new Set([...(lazyOptions?.useView ? lazyOptions.viewTypes : []), ...(settings.lazyOnViews?.[pluginId] ?? [])]);
+
+        const weekAgo = now - 7 * 24 * 60 * 60 * 1000;
+        const usage = lazyEngine?.usageTracker;
+
+        return {
+            pluginId,
+            mode: this.ctx.getPluginMode(pluginId),
+            hasRegistrationData: Boolean(commandCache?.hasCommandCache(pluginId) || registrations),
+            commandCount: Math.max(commandCache?.getCachedCommandCount(pluginId) ?? 0, liveCommandCount),
+            viewTypeCount: viewTypes.size,
+            hasFileRules: Boolean(lazyOptions?.useFile || lazyOptions?.useExtensions),
+            hasOtherTriggers: Boolean(registrations?.protocolActions?.length || registrations?.ribbonIcons?.length || registrations?.codeBlockLanguages?.length || registrations?.settingTabs?.length || registrations?.menuItems?.length),
+            backgroundHooks: registrations?.backgroundHooks ?? [],
+            medianLoadMs: lazyEngine?.loadProfiler.getStats(pluginId)?.medianMs,
+            lastUsedAt: usage?.getTotal(pluginId).lastUsedAt || undefined,
+            usesLastWeek: usage?.getUsesSince(pluginId, weekAgo) ?? 0,
+        };
+    }
+
     private getAlwaysEnabledIds(): string[] {
         const ids = this.ctx
             .getManifests()
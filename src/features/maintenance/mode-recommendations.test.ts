@@ -0,0 +1,73 @@
+import { PLUGIN_MODE } from "src/core/types";
+import type { PluginSignals } from "src/features/maintenance/mode-recommendations";
+import { recommendMode, recommendModes } from "src/features/maintenance/mode-recommendations";
+import { describe, expect, it } from "vitest";
+
+const NOW = Date.UTC(2026, 0, 31);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function signals(overrides: Partial<PluginSignals>): PluginSignals {
+    return {
+        pluginId: "plugin",
+        mode: PLUGIN_MODE.LAZY,
+        hasRegistrationData: true,
+        commandCount: 1,
+        viewTypeCount: 0,
+        hasFileRules: false,
+        hasOtherTriggers: false,
+        backgroundHooks: [],
+        usesLastWeek: 0,
+        ...overrides,
+    };
+}
+
+describe("recommendMode", () => {
+    it("moves lazy plugins with background hooks to layout ready", () => {
+        const recommendation = recommendMode(signals({ backgroundHooks: ["vault:modify"] }), NOW);
+
+        expect(recommendation).toMatchObject({ from: PLUGIN_MODE.LAZY, to: PLUGIN_MODE.LAZY_ON_LAYOUT_READY });
+        expect(recommendation?.reason).toContain("vault:modify");
+    });
+
+    it("disables lazy plugins not used in 30 days", () => {
+        expect(recommendMode(signals({ lastUsedAt: NOW - 31 * DAY_MS }), NOW)?.to).toBe(PLUGIN_MODE.ALWAYS_DISABLED);
+        expect(recommendMode(signals({ lastUsedAt: NOW - 29 * DAY_MS }), NOW)).toBeNull();
+    });
+
+    it("loads lazy plugins without any trigger after layout ready", () => {
+        expect(recommendMode(signals({ commandCount: 0 }), NOW)?.to).toBe(PLUGIN_MODE.LAZY_ON_LAYOUT_READY);
+        expect(recommendMode(signals({ commandCount: 0, hasRegistrationData: false }), NOW)).toBeNull();
+    });
+
+    it("loads frequently used lazy plugins on idle", () => {
+        expect(recommendMode(signals({ usesLastWeek: 6 }), NOW)?.to).toBe(PLUGIN_MODE.LAZY_ON_IDLE);
+    });
+
+    it("makes always-enabled plugins that only react to triggers lazy", () => {
+        expect(recommendMode(signals({ mode: PLUGIN_MODE.ALWAYS_ENABLED, medianLoadMs: 350 }), NOW)).toMatchObject({
+            to: PLUGIN_MODE.LAZY,
+            reason: "Only reacts to its commands, views or files and takes 350 ms to load",
+        });
+    });
+
+    it("defers slow always-enabled plugins with background hooks to layout ready", () => {
+        expect(recommendMode(signals({ mode: PLUGIN_MODE.ALWAYS_ENABLED, backgroundHooks: ["metadataCache:changed"], medianLoadMs: 500 }), NOW)?.to).toBe(PLUGIN_MODE.LAZY_ON_LAYOUT_READY);
+        expect(recommendMode(signals({ mode: PLUGIN_MODE.ALWAYS_ENABLED, backgroundHooks: ["metadataCache:changed"], medianLoadMs: 50 }), NOW)).toBeNull();
+    });
+
+    it("moves slow layout-ready plugins without background hooks to idle", () => {
+        expect(recommendMode(signals({ mode: PLUGIN_MODE.LAZY_ON_LAYOUT_READY, medianLoadMs: 800 }), NOW)?.to).toBe(PLUGIN_MODE.LAZY_ON_IDLE);
+    });
+
+    it("never suggests anything for always-disabled plugins", () => {
+        expect(recommendMode(signals({ mode: PLUGIN_MODE.ALWAYS_DISABLED, backgroundHooks: ["vault:create"] }), NOW)).toBeNull();
+    });
+});
+
+describe("recommendModes", () => {
+    it("keeps only plugins with a suggestion", () => {
+        const result = recommendModes([signals({ pluginId: "a" }), signals({ pluginId: "b", commandCount: 0 })], NOW);
+
+        expect(result.map((r) => r.pluginId)).toEqual(["b"]);
+    });
+});
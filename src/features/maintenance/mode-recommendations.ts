@@ -0,0 +1,98 @@
+/**
+ * mode-recommendations.ts — Suggested modes derived from observed behaviour.
+ *
+ * MaintenanceFeature collects what is known about each plugin (load times,
+ * captured commands, views, file rules, background hooks and on-demand
+ * usage) and this module turns it into at most one suggestion per plugin,
+ * reviewed in ToolsModal before anything changes.
+ */
+import { PLUGIN_MODE } from "src/core/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** A lazy plugin not used for this long is suggested to be disabled. */
+const UNUSED_AFTER_MS = 30 * DAY_MS;
+/** Loads above this median are considered worth deferring. */
+const SLOW_LOAD_MS = 200;
+/** A lazy plugin loaded on demand this often in the last week is suggested to load on idle. */
+const FREQUENT_USE_PER_WEEK = 5;
+
+export interface PluginSignals {
+    pluginId: string;
+    mode: PLUGIN_MODE;
+    /** Whether registrations were observed at all, so an empty list means "none" rather than "unknown". */
+    hasRegistrationData: boolean;
+    commandCount: number;
+    viewTypeCount: number;
+    hasFileRules: boolean;
+    /** Ribbon icons, protocol handlers, code blocks, settings tabs or menu items. */
+    hasOtherTriggers: boolean;
+    /** Hooks that only run while the plugin is loaded, e.g. `vault:modify` or `interval`. */
+    backgroundHooks: string[];
+    medianLoadMs?: number;
+    /** Last use recorded by the usage tracker: a lazy command, or a view or file that loaded the plugin. */
+    lastUsedAt?: number;
+    /** Uses recorded by the usage tracker in the last 7 days. */
+    usesLastWeek: number;
+}
+
+export interface ModeRecommendation {
+    pluginId: string;
+    from: PLUGIN_MODE;
+    to: PLUGIN_MODE;
+    reason: string;
+}
+
+function formatHooks(hooks: string[]): string {
+    return `${hooks.slice(0, 2).join(", ")}${hooks.length > 2 ? ", …" : ""}`;
+}
+
+/**
+ * Suggest a mode for a single plugin, or null when its current mode fits.
+ * Rules are checked in order; the first match wins.
+ */
+export function recommendMode(signals: PluginSignals, now: number): ModeRecommendation | null {
+    const { pluginId, mode, backgroundHooks, medianLoadMs = 0 } = signals;
+    const suggest = (to: PLUGIN_MODE, reason: string): ModeRecommendation => ({ pluginId, from: mode, to, reason });
+    const hasTriggers = signals.commandCount > 0 || signals.viewTypeCount > 0 || signals.hasFileRules || signals.hasOtherTriggers;
+    const slow = medianLoadMs >= SLOW_LOAD_MS ? ` and takes ${Math.round(medianLoadMs)} ms to load` : "";
+
+    if (mode === PLUGIN_MODE.LAZY) {
+        if (backgroundHooks.length) {
+            return suggest(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, `Installs background hooks (${formatHooks(backgroundHooks)}), which only run while it is loaded`);
+        }
+        if (signals.lastUsedAt !== undefined && now - signals.lastUsedAt > UNUSED_AFTER_MS) {
+            return suggest(PLUGIN_MODE.ALWAYS_DISABLED, `Not used in the last ${UNUSED_AFTER_MS / DAY_MS} days`);
+        }
+        if (signals.hasRegistrationData && !hasTriggers) {
+            return suggest(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, "Registers no commands, views or other triggers, so nothing can load it on demand");
+        }
+        if (signals.usesLastWeek >= FREQUENT_USE_PER_WEEK) {
+            return suggest(PLUGIN_MODE.LAZY_ON_IDLE, `Loaded on demand ${signals.usesLastWeek} times in the last week; loading it on idle avoids the wait`);
+        }
+        return null;
+    }
+
+    if (mode === PLUGIN_MODE.ALWAYS_ENABLED) {
+        if (!signals.hasRegistrationData) return null;
+        if (backgroundHooks.length) {
+            return slow ? suggest(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, `Needs to run in the background${slow}; loading it after layout ready keeps startup fast`) : null;
+        }
+        if (hasTriggers) {
+            return suggest(PLUGIN_MODE.LAZY, `Only reacts to its commands, views or files${slow}`);
+        }
+        return slow ? suggest(PLUGIN_MODE.LAZY_ON_IDLE, `Has no triggers or background hooks${slow}`) : null;
+    }
+
+    if (mode === PLUGIN_MODE.LAZY_ON_LAYOUT_READY) {
+        if (signals.hasRegistrationData && !backgroundHooks.length && slow) {
+            return suggest(PLUGIN_MODE.LAZY_ON_IDLE, `Has no background hooks${slow}; loading it on idle keeps the workspace responsive`);
+        }
+        return null;
+    }
+
+    return null;
+}
+
+export function recommendModes(signals: PluginSignals[], now = Date.now()): ModeRecommendation[] {
+    return signals.map((s) => recommendMode(s, now)).filter((r): r is ModeRecommendation => r !== null);
+}
@@ -0,0 +1,77 @@
+import type { App } from "obsidian";
+import * as storageMs from "src/core/storage";
+import { PLUGIN_MODE } from "src/core/types";
+import type { ApplyJournal } from "src/features/startup-policy/apply-journal";
+import { APPLY_STEP, ApplyJournalStore, parseApplyJournal, planRollback } from "src/features/startup-policy/apply-journal";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../core/storage");
+
+const start = {
+    startedAt: 1_000,
+    pluginIds: ["a", "b"],
+    intendedModes: { a: PLUGIN_MODE.LAZY, b: PLUGIN_MODE.ALWAYS_ENABLED },
+    intendedCommunityPlugins: ["b", "on-demand-plugins"],
+    originalCommunityPlugins: ["a", "on-demand-plugins"],
+    originalEnabledPlugins: ["a", "on-demand-plugins"],
+    originalRunningPlugins: ["a"],
+};
+
+describe("parseApplyJournal", () => {
+    it("accepts a journal and rejects anything else", () => {
+        const journal: ApplyJournal = { ...start, completedSteps: [APPLY_STEP.PLUGINS_LOADED], appliedPluginIds: ["a"] };
+
+        expect(parseApplyJournal(journal)).toEqual(journal);
+        expect(parseApplyJournal({ ...journal, pluginIds: null })).not.toBeNull();
+        expect(parseApplyJournal(undefined)).toBeNull();
+        expect(parseApplyJournal({ ...journal, originalCommunityPlugins: "a" })).toBeNull();
+        expect(parseApplyJournal({ ...journal, startedAt: "yesterday" })).toBeNull();
+        expect(parseApplyJournal({ ...journal, originalModes: { a: PLUGIN_MODE.ALWAYS_ENABLED } })).not.toBeNull();
+        expect(parseApplyJournal({ ...journal, originalModes: "lazy" })).toBeNull();
+    });
+});
+
+describe("planRollback", () => {
+    it("stops plugins the apply started and restarts the ones it stopped", () => {
+        const journal: ApplyJournal = { ...start, originalRunningPlugins: ["a", "c", "self"], completedSteps: [], appliedPluginIds: [] };
+
+        expect(planRollback(journal, ["a", "b", "self"], "self")).toEqual({ disable: ["b"], enable: ["c"] });
+    });
+});
+
+describe("ApplyJournalStore", () => {
+    const app = {} as App;
+    let stored: unknown;
+
+    beforeEach(() => {
+        vi.resetAllMocks();
+        stored = undefined;
+        vi.mocked(storageMs.saveLocalStorage).mockImplementation((_app, _key, value) => {
+            stored = structuredClone(value);
+            return true;
+        });
+        vi.mocked(storageMs.loadLocalStorage).mockImplementation(() => stored);
+    });
+
+    it("writes the journal before the apply and after every step", () => {
+        const store = new ApplyJournalStore(app);
+        store.begin(start);
+        expect(stored).toMatchObject({ ...start, completedSteps: [], appliedPluginIds: [] });
+
+        store.completeStep(APPLY_STEP.PLUGINS_LOADED);
+        store.markPluginApplied("a");
+        store.markPluginApplied("a");
+
+        expect(stored).toMatchObject({ completedSteps: [APPLY_STEP.PLUGINS_LOADED], appliedPluginIds: ["a"] });
+        expect(new ApplyJournalStore(app).loadUnfinished()).toMatchObject({ appliedPluginIds: ["a"] });
+    });
+
+    it("no longer reports the journal as unfinished once completed", () => {
+        const store = new ApplyJournalStore(app);
+        store.begin(start);
+        store.complete({ rolledBack: true });
+
+        expect(new ApplyJournalStore(app).loadUnfinished()).toBeNull();
+        expect(new ApplyJournalStore(app).load()).toMatchObject({ rolledBack: true });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * apply-journal.ts — Record of an apply in progress, so one that was cut short
+ * by a crash or a cancel can be rolled back or resumed.
+ *
+ * The journal lives in local storage: it describes this device's running
+ * plugins and is written synchronously, so it survives a crash mid-apply.
+ */
+import type { App } from "obsidian";
+import { loadLocalStorage, saveLocalStorage } from "src/core/storage";
+import type { PLUGIN_MODE } from "src/core/types";
+
+export const APPLY_STEP = {
+    PLUGINS_LOADED: "pluginsLoaded",
+    SETTINGS_SAVED: "settingsSaved",
+    PLUGINS_APPLIED: "pluginsApplied",
+    COMMUNITY_PLUGINS_WRITTEN: "communityPluginsWritten",
+} as const;
+
+export type APPLY_STEP = (typeof APPLY_STEP)[keyof typeof APPLY_STEP];
+
+export interface ApplyJournal {
+    startedAt: number;
+    /** Plugins the apply covers; null when it covers every plugin. */
+    pluginIds: string[] | null;
+    /** Modes the apply switches the covered plugins to. */
+    intendedModes: Record<string, PLUGIN_MODE>;
+    /** community-plugins.json once the apply is done. */
+    intendedCommunityPlugins: string[];
+    /** community-plugins.json before the apply. */
+    originalCommunityPlugins: string[];
+    /** Obsidian's in-memory enabled set before the apply. */
+    originalEnabledPlugins: string[];
+    /** Plugins that were loaded before the apply. */
+    originalRunningPlugins: string[];
+    /** Modes of the covered plugins before they were changed; absent when the apply changed none. */
+    originalModes?: Record<string, PLUGIN_MODE>;
+    completedSteps: APPLY_STEP[];
+    appliedPluginIds: string[];
+    completedAt?: number;
+    rolledBack?: boolean;
+}
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/** @returns the journal, or null when `raw` is missing or not a journal. */
+export function parseApplyJournal(raw: unknown): ApplyJournal | null {
+    if (!raw || typeof raw !== "object") return null;
+    const journal = raw as Partial<ApplyJournal>;
+    if (typeof journal.startedAt !== "number") return null;
+    if (journal.pluginIds !== null && !isStringArray(journal.pluginIds)) return null;
+    if (!journal.intendedModes || typeof journal.intendedModes !== "object") return null;
+    if (journal.originalModes !== undefined && (!journal.originalModes || typeof journal.originalModes !== "object")) return null;
+    const lists = [journal.intendedCommunityPlugins, journal.originalCommunityPlugins, journal.originalEnabledPlugins, journal.originalRunningPlugins, journal.completedSteps, journal.appliedPluginIds];
+    if (!lists.every(isStringArray)) return null;
+    return journal as ApplyJournal;
+}
+
+/**
+ * What rolling back a cut-short apply in the running session involves.
+ * @param runningPlugins - Plugins loaded right now
+ */
+export function planRollback(journal: ApplyJournal, runningPlugins: string[], selfId: string): { disable: string[]; enable: string[] } {
+    const before = new Set(journal.originalRunningPlugins);
+    const running = new Set(runningPlugins);
+    return {
+        disable: runningPlugins.filter((id) => id !== selfId && !before.has(id)),
+        enable: journal.originalRunningPlugins.filter((id) => id !== selfId && !running.has(id)),
+    };
+}
+
+export class ApplyJournalStore {
+    // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
+    private app: App;
+    private journal: ApplyJournal | null = null;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /** The last journal written on this device, finished or not. */
+    load(): ApplyJournal | null {
+        this.journal = parseApplyJournal(loadLocalStorage(this.app, "applyJournal"));
+        return this.journal;
+    }
+
+    /** The last journal if its apply never finished. */
+    loadUnfinished(): ApplyJournal | null {
+        const journal = this.load();
+        return journal && journal.completedAt === undefined ? journal : null;
+    }
+
+    begin(journal: Omit<ApplyJournal, "completedSteps" | "appliedPluginIds">) {
+        this.journal = { ...journal, completedSteps: [], appliedPluginIds: [] };
+        this.write();
+    }
+
+    completeStep(step: APPLY_STEP) {
+        if (!this.journal || this.journal.completedSteps.includes(step)) return;
+        this.journal.completedSteps.push(step);
+        this.write();
+    }
+
+    markPluginApplied(pluginId: string) {
+        if (!this.journal || this.journal.appliedPluginIds.includes(pluginId)) return;
+        this.journal.appliedPluginIds.push(pluginId);
+        this.write();
+    }
+
+    complete(options?: { rolledBack?: boolean }) {
+        if (!this.journal) return;
+        this.journal.completedAt = Date.now();
+        if (options?.rolledBack) this.journal.rolledBack = true;
+        this.write();
+    }
+
+    private write() {
+        saveLocalStorage(this.app, "applyJournal", this.journal);
+    }
+}
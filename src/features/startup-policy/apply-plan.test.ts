@@ -0,0 +1,77 @@
+import type { PluginManifest } from "obsidian";
+import { ON_DEMAND_PLUGIN_ID } from "src/core/constants";
+import type { PluginSettings } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
+import type { ApplyPlanInput } from "src/features/startup-policy/apply-plan";
+import { buildApplyPlan, getStartupEnabledPlugins } from "src/features/startup-policy/apply-plan";
+import { describe, expect, it } from "vitest";
+
+const manifest = (id: string) => ({ id, name: id.toUpperCase() }) as PluginManifest;
+
+function makeInput(modes: Record<string, PLUGIN_MODE>, overrides: Partial<ApplyPlanInput> = {}): ApplyPlanInput {
+    return {
+        pluginIds: Object.keys(modes),
+        manifests: Object.keys(modes).map(manifest),
+        plugins: {},
+        getPluginMode: (pluginId) => modes[pluginId] ?? PLUGIN_MODE.ALWAYS_DISABLED,
+        isRunning: () => false,
+        isCacheValid: () => true,
+        communityPlugins: [],
+        layoutReady: true,
+        ...overrides,
+    };
+}
+
+describe("getStartupEnabledPlugins", () => {
+    it("lists always-enabled plugins and On-Demand, sorted", () => {
+        const ids = getStartupEnabledPlugins([manifest("zeta"), manifest("alpha"), manifest("lazy")], (id) => (id === "lazy" ? PLUGIN_MODE.LAZY : PLUGIN_MODE.ALWAYS_ENABLED));
+
+        expect(ids).toEqual(["alpha", ON_DEMAND_PLUGIN_ID, "zeta"].sort((a, b) => a.localeCompare(b)));
+    });
+});
+
+describe("buildApplyPlan", () => {
+    it("only plans the pending plugins", () => {
+        const plan = buildApplyPlan(makeInput({ a: PLUGIN_MODE.LAZY, b: PLUGIN_MODE.LAZY }, { pluginIds: ["b"] }));
+
+        expect(plan.plugins.map((p) => p.pluginId)).toEqual(["b"]);
+    });
+
+    it("describes where each plugin ends up", () => {
+        const plan = buildApplyPlan(
+            makeInput(
+                {
+                    enabled: PLUGIN_MODE.ALWAYS_ENABLED,
+                    lazy: PLUGIN_MODE.LAZY,
+                    idle: PLUGIN_MODE.LAZY_ON_IDLE,
+                },
+                { isRunning: (id) => id === "lazy", communityPlugins: ["lazy"] },
+            ),
+        );
+
+        expect(plan.plugins.map(({ pluginId, runningNow, after, startsWithObsidian }) => ({ pluginId, runningNow, after, startsWithObsidian }))).toEqual([
+            { pluginId: "enabled", runningNow: false, after: "running", startsWithObsidian: { before: false, after: true } },
+            { pluginId: "lazy", runningNow: true, after: "stopped", startsWithObsidian: { before: true, after: false } },
+            { pluginId: "idle", runningNow: false, after: "later", startsWithObsidian: { before: false, after: false } },
+        ]);
+        expect(plan.communityPlugins).toEqual({ before: ["lazy"], after: ["enabled", ON_DEMAND_PLUGIN_ID].sort((a, b) => a.localeCompare(b)) });
+    });
+
+    it("enables lazy on view plugins for capture unless their views are already known", () => {
+        const plugins: Record<string, PluginSettings> = {
+            fresh: { lazyOptions: { useView: true, viewTypes: [], useFile: false, fileCriteria: {} } },
+            known: { lazyOptions: { useView: true, viewTypes: ["graph"], useFile: false, fileCriteria: {} } },
+            stopped: { lazyOptions: { useView: true, viewTypes: ["graph"], useFile: false, fileCriteria: {} } },
+            plain: { lazyOptions: { useView: false, viewTypes: [], useFile: false, fileCriteria: {} } },
+        };
+        const plan = buildApplyPlan(makeInput({ fresh: PLUGIN_MODE.LAZY, known: PLUGIN_MODE.LAZY, stopped: PLUGIN_MODE.LAZY, plain: PLUGIN_MODE.LAZY }, { plugins, isRunning: (id) => id !== "stopped" }));
+
+        expect(plan.viewCapturePluginIds).toEqual(["fresh", "stopped"]);
+    });
+
+    it("rebuilds missing or stale command caches of lazy plugins only", () => {
+        const plan = buildApplyPlan(makeInput({ lazy: PLUGIN_MODE.LAZY, idle: PLUGIN_MODE.LAZY_ON_IDLE, valid: PLUGIN_MODE.LAZY, enabled: PLUGIN_MODE.ALWAYS_ENABLED }, { isCacheValid: (id) => id === "valid" }));
+
+        expect(plan.cacheRebuildPluginIds).toEqual(["lazy", "idle"]);
+    });
+});
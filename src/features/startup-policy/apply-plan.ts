@@ -0,0 +1,89 @@
+/**
+ * apply-plan.ts — What applying the pending plugin modes will do, worked out
+ * up front from the current settings and app state without touching either.
+ */
+import type { PluginManifest } from "obsidian";
+import { ON_DEMAND_PLUGIN_ID } from "src/core/constants";
+import type { PluginSettings } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
+import { isLazyMode } from "src/core/utils";
+import { expectRunningAfterApply } from "src/features/startup-policy/hot-apply";
+
+/** State of a plugin once the apply finished; "later" when its mode loads it on its own afterwards. */
+export type PlannedPluginState = "running" | "stopped" | "later";
+
+export interface PluginApplyPlan {
+    pluginId: string;
+    name: string;
+    mode: PLUGIN_MODE;
+    runningNow: boolean;
+    after: PlannedPluginState;
+    /** Enabled during the apply so the views it registers can be captured. */
+    enabledForViewCapture: boolean;
+    /** Its cached commands are missing or stale and are rebuilt, which loads it if it is not running. */
+    rebuildsCache: boolean;
+    startsWithObsidian: { before: boolean; after: boolean };
+}
+
+export interface ApplyPlan {
+    plugins: PluginApplyPlan[];
+    viewCapturePluginIds: string[];
+    cacheRebuildPluginIds: string[];
+    communityPlugins: { before: string[]; after: string[] };
+}
+
+export interface ApplyPlanInput {
+    pluginIds: string[];
+    manifests: PluginManifest[];
+    plugins: Record<string, PluginSettings>;
+    getPluginMode: (pluginId: string) => PLUGIN_MODE;
+    isRunning: (pluginId: string) => boolean;
+    isCacheValid: (pluginId: string) => boolean;
+    /** Current contents of community-plugins.json. */
+    communityPlugins: string[];
+    layoutReady: boolean;
+}
+
+/** Plugins Obsidian should start itself: the always-enabled ones and On-Demand. */
+export function getStartupEnabledPlugins(manifests: PluginManifest[], getPluginMode: (pluginId: string) => PLUGIN_MODE): string[] {
+    const ids = new Set(manifests.filter((p) => getPluginMode(p.id) === PLUGIN_MODE.ALWAYS_ENABLED).map((p) => p.id));
+    ids.add(ON_DEMAND_PLUGIN_ID);
+    return Array.from(ids).sort((a, b) => a.localeCompare(b));
+}
+
+export function buildApplyPlan(input: ApplyPlanInput): ApplyPlan {
+    const pending = new Set(input.pluginIds);
+    const before = [...input.communityPlugins].sort((a, b) => a.localeCompare(b));
+    const after = getStartupEnabledPlugins(input.manifests, input.getPluginMode);
+
+    const plugins = input.manifests
+        .filter((p) => pending.has(p.id) && p.id !== ON_DEMAND_PLUGIN_ID)
+        .map((manifest): PluginApplyPlan => {
+            const mode = input.getPluginMode(manifest.id);
+            const runningNow = input.isRunning(manifest.id);
+            const lazyOptions = input.plugins[manifest.id]?.lazyOptions;
+            const expectRunning = expectRunningAfterApply(mode, input.layoutReady);
+
+            // Mirrors the apply: a running plugin is reloaded when none of its views were captured yet.
+            const capturesViews = mode === PLUGIN_MODE.LAZY && lazyOptions?.useView === true;
+            const enabledForViewCapture = capturesViews && (!runningNow || !lazyOptions?.viewTypes?.length);
+
+            return {
+                pluginId: manifest.id,
+                name: manifest.name,
+                mode,
+                runningNow,
+                after: expectRunning === undefined ? "later" : expectRunning ? "running" : "stopped",
+                enabledForViewCapture,
+                rebuildsCache: isLazyMode(mode) && !input.isCacheValid(manifest.id),
+                startsWithObsidian: { before: before.includes(manifest.id), after: after.includes(manifest.id) },
+            };
+        });
+
+    return {
+        plugins,
+        viewCapturePluginIds: plugins.filter((p) => p.enabledForViewCapture).map((p) => p.pluginId),
+        cacheRebuildPluginIds: plugins.filter((p) => p.rebuildsCache).map((p) => p.pluginId),
+        communityPlugins: { before, after },
+    };
+}
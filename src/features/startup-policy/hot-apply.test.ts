@@ -0,0 +1,67 @@
+import { PLUGIN_MODE } from "src/core/types";
+import { expectRunningAfterApply, findReloadReasons, isOutOfPolicy } from "src/features/startup-policy/hot-apply";
+import { describe, expect, it } from "vitest";
+
+describe("expectRunningAfterApply", () => {
+    it("expects always-enabled plugins to run and lazy or disabled ones to stop", () => {
+        expect(expectRunningAfterApply(PLUGIN_MODE.ALWAYS_ENABLED, true)).toBe(true);
+        expect(expectRunningAfterApply(PLUGIN_MODE.LAZY, true)).toBe(false);
+        expect(expectRunningAfterApply(PLUGIN_MODE.ALWAYS_DISABLED, true)).toBe(false);
+    });
+
+    it("has no expectation for plugins that load later on their own", () => {
+        expect(expectRunningAfterApply(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, true)).toBe(true);
+        expect(expectRunningAfterApply(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, false)).toBeUndefined();
+        expect(expectRunningAfterApply(PLUGIN_MODE.LAZY_ON_IDLE, true)).toBeUndefined();
+    });
+});
+
+describe("isOutOfPolicy", () => {
+    it("flags plugins whose running state contradicts their mode", () => {
+        expect(isOutOfPolicy(PLUGIN_MODE.ALWAYS_DISABLED, true, true)).toBe(true);
+        expect(isOutOfPolicy(PLUGIN_MODE.ALWAYS_ENABLED, false, true)).toBe(true);
+        expect(isOutOfPolicy(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, false, true)).toBe(true);
+    });
+
+    it("leaves lazy plugins loaded on demand and plugins that load later alone", () => {
+        expect(isOutOfPolicy(PLUGIN_MODE.LAZY, true, true)).toBe(false);
+        expect(isOutOfPolicy(PLUGIN_MODE.LAZY, false, true)).toBe(false);
+        expect(isOutOfPolicy(PLUGIN_MODE.LAZY_ON_LAYOUT_READY, false, false)).toBe(false);
+        expect(isOutOfPolicy(PLUGIN_MODE.ALWAYS_ENABLED, true, true)).toBe(false);
+    });
+});
+
+describe("findReloadReasons", () => {
+    it("needs no reload when every plugin ended up as expected", () => {
+        const reasons = findReloadReasons(
+            [
+                { id: "a", name: "A", expectRunning: true, running: true },
+                { id: "b", name: "B", expectRunning: false, running: false },
+                { id: "c", name: "C", running: false },
+            ],
+            [{ id: "a", name: "A", dependsOn: [] }],
+        );
+
+        expect(reasons).toEqual([]);
+    });
+
+    it("reports plugins that failed to load or unload", () => {
+        const reasons = findReloadReasons(
+            [
+                { id: "a", name: "A", expectRunning: true, running: false, error: new Error("boom") },
+                { id: "b", name: "B", expectRunning: false, running: true, error: "busy" },
+                { id: "c", name: "C", expectRunning: false, running: true },
+                { id: "d", name: "D", expectRunning: true, running: false },
+            ],
+            [],
+        );
+
+        expect(reasons).toEqual(["A could not be loaded: boom", "B could not be unloaded: busy", "C is still running after being unloaded", "D did not finish loading"]);
+    });
+
+    it("reports running plugins that depend on a plugin that was stopped", () => {
+        const reasons = findReloadReasons([{ id: "api", name: "API", expectRunning: false, running: false }], [{ id: "consumer", name: "Consumer", dependsOn: ["api", "other"] }]);
+
+        expect(reasons).toEqual(["Consumer depends on API, which is no longer running"]);
+    });
+});
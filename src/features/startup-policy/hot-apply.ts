@@ -0,0 +1,80 @@
+/**
+ * hot-apply.ts — Decides whether an in-session apply left the app in a state
+ * that only a full reload can settle.
+ */
+import { PLUGIN_MODE } from "src/core/types";
+
+/** A plugin whose mode was applied in-session, as observed right afterwards. */
+export interface AppliedPlugin {
+    id: string;
+    name: string;
+    /** Whether the applied mode should leave the plugin running now; undefined when it loads later on its own. */
+    expectRunning?: boolean;
+    running: boolean;
+    error?: unknown;
+}
+
+/** A plugin left running after the apply, with the plugins it needs. */
+export interface RunningPlugin {
+    id: string;
+    name: string;
+    dependsOn: string[];
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    return typeof error === "string" ? error : "unknown error";
+}
+
+/** Whether a plugin in `mode` should be running right after its state is applied. */
+export function expectRunningAfterApply(mode: PLUGIN_MODE, layoutReady: boolean): boolean | undefined {
+    switch (mode) {
+        case PLUGIN_MODE.ALWAYS_ENABLED:
+            return true;
+        case PLUGIN_MODE.LAZY_ON_LAYOUT_READY:
+            return layoutReady ? true : undefined;
+        case PLUGIN_MODE.LAZY_ON_IDLE:
+            return undefined;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Whether applying a plugin's mode would change whether it runs. Lazy plugins
+ * loaded on demand this session are not out of line: only always-disabled
+ * plugins that run and plugins that should be running but are not count.
+ */
+export function isOutOfPolicy(mode: PLUGIN_MODE, running: boolean, layoutReady: boolean): boolean {
+    if (mode === PLUGIN_MODE.ALWAYS_DISABLED) return running;
+    return expectRunningAfterApply(mode, layoutReady) === true && !running;
+}
+
+/**
+ * @returns One reason per problem that needs a full reload, empty when the
+ * in-session apply is complete.
+ */
+export function findReloadReasons(applied: AppliedPlugin[], running: RunningPlugin[]): string[] {
+    const reasons: string[] = [];
+    for (const plugin of applied) {
+        if (plugin.error !== undefined) {
+            reasons.push(`${plugin.name} could not be ${plugin.expectRunning === false ? "unloaded" : "loaded"}: ${describeError(plugin.error)}`);
+        } else if (plugin.expectRunning === false && plugin.running) {
+            reasons.push(`${plugin.name} is still running after being unloaded`);
+        } else if (plugin.expectRunning === true && !plugin.running) {
+            reasons.push(`${plugin.name} did not finish loading`);
+        }
+    }
+
+    // A plugin that was set up against one of these may still hold references into it.
+    const stopped = new Map(applied.filter((plugin) => !plugin.running).map((plugin) => [plugin.id, plugin.name]));
+    for (const dependent of running) {
+        for (const dependencyId of dependent.dependsOn) {
+            const dependencyName = stopped.get(dependencyId);
+            if (dependencyName) {
+                reasons.push(`${dependent.name} depends on ${dependencyName}, which is no longer running`);
+            }
+        }
+    }
+    return reasons;
+}
@@ -0,0 +1,93 @@
+import * as storageMs from "src/core/storage";
+import { PLUGIN_MODE } from "src/core/types";
+import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
+import type { ApplyJournal } from "src/features/startup-policy/apply-journal";
+import { StartupPolicyFeature } from "src/features/startup-policy/startup-policy-feature";
+import type { ApplyRecoveryChoice } from "src/ui/modals/apply-recovery-modal";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("src/core/storage");
+
+let recoveryChoice: ApplyRecoveryChoice | null = null;
+vi.mock("src/ui/modals/apply-recovery-modal", () => ({
+    ApplyRecoveryModal: class {
+        openAndWait() {
+            return Promise.resolve(recoveryChoice);
+        }
+    },
+}));
+
+describe("StartupPolicyFeature recovery", () => {
+    let settings: { plugins: Record<string, { mode: PLUGIN_MODE; userConfigured?: boolean }> };
+    let journal: ApplyJournal;
+    let onLayoutReady: () => void;
+    let registry: { writeCommunityPluginsFile: ReturnType<typeof vi.fn> };
+    let executeCommandById: ReturnType<typeof vi.fn>;
+    let saveSettings: ReturnType<typeof vi.fn>;
+    let feature: StartupPolicyFeature;
+
+    beforeEach(() => {
+        vi.resetAllMocks();
+        settings = { plugins: { kanban: { mode: PLUGIN_MODE.ALWAYS_ENABLED, userConfigured: true } } };
+        // Journaled by prepareApply() right before the switch to lazy was saved.
+        journal = {
+            startedAt: 1_000,
+            pluginIds: ["kanban"],
+            intendedModes: { kanban: PLUGIN_MODE.LAZY },
+            intendedCommunityPlugins: ["on-demand-plugins"],
+            originalCommunityPlugins: ["kanban", "on-demand-plugins"],
+            originalEnabledPlugins: ["kanban", "on-demand-plugins"],
+            originalRunningPlugins: ["kanban"],
+            originalModes: { kanban: PLUGIN_MODE.ALWAYS_ENABLED },
+            completedSteps: [],
+            appliedPluginIds: [],
+        };
+        vi.mocked(storageMs.loadLocalStorage).mockImplementation(() => structuredClone(journal));
+        registry = { writeCommunityPluginsFile: vi.fn().mockResolvedValue(undefined) };
+        executeCommandById = vi.fn();
+        saveSettings = vi.fn().mockResolvedValue(undefined);
+
+        const ctx = {
+            app: {
+                workspace: { onLayoutReady: (callback: () => void) => (onLayoutReady = callback) },
+                commands: { executeCommandById },
+            },
+            obsidianPlugins: { enabledPlugins: new Set(["on-demand-plugins"]) },
+            getData: () => ({ showConsoleLog: false }),
+            getSettings: () => settings,
+            saveSettings,
+            getManifests: () => [{ id: "kanban", name: "Kanban" }],
+        };
+        const features = { get: (type: unknown) => (type === LazyEngineFeature ? { commandCache: {}, loadProfiler: {} } : undefined) };
+
+        feature = new StartupPolicyFeature();
+        feature.onload(ctx as never, { registry } as never, features as never, {} as never);
+    });
+
+    it("saves the journal's modes before resuming an apply cut short before they were saved", async () => {
+        recoveryChoice = "resume";
+        let modeWhenResumed: PLUGIN_MODE | undefined;
+        const execute = vi.spyOn(feature as unknown as { executeStartupPolicy: () => Promise<void> }, "executeStartupPolicy").mockImplementation(() => {
+            modeWhenResumed = settings.plugins.kanban.mode;
+            return Promise.resolve();
+        });
+
+        onLayoutReady();
+
+        await vi.waitFor(() => expect(execute).toHaveBeenCalledWith(["kanban"], null, expect.objectContaining({ startedAt: 1_000 })));
+        expect(modeWhenResumed).toBe(PLUGIN_MODE.LAZY);
+        expect(settings.plugins.kanban).toEqual({ mode: PLUGIN_MODE.LAZY, userConfigured: true });
+        expect(saveSettings).toHaveBeenCalled();
+    });
+
+    it("puts the original modes back when rolling back", async () => {
+        recoveryChoice = "rollback";
+        settings.plugins.kanban.mode = PLUGIN_MODE.LAZY;
+
+        onLayoutReady();
+
+        await vi.waitFor(() => expect(executeCommandById).toHaveBeenCalledWith("app:reload"));
+        expect(settings.plugins.kanban.mode).toBe(PLUGIN_MODE.ALWAYS_ENABLED);
+        expect(registry.writeCommunityPluginsFile).toHaveBeenCalledWith(["kanban", "on-demand-plugins"], false);
+    });
+});
@@ -1,7 +1,9 @@
 import { Mutex } from "async-mutex";
 import log from "loglevel";
 import type { PluginManifest } from "obsidian";
+import { Notice } from "obsidian";
 import type { Commands } from "@obsidian-typings/obsidian-public-latest";
+import { showConfirmModal } from "src/core/confirm-modal";
 import { ON_DEMAND_PLUGIN_ID } from "src/core/constants";
 import type { EventBus } from "src/core/event-bus";
 import type { AppFeature } from "src/core/feature";
@@ -13,30 +15,55 @@ import { PLUGIN_MODE } from "src/core/types";
 import { isPluginEnabled, isPluginLoaded } from "src/core/utils";
 import type { CommandCacheService } from "src/features/lazy-engine/command-cache/command-cache-service";
 import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
+import type { LoadProfiler } from "src/features/lazy-engine/load-profiler";
+import type { ApplyJournal } from "src/features/startup-policy/apply-journal";
+import { APPLY_STEP, ApplyJournalStore, planRollback } from "src/features/startup-policy/apply-journal";
+import type { ApplyPlan } from "src/features/startup-policy/apply-plan";
+import { buildApplyPlan, getStartupEnabledPlugins } from "src/features/startup-policy/apply-plan";
+import type { AppliedPlugin } from "src/features/startup-policy/hot-apply";
+import { expectRunningAfterApply, findReloadReasons, isOutOfPolicy } from "src/features/startup-policy/hot-apply";
 import { patchViewRegistry } from "src/patches/view-registry";
 import type { CoreContainer } from "src/services/core-container";
 import type { PluginRegistry } from "src/services/registry/plugin-registry";
+import { ApplyRecoveryModal } from "src/ui/modals/apply-recovery-modal";
 
 const logger = log.getLogger("OnDemandPlugin/StartupPolicyFeature");
 
 /**
  * Manages plugin startup policies and lifecycle.
  * Handles lazy loading, view-based loading, and persistent plugin states
- * with progress UI and cancellation support.
+ * with progress UI and cancellation support. Changes are applied in-session
+ * and Obsidian is only reloaded when a plugin could not be switched cleanly.
+ * Each apply is journaled: a cancel rolls it back, and one cut short by a
+ * crash is offered for rollback or resume on the next start.
  */
 export class StartupPolicyFeature implements AppFeature {
     private mutex = new Mutex();
     private events!: EventBus;
     private ctx!: PluginContext;
+    private lazyEngine!: LazyEngineFeature;
     private commandCacheService!: CommandCacheService;
+    private loadProfiler!: LoadProfiler;
     private registry!: PluginRegistry;
+    private journal!: ApplyJournalStore;
+    /** Journal written by prepareApply() for the apply that follows it. */
+    private prepared: ApplyJournal | null = null;
 
     onload(ctx: PluginContext, core: CoreContainer, features: FeatureManager, events: EventBus) {
         this.ctx = ctx;
         this.events = events;
-        const lazyEngine = features.get(LazyEngineFeature);
-        this.commandCacheService = lazyEngine!.commandCache;
+        this.lazyEngine = features.get(LazyEngineFeature)!;
+        this.commandCacheService = this.lazyEngine.commandCache;
+        this.loadProfiler = this.lazyEngine.loadProfiler;
         this.registry = core.registry;
+        this.journal = new ApplyJournalStore(ctx.app);
+
+        const unfinished = this.journal.loadUnfinished();
+        if (unfinished) {
+            ctx.app.workspace.onLayoutReady(() => {
+                void this.offerRecovery(unfinished);
+            });
+        }
     }
 
     onunload() {}
@@ -46,39 +73,113 @@ export class StartupPolicyFeature implements AppFeature {
         await this.mutex.runExclusive(() => this.executeStartupPolicy(pluginIds, progress));
     }
 
+    /**
+     * Journal an apply of `pluginIds` before their new modes are saved, so
+     * rolling it back can put `originalModes` back. The apply that follows
+     * continues this journal.
+     */
+    public async prepareApply(pluginIds: string[], originalModes: Record<string, PLUGIN_MODE>) {
+        const targetIds = new Set(pluginIds);
+        const manifests = this.ctx.getManifests().filter((p) => targetIds.has(p.id) && p.id !== ON_DEMAND_PLUGIN_ID);
+        await this.beginJournal(pluginIds, manifests, undefined, originalModes);
+        this.prepared = this.journal.load();
+    }
+
+    /** Plugins whose running state contradicts their mode, which an apply would change. */
+    public getPluginsOutOfPolicy(): string[] {
+        const { layoutReady } = this.ctx.app.workspace;
+        return this.ctx
+            .getManifests()
+            .filter((p) => p.id !== ON_DEMAND_PLUGIN_ID && isOutOfPolicy(this.ctx.getPluginMode(p.id), isPluginLoaded(this.ctx.app, p.id), layoutReady))
+            .map((p) => p.id);
+    }
+
+    /** What applying `pluginIds` would do, without changing anything. */
+    public async buildApplyPlan(pluginIds: string[]): Promise<ApplyPlan> {
+        return buildApplyPlan({
+            pluginIds,
+            manifests: this.ctx.getManifests(),
+            plugins: this.ctx.getSettings().plugins,
+            getPluginMode: (pluginId) => this.ctx.getPluginMode(pluginId),
+            isRunning: (pluginId) => isPluginLoaded(this.ctx.app, pluginId),
+            isCacheValid: (pluginId) => this.commandCacheService.isCommandCacheValid(pluginId),
+            communityPlugins: await this.registry.readCommunityPluginsFile(this.ctx.getData().showConsoleLog),
+            layoutReady: this.ctx.app.workspace.layoutReady,
+        });
+    }
+
     // -------------------------------------------------------------------------
     // Core execution
     // -------------------------------------------------------------------------
 
-    private async executeStartupPolicy(pluginIds?: string[], externalProgress?: ProgressDialog | null) {
+    /** @param resumed - Journal of an earlier apply of the same plugins that never finished */
+    private async executeStartupPolicy(pluginIds?: string[], externalProgress?: ProgressDialog | null, resumed?: ApplyJournal) {
         const targetIds = pluginIds?.length ? new Set(pluginIds) : null;
         const allManifests = this.ctx.getManifests();
         const targetManifests = targetIds ? allManifests.filter((p) => targetIds.has(p.id)) : allManifests;
         const lazyManifests = this.getLazyManifests(targetManifests);
+        const applyManifests = targetManifests.filter((p) => p.id !== ON_DEMAND_PLUGIN_ID);
+        const steps = lazyManifests.length + applyManifests.length;
 
         let cancelled = false;
         const progress = externalProgress
             ? (externalProgress.setOnCancel(() => {
                   cancelled = true;
               }),
-              externalProgress.setTotal(lazyManifests.length + 2),
+              externalProgress.setTotal(steps + 2),
               externalProgress)
-            : this.openProgressDialog(lazyManifests.length, () => {
+            : this.openProgressDialog(steps, () => {
                   cancelled = true;
               });
 
         const lazyOnViews: Record<string, string[]> = {
             ...(this.ctx.getSettings().lazyOnViews ?? {}),
         };
+        const journalIds = targetIds ? Array.from(targetIds) : null;
+        const prepared = this.prepared?.pluginIds?.join() === journalIds?.join() ? this.prepared : null;
+        this.prepared = null;
+        await this.beginJournal(journalIds, applyManifests, resumed ?? prepared ?? undefined);
         const stopIntercepting = patchViewRegistry(this.ctx, lazyOnViews);
 
         try {
             await this.loadLazyPluginsWithProgress(lazyManifests, targetIds, progress, () => cancelled);
+            if (!cancelled) this.journal.completeStep(APPLY_STEP.PLUGINS_LOADED);
         } finally {
-            await this.cleanupAndReload(lazyOnViews, !cancelled, progress, stopIntercepting);
+            await this.cleanupAndApply(lazyOnViews, cancelled ? null : applyManifests, lazyManifests.length + 2, progress, stopIntercepting);
         }
     }
 
+    /**
+     * Record what the apply starts from and aims for before touching anything.
+     * A resumed apply keeps the original state of the apply it continues.
+     * @param originalModes - Modes the plugins had before the change being applied
+     */
+    private async beginJournal(pluginIds: string[] | null, manifests: PluginManifest[], resumed?: ApplyJournal, originalModes?: Record<string, PLUGIN_MODE>) {
+        const original = resumed ?? {
+            originalCommunityPlugins: await this.registry.readCommunityPluginsFile(this.ctx.getData().showConsoleLog),
+            originalEnabledPlugins: Array.from(this.ctx.obsidianPlugins.enabledPlugins),
+            originalRunningPlugins: this.getRunningPluginIds(),
+            originalModes,
+        };
+        this.journal.begin({
+            startedAt: Date.now(),
+            pluginIds,
+            intendedModes: Object.fromEntries(manifests.map((p) => [p.id, this.ctx.getPluginMode(p.id)])),
+            intendedCommunityPlugins: getStartupEnabledPlugins(this.ctx.getManifests(), (pluginId) => this.ctx.getPluginMode(pluginId)),
+            originalCommunityPlugins: original.originalCommunityPlugins,
+            originalEnabledPlugins: original.originalEnabledPlugins,
+            originalRunningPlugins: original.originalRunningPlugins,
+            originalModes: original.originalModes,
+        });
+    }
+
+    private getRunningPluginIds(): string[] {
+        return this.ctx
+            .getManifests()
+            .filter((p) => isPluginLoaded(this.ctx.app, p.id))
+            .map((p) => p.id);
+    }
+
     // -------------------------------------------------------------------------
     // Plugin loading
     // -------------------------------------------------------------------------
@@ -120,7 +221,11 @@ export class StartupPolicyFeature implements AppFeature {
 
             if (!alreadyReady) {
                 try {
-                    await this.ctx.obsidianPlugins.enablePlugin(plugin.id);
+                    // Timed like an on-demand load: until the plugin reports loaded, not just until enablePlugin returns.
+                    await this.loadProfiler.measure(plugin.id, "apply", async () => {
+                        await this.ctx.obsidianPlugins.enablePlugin(plugin.id);
+                        return this.lazyEngine.lazyRunner.waitForPluginLoaded(plugin.id);
+                    });
                 } catch (error) {
                     logger.warn("Failed to load plugin", plugin.id, error);
                 }
@@ -184,49 +289,171 @@ export class StartupPolicyFeature implements AppFeature {
     // Cleanup & persistence
     // -------------------------------------------------------------------------
 
-    private async cleanupAndReload(lazyOnViews: Record<string, string[]>, shouldReload: boolean, progress: ProgressDialog | null, stopIntercepting: () => void) {
+    /**
+     * Persist what the apply captured and switch every plugin in `applyManifests`
+     * to its mode in-session. Falls back to a reload, after asking, when the
+     * in-session switch left something behind. `applyManifests` is null when
+     * the apply was cancelled, which rolls it back instead.
+     */
+    private async cleanupAndApply(lazyOnViews: Record<string, string[]>, applyManifests: PluginManifest[] | null, progressOffset: number, progress: ProgressDialog | null, stopIntercepting: () => void) {
         stopIntercepting();
 
-        // Persist lazyOnViews. Merge instead of overwrite: the session-wide
-        // Plugin.registerView patch may have written entries directly into
-        // settings.lazyOnViews while this apply was running with its own
-        // working copy, and those must not be clobbered.
-        const settings = this.ctx.getSettings();
-        const merged: Record<string, string[]> = { ...(settings.lazyOnViews ?? {}) };
-        for (const [pluginId, viewTypes] of Object.entries(lazyOnViews)) {
-            merged[pluginId] = Array.from(new Set([...(merged[pluginId] ?? []), ...viewTypes]));
-        }
-        settings.lazyOnViews = merged;
-        await this.ctx.saveSettings();
-        saveLocalStorage(this.ctx.app, "lazyOnViews", merged);
-
-        // Compute the desired enabled set (always-enabled + self)
-        const desiredEnabled = new Set<string>(
-            this.ctx
-                .getManifests()
-                .filter((p) => this.ctx.getPluginMode(p.id) === PLUGIN_MODE.ALWAYS_ENABLED)
-                .map((p) => p.id),
-        );
-        desiredEnabled.add(ON_DEMAND_PLUGIN_ID);
+        let reloadReasons: string[] = [];
+        try {
+            // Persist lazyOnViews. Merge instead of overwrite: the session-wide
+            // Plugin.registerView patch may have written entries directly into
+            // settings.lazyOnViews while this apply was running with its own
+            // working copy, and those must not be clobbered.
+            const settings = this.ctx.getSettings();
+            const merged: Record<string, string[]> = { ...(settings.lazyOnViews ?? {}) };
+            for (const [pluginId, viewTypes] of Object.entries(lazyOnViews)) {
+                merged[pluginId] = Array.from(new Set([...(merged[pluginId] ?? []), ...viewTypes]));
+            }
+            settings.lazyOnViews = merged;
+            await this.ctx.saveSettings();
+            saveLocalStorage(this.ctx.app, "lazyOnViews", merged);
+            this.journal.completeStep(APPLY_STEP.SETTINGS_SAVED);
+
+            if (!applyManifests) {
+                // Captured view types are kept; everything else goes back to how it was.
+                const journal = this.journal.load();
+                if (journal) await this.rollBackInSession(journal);
+                return;
+            }
 
-        // Update in-memory enabled set
-        this.ctx.obsidianPlugins.enabledPlugins.clear();
-        desiredEnabled.forEach((id) => this.ctx.obsidianPlugins.enabledPlugins.add(id));
+            reloadReasons = await this.hotApply(applyManifests, progressOffset, progress);
+            this.journal.completeStep(APPLY_STEP.PLUGINS_APPLIED);
 
-        // Persist community-plugins file
-        const toPersist = [...desiredEnabled].filter((id) => this.ctx.getPluginMode(id) === PLUGIN_MODE.ALWAYS_ENABLED || id === ON_DEMAND_PLUGIN_ID).sort((a, b) => a.localeCompare(b));
+            // Compute the desired enabled set (always-enabled + self)
+            const desiredEnabled = getStartupEnabledPlugins(this.ctx.getManifests(), (pluginId) => this.ctx.getPluginMode(pluginId));
+
+            // After a successful hot apply the in-memory enabled set already
+            // matches the running plugins; otherwise reset it for the next start.
+            if (reloadReasons.length > 0) {
+                this.ctx.obsidianPlugins.enabledPlugins.clear();
+                desiredEnabled.forEach((id) => this.ctx.obsidianPlugins.enabledPlugins.add(id));
+            }
+
+            // Persist community-plugins file
+            await this.registry.writeCommunityPluginsFile(desiredEnabled, this.ctx.getData().showConsoleLog);
+            this.journal.completeStep(APPLY_STEP.COMMUNITY_PLUGINS_WRITTEN);
+            this.journal.complete();
+        } finally {
+            progress?.close();
+        }
+
+        if (reloadReasons.length > 0) {
+            await this.reloadForReasons(reloadReasons);
+        } else {
+            new Notice(`Applied changes to ${applyManifests.length} plugin${applyManifests.length === 1 ? "" : "s"} without reloading`);
+        }
+    }
 
-        await this.registry.writeCommunityPluginsFile(toPersist, this.ctx.getData().showConsoleLog);
+    /**
+     * Switch each plugin to its mode without reloading the app.
+     * @returns Why a full reload is still needed; empty when it is not.
+     */
+    private async hotApply(manifests: PluginManifest[], progressOffset: number, progress: ProgressDialog | null): Promise<string[]> {
+        const applied: AppliedPlugin[] = [];
+        for (let i = 0; i < manifests.length; i++) {
+            const plugin = manifests[i];
+            progress?.setStatus(`Applying ${plugin.name}`);
+            progress?.setProgress(progressOffset + i + 1);
 
-        if (shouldReload) {
+            const expectRunning = expectRunningAfterApply(this.ctx.getPluginMode(plugin.id), this.ctx.app.workspace.layoutReady);
+            let error: unknown;
             try {
-                (this.ctx.app as unknown as { commands: Commands }).commands.executeCommandById("app:reload");
-            } catch (error) {
-                logger.warn("Failed to reload app after apply", error);
+                await this.lazyEngine.applyPluginState(plugin.id);
+            } catch (err) {
+                error = err;
+                logger.warn("Failed to apply plugin state", plugin.id, err);
             }
+            this.journal.markPluginApplied(plugin.id);
+            applied.push({ id: plugin.id, name: plugin.name, expectRunning, running: isPluginLoaded(this.ctx.app, plugin.id), error });
         }
 
-        progress?.close();
+        const { plugins } = this.ctx.getSettings();
+        const running = this.ctx
+            .getManifests()
+            .filter((p) => isPluginLoaded(this.ctx.app, p.id))
+            .map((p) => ({ id: p.id, name: p.name, dependsOn: plugins[p.id]?.dependsOn ?? [] }));
+        return findReloadReasons(applied, running);
+    }
+
+    private async reloadForReasons(reasons: string[]) {
+        logger.info("Reload needed to finish applying", reasons);
+        const confirmed = await showConfirmModal(this.ctx.app, {
+            message: `Obsidian needs to reload to finish applying the changes. ${reasons.join(". ")}. Reload now?`,
+        });
+        if (confirmed !== true) {
+            new Notice("Reload Obsidian to finish applying the changes");
+            return;
+        }
+        this.reloadApp();
+    }
+
+    private reloadApp() {
+        try {
+            (this.ctx.app as unknown as { commands: Commands }).commands.executeCommandById("app:reload");
+        } catch (error) {
+            logger.warn("Failed to reload app after apply", error);
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Rollback & recovery
+    // -------------------------------------------------------------------------
+
+    /** Undo a cancelled apply: stop what it started, restart what it stopped, restore the modes and community-plugins.json. */
+    private async rollBackInSession(journal: ApplyJournal) {
+        const { disable, enable } = planRollback(journal, this.getRunningPluginIds(), ON_DEMAND_PLUGIN_ID);
+        for (const pluginId of disable) {
+            await this.ctx.obsidianPlugins.disablePlugin(pluginId).catch((error) => logger.warn("Failed to disable plugin during rollback", pluginId, error));
+        }
+        for (const pluginId of enable) {
+            await this.ctx.obsidianPlugins.enablePlugin(pluginId).catch((error) => logger.warn("Failed to enable plugin during rollback", pluginId, error));
+        }
+
+        this.restoreEnabledPlugins(journal.originalEnabledPlugins);
+        await this.saveModes(journal.originalModes);
+        await this.registry.writeCommunityPluginsFile(journal.originalCommunityPlugins, this.ctx.getData().showConsoleLog);
+        this.journal.complete({ rolledBack: true });
+        new Notice("Apply cancelled; plugins were restored to how they were before");
+    }
+
+    private restoreEnabledPlugins(pluginIds: string[]) {
+        this.ctx.obsidianPlugins.enabledPlugins.clear();
+        pluginIds.forEach((id) => this.ctx.obsidianPlugins.enabledPlugins.add(id));
+    }
+
+    /** Save `modes` for their plugins, keeping the rest of each plugin's settings. */
+    private async saveModes(modes: Record<string, PLUGIN_MODE> | undefined) {
+        if (!modes) return;
+        const { plugins } = this.ctx.getSettings();
+        for (const [pluginId, mode] of Object.entries(modes)) {
+            plugins[pluginId] = { ...plugins[pluginId], mode };
+        }
+        await this.ctx.saveSettings();
+    }
+
+    /** Ask what to do with an apply the last session never finished. */
+    private async offerRecovery(journal: ApplyJournal) {
+        const choice = await new ApplyRecoveryModal(this.ctx.app, journal, this.ctx.getManifests()).openAndWait();
+        if (choice === "rollback") {
+            // Plugins this session started from the half-written file are only
+            // reverted cleanly by starting over from the original one.
+            this.restoreEnabledPlugins(journal.originalCommunityPlugins);
+            await this.saveModes(journal.originalModes);
+            await this.registry.writeCommunityPluginsFile(journal.originalCommunityPlugins, this.ctx.getData().showConsoleLog);
+            this.journal.complete({ rolledBack: true });
+            this.reloadApp();
+        } else if (choice === "resume") {
+            // The apply may have stopped before its new modes were saved.
+            await this.saveModes(journal.intendedModes);
+            await this.mutex.runExclusive(() => this.executeStartupPolicy(journal.pluginIds ?? undefined, null, journal));
+        } else if (choice === "keep") {
+            this.journal.complete();
+        }
     }
 
     // -------------------------------------------------------------------------
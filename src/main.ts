@@ -9,6 +9,7 @@ import type { DeviceSettings, LazySettings } from "src/core/types";
 import { PLUGIN_MODE } from "src/core/types";
 import { toggleLoggerBy } from "src/core/utils";
 import { BackupFeature } from "src/features/backup/backup-feature";
+import type { CacheDiffReport } from "src/features/lazy-engine/command-cache/cache-diff";
 import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
 import { MaintenanceFeature } from "src/features/maintenance/maintenance-feature";
 import { StartupPolicyFeature } from "src/features/startup-policy/startup-policy-feature";
@@ -66,7 +67,7 @@ export default class OnDemandPlugin extends Plugin {
     }
 
     private registerEventHandlers() {
-        this.events.on(FeatureEvents.REBUILD_CACHE_REQUESTED, async (options: { force?: boolean }) => {
+        this.events.on(FeatureEvents.REBUILD_CACHE_REQUESTED, async (options: { force?: boolean; onReport?: (report: CacheDiffReport) => void }) => {
             const force = options?.force ?? false;
             const manifests = this.manifests;
             const lazyCount = manifests.filter((p) => this.getPluginMode(p.id) !== PLUGIN_MODE.ALWAYS_ENABLED && this.getPluginMode(p.id) !== PLUGIN_MODE.ALWAYS_DISABLED).length;
@@ -82,15 +83,22 @@ export default class OnDemandPlugin extends Plugin {
 
             const lazyEngine = this.features.get(LazyEngineFeature);
             if (lazyEngine) {
-                await lazyEngine.commandCache.refreshCommandCache(undefined, force, (current, total, plugin) => {
+                const report = await lazyEngine.commandCache.refreshCommandCache(undefined, force, (current, total, plugin) => {
                     progress.setStatus(`Rebuilding ${plugin.name}`);
                     progress.setProgress(current, total);
                 });
+                // Reported now: the apply below refreshes the cache again for the plugins it enables.
+                options?.onReport?.(report);
             }
 
+            // Apply only what is out of line with the modes: applying every plugin
+            // would also unload the lazy plugins loaded on demand this session.
             const policyFeature = this.features.get(StartupPolicyFeature);
-            if (policyFeature) {
-                await policyFeature.applyWithProgress(progress);
+            const pluginIds = policyFeature?.getPluginsOutOfPolicy() ?? [];
+            if (policyFeature && pluginIds.length > 0) {
+                await policyFeature.applyWithProgress(progress, pluginIds);
+            } else {
+                progress.close();
             }
 
             if (lazyEngine) {
@@ -239,6 +247,7 @@ export default class OnDemandPlugin extends Plugin {
         this.core.settingsService.switchProfile(profileId);
         this.settings = this.core.settingsService.settings;
         await this.saveSettings();
+        this.features.get(LazyEngineFeature)?.syncPluginLookupPatch();
         const policyFeature = this.features.get(StartupPolicyFeature);
         await policyFeature?.applyWithProgress(null);
     }
@@ -0,0 +1,38 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { MarkdownPostProcessor, MarkdownPostProcessorContext } from "obsidian";
+import { Plugin } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/CodeBlockProcessorPatch");
+
+type CodeBlockHandler = (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => Promise<unknown> | void;
+type RegisterMarkdownCodeBlockProcessor = (this: Plugin, language: string, handler: CodeBlockHandler, sortOrder?: number) => MarkdownPostProcessor;
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.registerMarkdownCodeBlockProcessor to attribute
+ * fenced code block languages to the owning plugin via `this.manifest.id`.
+ *
+ * Installed for the whole session, like patchPluginProtocolHandler, so
+ * processors registered after an `await` in onload are still observed.
+ */
+export function patchPluginCodeBlockProcessor(onRegister: (pluginId: string, language: string) => void): () => void {
+    return around(Plugin.prototype, {
+        registerMarkdownCodeBlockProcessor: (next: RegisterMarkdownCodeBlockProcessor) =>
+            function (this: Plugin, ...args: Parameters<RegisterMarkdownCodeBlockProcessor>) {
+                const [language] = args;
+                // Keep the original registration intact even if attribution fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && language) {
+                        onRegister(pluginId, language);
+                    }
+                } catch (error) {
+                    logger.warn("registerMarkdownCodeBlockProcessor attribution failed:", error);
+                }
+
+                return next.call(this, ...args);
+            },
+    });
+}
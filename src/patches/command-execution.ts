@@ -0,0 +1,28 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { Command } from "obsidian";
+import type { Commands } from "@obsidian-typings/obsidian-public-latest";
+import type { PluginContext } from "src/core/plugin-context";
+
+const logger = log.getLogger("OnDemandPlugin/CommandExecutionPatch");
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch `app.commands.executeCommand`, which the command palette, hotkeys and
+ * `executeCommandById` all go through, to observe which commands run.
+ */
+export function patchCommandExecution(ctx: PluginContext, onExecute: (commandId: string) => void): () => void {
+    return around(ctx.obsidianCommands, {
+        executeCommand: (next: Commands["executeCommand"]) =>
+            function (this: Commands, command: Command, event?: Event) {
+                // Tracking must never keep a command from running.
+                try {
+                    if (command?.id) onExecute(command.id);
+                } catch (error) {
+                    logger.warn("executeCommand tracking failed:", error);
+                }
+                return next.call(this, command, event);
+            },
+    });
+}
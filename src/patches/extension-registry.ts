@@ -0,0 +1,69 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import { Plugin } from "obsidian";
+import type { PluginContext } from "src/core/plugin-context";
+import { createDefaultLazyOptions, isLazyMode } from "src/core/utils";
+
+const logger = log.getLogger("OnDemandPlugin/ExtensionRegistryPatch");
+
+type RegisterExtensions = (this: Plugin, extensions: string[], viewType: string) => void;
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+/**
+ * Record extensions in the plugin's lazyOptions.
+ *
+ * @returns true when at least one extension was newly recorded.
+ */
+function trackExtensions(ctx: PluginContext, pluginId: string, extensions: string[]): boolean {
+    const settings = ctx.getSettings();
+    const pluginSettings = settings.plugins[pluginId];
+    if (!pluginSettings) return false;
+    // Plugins that never had their lazy options edited still get their extensions recorded.
+    const pluginOptions = (pluginSettings.lazyOptions ??= createDefaultLazyOptions(settings, pluginId));
+
+    let added = false;
+    pluginOptions.extensions ??= [];
+    for (const extension of extensions) {
+        const normalized = extension.trim().replace(/^\./, "").toLowerCase();
+        if (normalized && !pluginOptions.extensions.includes(normalized)) {
+            pluginOptions.extensions.push(normalized);
+            added = true;
+        }
+    }
+    return added;
+}
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.registerExtensions to attribute file extensions to
+ * the owning plugin via `this.manifest.id`.
+ *
+ * Like patchPluginRegisterView, this stays installed for the whole session so
+ * extensions are captured whenever a lazy plugin happens to load, and the
+ * result is persisted in the plugin's lazyOptions. Extensions are recorded for
+ * every lazy plugin so they are already known when `useExtensions` is turned
+ * on; only loading on open is gated on that option.
+ */
+export function patchPluginRegisterExtensions(ctx: PluginContext): () => void {
+    return around(Plugin.prototype, {
+        registerExtensions: (next: RegisterExtensions) =>
+            function (this: Plugin, extensions: string[], viewType: string) {
+                // Keep registerExtensions behavior intact even if lazy tracking fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && extensions?.length && isLazyMode(ctx.getPluginMode(pluginId)) && trackExtensions(ctx, pluginId, extensions)) {
+                        logger.debug(`registerExtensions: attributed ${extensions.join(", ")} to ${pluginId}`);
+                        // Persist immediately for the same reason as view types: the
+                        // plugin is disabled again right after its capture window.
+                        void ctx.saveSettings();
+                    }
+                } catch (error) {
+                    logger.warn("registerExtensions attribution failed:", error);
+                }
+
+                return next.call(this, extensions, viewType);
+            },
+    });
+}
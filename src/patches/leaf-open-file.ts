@@ -0,0 +1,37 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { OpenViewState, TFile } from "obsidian";
+import { WorkspaceLeaf } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/LeafOpenFilePatch");
+
+interface PatchLeafOpenFileDeps {
+    register: (unload: () => void) => void;
+    /** Checked synchronously so files no lazy plugin claims open without an extra tick. */
+    shouldLoadBeforeOpen: (file: TFile) => boolean;
+    beforeOpenFile: (file: TFile) => Promise<void>;
+}
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Monkey-patch `WorkspaceLeaf.openFile` to run the `beforeOpenFile` hook
+ * before Obsidian picks a view for the file, so a lazy plugin can register
+ * its extensions first instead of the file opening as unsupported.
+ */
+export function patchLeafOpenFile(deps: PatchLeafOpenFileDeps): void {
+    const { register, shouldLoadBeforeOpen, beforeOpenFile } = deps;
+    register(
+        around(WorkspaceLeaf.prototype, {
+            openFile: (next: WorkspaceLeaf["openFile"]) =>
+                function (this: WorkspaceLeaf, file: TFile, openState?: OpenViewState): Promise<void> {
+                    if (!file || !shouldLoadBeforeOpen(file)) return next.call(this, file, openState);
+
+                    // Hook failures should not prevent the file from opening.
+                    return beforeOpenFile(file)
+                        .catch((error) => logger.warn("openFile hook failed:", error))
+                        .then(() => next.call(this, file, openState));
+                },
+        }),
+    );
+}
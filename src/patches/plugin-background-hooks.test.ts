@@ -0,0 +1,48 @@
+import { Plugin } from "obsidian";
+import { patchPluginBackgroundHooks } from "src/patches/plugin-background-hooks";
+import type { Mock } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type PluginProto = Record<string, unknown>;
+
+describe("patchPluginBackgroundHooks", () => {
+    const proto = Plugin.prototype as unknown as PluginProto;
+    const originals = { registerInterval: vi.fn((id: number) => id), registerDomEvent: vi.fn(), registerEditorExtension: vi.fn() };
+    let uninstall: () => void;
+    let onHook: Mock<(pluginId: string, hook: string) => void>;
+
+    beforeEach(() => {
+        Object.assign(proto, originals);
+        onHook = vi.fn();
+        uninstall = patchPluginBackgroundHooks(onHook);
+    });
+
+    afterEach(() => {
+        uninstall();
+        Object.keys(originals).forEach((key) => delete proto[key]);
+    });
+
+    it("attributes hooks to the calling plugin and keeps the original behaviour", () => {
+        const plugin = Object.assign(Object.create(Plugin.prototype) as object, { manifest: { id: "plugin-a" } }) as Record<string, (...args: unknown[]) => unknown>;
+
+        expect(plugin.registerInterval(7)).toBe(7);
+        plugin.registerDomEvent({}, "keydown", () => {});
+        plugin.registerEditorExtension([]);
+
+        expect(onHook.mock.calls).toEqual([
+            ["plugin-a", "interval"],
+            ["plugin-a", "dom:keydown"],
+            ["plugin-a", "editorExtension"],
+        ]);
+        expect(originals.registerDomEvent).toHaveBeenCalledWith({}, "keydown", expect.any(Function));
+    });
+
+    it("still registers when attribution throws", () => {
+        onHook.mockImplementation(() => {
+            throw new Error("boom");
+        });
+        const plugin = Object.assign(Object.create(Plugin.prototype) as object, { manifest: { id: "plugin-a" } }) as Record<string, (...args: unknown[]) => unknown>;
+
+        expect(plugin.registerInterval(3)).toBe(3);
+    });
+});
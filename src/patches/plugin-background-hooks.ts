@@ -0,0 +1,52 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import { Plugin } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/BackgroundHooksPatch");
+
+type RegisterInterval = (this: Plugin, id: number) => number;
+// Overloaded in the API; the wrapper only needs to read the event type.
+type RegisterDomEvent = Plugin["registerDomEvent"];
+type RegisterEditorExtension = (this: Plugin, extension: Parameters<Plugin["registerEditorExtension"]>[0]) => void;
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.registerInterval, registerDomEvent and
+ * registerEditorExtension to attribute background hooks to the owning plugin
+ * via `this.manifest.id`.
+ *
+ * Hooks are reported as `interval`, `dom:<event type>` and `editorExtension`.
+ * Vault, metadata cache and workspace events arrive through
+ * patchPluginRegisterEvent instead. Installed for the whole session, so the
+ * loads done for cache rebuilds are observed as well.
+ */
+export function patchPluginBackgroundHooks(onHook: (pluginId: string, hook: string) => void): () => void {
+    const attribute = (plugin: Plugin, hook: string) => {
+        // Keep the original registration intact even if attribution fails.
+        try {
+            const pluginId = plugin.manifest?.id;
+            if (pluginId) onHook(pluginId, hook);
+        } catch (error) {
+            logger.warn(`${hook} attribution failed:`, error);
+        }
+    };
+
+    return around(Plugin.prototype, {
+        registerInterval: (next: RegisterInterval) =>
+            function (this: Plugin, id: number) {
+                attribute(this, "interval");
+                return next.call(this, id);
+            },
+        registerDomEvent: (next: RegisterDomEvent) =>
+            function (this: Plugin, ...args: Parameters<RegisterDomEvent>) {
+                attribute(this, `dom:${args[1]}`);
+                return next.apply(this, args);
+            } as RegisterDomEvent,
+        registerEditorExtension: (next: RegisterEditorExtension) =>
+            function (this: Plugin, ...args: Parameters<RegisterEditorExtension>) {
+                attribute(this, "editorExtension");
+                return next.call(this, ...args);
+            },
+    });
+}
@@ -0,0 +1,45 @@
+import { Plugin } from "obsidian";
+import { patchPluginCommands } from "src/patches/plugin-commands";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type PluginProto = Record<string, unknown>;
+type PluginLike = { addCommand(command: { id: string; name: string }): { id: string }; removeCommand(id: string): void };
+
+describe("patchPluginCommands", () => {
+    const proto = Plugin.prototype as unknown as PluginProto;
+    const originals = {
+        addCommand: vi.fn(function (this: { manifest: { id: string } }, command: { id: string; name: string }) {
+            return { ...command, id: `${this.manifest.id}:${command.id}` };
+        }),
+        removeCommand: vi.fn(),
+    };
+    const handlers = { onAdd: vi.fn(), onRemove: vi.fn() };
+    let uninstall: () => void;
+    let plugin: PluginLike;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        Object.assign(proto, originals);
+        uninstall = patchPluginCommands(handlers);
+        plugin = Object.assign(Object.create(Plugin.prototype) as PluginLike, { manifest: { id: "quickadd" } });
+    });
+
+    afterEach(() => {
+        uninstall();
+        Object.keys(originals).forEach((key) => delete proto[key]);
+    });
+
+    it("reports added commands with their prefixed id", () => {
+        const registered = plugin.addCommand({ id: "choice", name: "Run choice" });
+
+        expect(registered.id).toBe("quickadd:choice");
+        expect(handlers.onAdd).toHaveBeenCalledWith("quickadd", expect.objectContaining({ id: "quickadd:choice", name: "Run choice" }));
+    });
+
+    it("reports removed commands with their prefixed id", () => {
+        plugin.removeCommand("choice");
+
+        expect(handlers.onRemove).toHaveBeenCalledWith("quickadd", "quickadd:choice");
+        expect(originals.removeCommand).toHaveBeenCalledWith("choice");
+    });
+});
@@ -0,0 +1,58 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { Command } from "obsidian";
+import { Plugin } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/PluginCommandsPatch");
+
+type AddCommand = (this: Plugin, command: Command) => Command;
+type RemoveCommand = (this: Plugin, commandId: string) => void;
+
+export interface PluginCommandHandlers {
+    /** Called with the registered command, whose id already carries the `<pluginId>:` prefix. */
+    onAdd(pluginId: string, command: Command): void;
+    /** Called with the full, prefixed command id. */
+    onRemove(pluginId: string, commandId: string): void;
+}
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.addCommand and removeCommand to attribute commands
+ * to the owning plugin via `this.manifest.id`.
+ *
+ * Plugins such as QuickAdd or Commander add and remove commands long after
+ * onload, which the snapshot taken by CommandCacheService never sees.
+ * Installed for the whole session, like patchPluginRegisterView, so those
+ * changes are picked up whenever a lazy plugin happens to be loaded.
+ */
+export function patchPluginCommands(handlers: PluginCommandHandlers): () => void {
+    return around(Plugin.prototype, {
+        addCommand: (next: AddCommand) =>
+            function (this: Plugin, command: Command) {
+                const registered = next.call(this, command);
+                // Keep the original registration intact even if attribution fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && registered?.id) {
+                        handlers.onAdd(pluginId, registered);
+                    }
+                } catch (error) {
+                    logger.warn("addCommand attribution failed:", error);
+                }
+                return registered;
+            },
+        removeCommand: (next: RemoveCommand) =>
+            function (this: Plugin, commandId: string) {
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && commandId) {
+                        handlers.onRemove(pluginId, `${pluginId}:${commandId}`);
+                    }
+                } catch (error) {
+                    logger.warn("removeCommand attribution failed:", error);
+                }
+                return next.call(this, commandId);
+            },
+    });
+}
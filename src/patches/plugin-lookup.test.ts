@@ -0,0 +1,136 @@
+import type { PluginContext } from "src/core/plugin-context";
+import type { DeviceSettings } from "src/core/types";
+import { PLUGIN_MODE } from "src/core/types";
+import { getCallingPluginId, patchPluginLookup } from "src/patches/plugin-lookup";
+import type { Mock } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("src/core/utils", () => ({
+    isLazyMode: (mode: string) => mode === "lazy",
+}));
+
+describe("getCallingPluginId", () => {
+    it("returns the innermost plugin frame", () => {
+        const stack = ["Error", "    at getLookupCaller (plugin:on-demand-plugins:10:5)", "    at eval (plugin:templater-obsidian:20:7)", "    at app.js:1:1"].join("\n");
+
+        expect(getCallingPluginId(stack)).toBe("on-demand-plugins");
+        expect(getCallingPluginId(stack.split("\n").slice(2).join("\n"))).toBe("templater-obsidian");
+    });
+
+    it("skips the frames of the given plugin", () => {
+        const stack = ["Error", "    at getLookupCaller (plugin:on-demand-plugins:10:5)", "    at get (plugin:on-demand-plugins:12:3)", "    at eval (plugin:templater-obsidian:20:7)"].join("\n");
+
+        expect(getCallingPluginId(stack, "on-demand-plugins")).toBe("templater-obsidian");
+    });
+
+    it("returns null when no plugin is on the stack", () => {
+        expect(getCallingPluginId("Error\n    at app.js:1:1")).toBeNull();
+        expect(getCallingPluginId(undefined)).toBeNull();
+    });
+});
+
+describe("patchPluginLookup", () => {
+    let plugins: Record<string, unknown>;
+    let obsidianPlugins: { plugins: Record<string, unknown>; getPlugin: (id: string) => unknown };
+    let settings: DeviceSettings;
+    let loadPlugin: Mock<(pluginId: string) => Promise<boolean>>;
+    let stack: string;
+    let uninstall: (() => void) | undefined;
+    const OriginalError = Error;
+    const withPatchFrames = (...callerFrames: string[]) => ["Error", "    at getLookupCaller (plugin:on-demand-plugins:10:5)", "    at onMiss (plugin:on-demand-plugins:20:9)", "    at Object.get (plugin:on-demand-plugins:30:13)", ...callerFrames].join("\n");
+
+    beforeEach(() => {
+        plugins = { loaded: { id: "loaded" } };
+        obsidianPlugins = {
+            plugins,
+            getPlugin(id: string) {
+                return this.plugins[id] ?? null;
+            },
+        };
+        settings = {
+            loadOnPluginLookup: true,
+            plugins: {
+                dataview: { mode: PLUGIN_MODE.LAZY, userConfigured: true },
+                eager: { mode: PLUGIN_MODE.ALWAYS_ENABLED, userConfigured: true },
+            },
+        } as unknown as DeviceSettings;
+        loadPlugin = vi.fn().mockResolvedValue(true);
+        stack = withPatchFrames("    at eval (plugin:templater-obsidian:1:1)");
+
+        // The patch reads the caller from `new Error().stack`, where its own
+        // frames sit above the code that made the lookup.
+        vi.stubGlobal(
+            "Error",
+            class extends OriginalError {
+                constructor(message?: string) {
+                    super(message);
+                    this.stack = stack;
+                }
+            },
+        );
+
+        const ctx = {
+            obsidianPlugins,
+            _plugin: { manifest: { id: "on-demand-plugins" } },
+            getSettings: () => settings,
+            getPluginMode: (id: string) => settings.plugins[id]?.mode,
+            getManifests: () => [{ id: "dataview" }, { id: "eager" }, { id: "loaded" }],
+        } as unknown as PluginContext;
+        uninstall = patchPluginLookup(ctx, loadPlugin);
+    });
+
+    afterEach(() => {
+        uninstall?.();
+        uninstall = undefined;
+        vi.unstubAllGlobals();
+    });
+
+    it("loads a lazy plugin looked up via getPlugin by another plugin", () => {
+        expect(obsidianPlugins.getPlugin("dataview")).toBeNull();
+        expect(loadPlugin).toHaveBeenCalledWith("dataview");
+    });
+
+    it("loads a lazy plugin read from the plugins map", () => {
+        expect(obsidianPlugins.plugins.dataview).toBeUndefined();
+        expect(loadPlugin).toHaveBeenCalledTimes(1);
+    });
+
+    it("triggers a single load while the plugin is loading", () => {
+        obsidianPlugins.getPlugin("dataview");
+        obsidianPlugins.getPlugin("dataview");
+        expect(loadPlugin).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores non-lazy plugins, lookups from On-Demand itself and the disabled option", () => {
+        obsidianPlugins.getPlugin("eager");
+        obsidianPlugins.getPlugin("loaded");
+
+        stack = withPatchFrames("    at isPluginLoaded (plugin:on-demand-plugins:1:1)", "    at app.js:1:1");
+        obsidianPlugins.getPlugin("dataview");
+
+        stack = withPatchFrames("    at app.js:1:1");
+        obsidianPlugins.getPlugin("dataview");
+
+        stack = withPatchFrames("    at eval (plugin:templater-obsidian:1:1)");
+        settings.loadOnPluginLookup = false;
+        obsidianPlugins.getPlugin("dataview");
+
+        expect(loadPlugin).not.toHaveBeenCalled();
+    });
+
+    it("ignores a plugin looking itself up, even when another plugin is further down the stack", () => {
+        stack = withPatchFrames("    at onload (plugin:dataview:5:5)", "    at eval (plugin:templater-obsidian:1:1)");
+        obsidianPlugins.getPlugin("dataview");
+
+        expect(loadPlugin).not.toHaveBeenCalled();
+    });
+
+    it("keeps writes in the original map and restores it on uninstall", () => {
+        obsidianPlugins.plugins.dataview = { id: "dataview" };
+        expect(plugins.dataview).toEqual({ id: "dataview" });
+
+        uninstall?.();
+        uninstall = undefined;
+        expect(obsidianPlugins.plugins).toBe(plugins);
+    });
+});
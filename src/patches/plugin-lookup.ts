@@ -0,0 +1,109 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { Plugins } from "@obsidian-typings/obsidian-public-latest";
+import type { PluginContext } from "src/core/plugin-context";
+import { isLazyMode } from "src/core/utils";
+
+const logger = log.getLogger("OnDemandPlugin/PluginLookupPatch");
+
+/** Plugin code is evaluated with a `plugin:<id>` source URL, which shows up in stack frames. */
+const PLUGIN_FRAME_PATTERN = /plugin:([^:\s)/]+)/;
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+/**
+ * Return the id of the innermost plugin on the given call stack, if any.
+ * Frames of `ownId` are skipped: the lookup patch itself always runs on top
+ * of the stack, above the code that made the lookup.
+ */
+export function getCallingPluginId(stack: string | undefined, ownId?: string): string | null {
+    for (const line of (stack ?? "").split("\n")) {
+        const match = PLUGIN_FRAME_PATTERN.exec(line);
+        if (match && match[1] !== ownId) return match[1];
+    }
+    return null;
+}
+
+/**
+ * Return the plugin that looked up `pluginId` when the lookup should trigger a load:
+ * the option is on, the target is an installed lazy plugin, and the lookup comes
+ * from another plugin's code rather than from Obsidian or On-Demand itself.
+ */
+function getLookupCaller(ctx: PluginContext, pluginId: string): string | null {
+    if (!ctx.getSettings().loadOnPluginLookup) return null;
+    if (!isLazyMode(ctx.getPluginMode(pluginId))) return null;
+    if (!ctx.getManifests().some((manifest) => manifest.id === pluginId)) return null;
+
+    const callerId = getCallingPluginId(new Error().stack, ctx._plugin.manifest.id);
+    if (!callerId || callerId === pluginId) return null;
+    return callerId;
+}
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Load lazy plugins that another plugin looks up via `app.plugins.getPlugin(id)`
+ * or `app.plugins.plugins[id]`.
+ *
+ * The lookup itself still returns `undefined`: callers read the API
+ * synchronously, so there is nothing useful to hand back before the plugin has
+ * loaded. Instead the load starts right away and a diagnostic names the caller,
+ * so a retry (or the next run of a script) finds the plugin.
+ *
+ * Opt-in via `loadOnPluginLookup`: install it only while the option is on,
+ * since the proxy sits in front of every read of `app.plugins.plugins`.
+ */
+export function patchPluginLookup(ctx: PluginContext, loadPlugin: (pluginId: string) => Promise<boolean>): () => void {
+    const obsidianPlugins = ctx.obsidianPlugins;
+    const pending = new Set<string>();
+    let active = true;
+
+    const onMiss = (pluginId: string) => {
+        // Never let lookup tracking break the caller.
+        try {
+            if (!active || pending.has(pluginId)) return;
+            const callerId = getLookupCaller(ctx, pluginId);
+            if (!callerId) return;
+
+            pending.add(pluginId);
+            logger.info(`${callerId} looked up ${pluginId} before it was loaded. Loading ${pluginId} now; the lookup returned undefined.`);
+            void loadPlugin(pluginId)
+                .then((loaded) => {
+                    if (!loaded) logger.warn(`${pluginId} failed to load after a lookup from ${callerId}`);
+                })
+                .catch((error) => logger.warn(`Error loading ${pluginId} after a lookup from ${callerId}:`, error))
+                .finally(() => pending.delete(pluginId));
+        } catch (error) {
+            logger.warn("plugin lookup tracking failed:", error);
+        }
+    };
+
+    const uninstallGetPlugin = around(obsidianPlugins, {
+        getPlugin: (next: Plugins["getPlugin"]) =>
+            function (this: Plugins, pluginId: string) {
+                const plugin = next.call(this, pluginId);
+                if (!plugin) onMiss(pluginId);
+                return plugin;
+            },
+    });
+
+    // Direct reads of `plugins[id]` go through a proxy over the same object, so
+    // Obsidian's own writes land in the original map.
+    const original = obsidianPlugins.plugins;
+    const proxy = new Proxy(original, {
+        get: (target, prop, receiver) => {
+            const value: unknown = Reflect.get(target, prop, receiver);
+            if (value === undefined && typeof prop === "string") onMiss(prop);
+            return value;
+        },
+    });
+    obsidianPlugins.plugins = proxy;
+
+    return () => {
+        active = false;
+        uninstallGetPlugin();
+        if (obsidianPlugins.plugins === proxy) {
+            obsidianPlugins.plugins = original;
+        }
+    };
+}
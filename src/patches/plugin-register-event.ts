@@ -0,0 +1,37 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { EventRef } from "obsidian";
+import { Plugin } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/RegisterEventPatch");
+
+type RegisterEvent = (this: Plugin, eventRef: EventRef) => void;
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.registerEvent to attribute event references to the
+ * owning plugin via `this.manifest.id`.
+ *
+ * Events are keyed by name only, so the plugin instance passed as `this` is
+ * the only way to tell whose handler a reference belongs to. Installed for
+ * the whole session, like patchPluginProtocolHandler.
+ */
+export function patchPluginRegisterEvent(onRegister: (pluginId: string, eventRef: EventRef) => void): () => void {
+    return around(Plugin.prototype, {
+        registerEvent: (next: RegisterEvent) =>
+            function (this: Plugin, eventRef: EventRef) {
+                // Keep the original registration intact even if attribution fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && eventRef) {
+                        onRegister(pluginId, eventRef);
+                    }
+                } catch (error) {
+                    logger.warn("registerEvent attribution failed:", error);
+                }
+
+                return next.call(this, eventRef);
+            },
+    });
+}
@@ -0,0 +1,39 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { ObsidianProtocolHandler } from "obsidian";
+import { Plugin } from "obsidian";
+
+const logger = log.getLogger("OnDemandPlugin/ProtocolHandlerPatch");
+
+type RegisterObsidianProtocolHandler = (this: Plugin, action: string, handler: ObsidianProtocolHandler) => void;
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.registerObsidianProtocolHandler to attribute
+ * obsidian:// actions to the owning plugin via `this.manifest.id`.
+ *
+ * The workspace-level handler map is keyed by action only, so the plugin
+ * instance passed as `this` is the only reliable way to know which plugin an
+ * action belongs to. Like patchPluginRegisterView, this stays installed for
+ * the whole session so registrations made after an `await` in onload are
+ * still observed.
+ */
+export function patchPluginProtocolHandler(onRegister: (pluginId: string, action: string) => void): () => void {
+    return around(Plugin.prototype, {
+        registerObsidianProtocolHandler: (next: RegisterObsidianProtocolHandler) =>
+            function (this: Plugin, action: string, handler: ObsidianProtocolHandler) {
+                // Keep the original registration intact even if attribution fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    if (pluginId && action) {
+                        onRegister(pluginId, action);
+                    }
+                } catch (error) {
+                    logger.warn("registerObsidianProtocolHandler attribution failed:", error);
+                }
+
+                return next.call(this, action, handler);
+            },
+    });
+}
@@ -116,6 +116,29 @@ describe("patchRibbonReorder", () => {
         warnSpy.mockRestore();
     });
 
+    it("notifies hooks around the real registration with the resolved ribbon position", () => {
+        setupPrototype();
+        const calls: string[] = [];
+        const beforeAdd = vi.fn(() => calls.push("before"));
+        const onAdded = vi.fn(() => calls.push("after"));
+        (Plugin.prototype as unknown as Record<string, unknown>).addRibbonIcon = vi.fn(() => {
+            calls.push("add");
+            return { tagName: "DIV" };
+        });
+
+        const ctx = createMockCtx({
+            workspace: { leftRibbon: { items: [{ id: "core:search" }, { id: "test-plugin:Test" }] } },
+        });
+        patchRibbonReorder(ctx, { beforeAdd, onAdded });
+
+        const plugin = createPluginInstance();
+        plugin.addRibbonIcon("dice", "Test", vi.fn());
+
+        expect(calls).toEqual(["before", "add", "after"]);
+        expect(beforeAdd).toHaveBeenCalledWith("test-plugin", "Test");
+        expect(onAdded).toHaveBeenCalledWith("test-plugin", { icon: "dice", title: "Test", position: 1 });
+    });
+
     it("cleanup restores original method", () => {
         setupPrototype();
         const original = (Plugin.prototype as unknown as { addRibbonIcon?: Plugin["addRibbonIcon"] }).addRibbonIcon;
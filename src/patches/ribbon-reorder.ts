@@ -2,26 +2,70 @@ import log from "loglevel";
 import { around } from "monkey-around";
 import { Plugin } from "obsidian";
 import type { PluginContext } from "src/core/plugin-context";
+import type { CachedRibbonIcon } from "src/core/types";
 
 const logger = log.getLogger("OnDemandPlugin/RibbonReorder");
 
 type AddRibbonIcon = (this: Plugin, icon: string, title: string, callback: (evt: MouseEvent) => void) => HTMLElement;
+
+interface RibbonIconHooks {
+    /** Called before the plugin's icon is added, so a placeholder with the same id can step aside. */
+    beforeAdd?: (pluginId: string, title: string) => void;
+    /** Called after the icon is added, with its resolved position in the left ribbon. */
+    onAdded?: (pluginId: string, icon: CachedRibbonIcon) => void;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+/**
+ * Obsidian derives the ribbon item id from the plugin id and the icon title.
+ */
+export function getRibbonItemId(pluginId: string, title: string): string {
+    return `${pluginId}:${title}`;
+}
+
+function findRibbonPosition(ctx: PluginContext, id: string): number | undefined {
+    const ribbon = ctx.app.workspace.leftRibbon as unknown as { items?: { id: string }[] } | undefined;
+    const index = ribbon?.items?.findIndex((item) => item.id === id) ?? -1;
+    return index >= 0 ? index : undefined;
+}
+
 // ── Patch ────────────────────────────────────────────────────────────────────
 
 /**
  * Fixes random ribbon icon order and prevents hidden icons from
  * reappearing for lazy-loaded plugins.
  *
+ * The optional hooks let the lazy engine capture each plugin's icons during
+ * cache rebuilds and swap its placeholders for the real icons.
+ *
  * Related: https://github.com/22-2/obsidian-on-demand-plugins/issues/1
  */
-export function patchRibbonReorder(ctx: PluginContext): void {
+export function patchRibbonReorder(ctx: PluginContext, hooks: RibbonIconHooks = {}): void {
     if (typeof Plugin.prototype.addRibbonIcon !== "function") return;
 
     ctx.register(
         around(Plugin.prototype, {
             addRibbonIcon: (next: AddRibbonIcon) =>
                 function (this: Plugin, ...args: Parameters<AddRibbonIcon>): ReturnType<AddRibbonIcon> {
+                    const [icon, title] = args;
+                    const pluginId = this.manifest?.id;
+                    try {
+                        if (pluginId) hooks.beforeAdd?.(pluginId, title);
+                    } catch (error) {
+                        logger.warn("addRibbonIcon beforeAdd hook failed:", error);
+                    }
+
                     const result = next.call(this, ...args);
+
+                    try {
+                        if (pluginId) {
+                            hooks.onAdded?.(pluginId, { icon, title, position: findRibbonPosition(ctx, getRibbonItemId(pluginId, title)) });
+                        }
+                    } catch (error) {
+                        logger.warn("addRibbonIcon onAdded hook failed:", error);
+                    }
+
                     try {
                         ctx.app.updateRibbonDisplay();
                     } catch (error) {
@@ -0,0 +1,40 @@
+import log from "loglevel";
+import { around } from "monkey-around";
+import type { PluginSettingTab } from "obsidian";
+import { Plugin } from "obsidian";
+import type { CachedSettingTab } from "src/core/types";
+
+const logger = log.getLogger("OnDemandPlugin/SettingTabPatch");
+
+type AddSettingTab = (this: Plugin, settingTab: PluginSettingTab) => void;
+
+// ── Patch ────────────────────────────────────────────────────────────────────
+
+/**
+ * Patch Plugin.prototype.addSettingTab to attribute settings tabs to the
+ * owning plugin via `this.manifest.id`.
+ *
+ * `onRegister` runs before the tab is added, so a placeholder with the same
+ * id can step aside first. Installed for the whole session, like
+ * patchPluginProtocolHandler, so tabs added after an `await` in onload are
+ * still observed.
+ */
+export function patchPluginAddSettingTab(onRegister: (pluginId: string, tab: CachedSettingTab) => void): () => void {
+    return around(Plugin.prototype, {
+        addSettingTab: (next: AddSettingTab) =>
+            function (this: Plugin, settingTab: PluginSettingTab) {
+                // Keep the original registration intact even if attribution fails.
+                try {
+                    const pluginId = this.manifest?.id;
+                    const { id, name } = settingTab as unknown as { id?: string; name?: string };
+                    if (pluginId && id) {
+                        onRegister(pluginId, { id, name: name ?? this.manifest.name });
+                    }
+                } catch (error) {
+                    logger.warn("addSettingTab attribution failed:", error);
+                }
+
+                return next.call(this, settingTab);
+            },
+    });
+}
@@ -117,3 +117,40 @@ export function patchViewRegistry(ctx: PluginContext, lazyOnViews: Record<string
             },
     });
 }
+
+interface ViewRegistrationHooks {
+    beforeRegister: (type: string, creator: ViewCreator) => void;
+    onRegistered: (type: string) => void;
+    onUnregistered: (type: string) => void;
+}
+
+/**
+ * Patch ViewRegistry.registerView / unregisterView for the lazy view
+ * placeholders: they step aside right before the real view type is
+ * registered and come back once it is unregistered again.
+ */
+export function patchViewRegistration(ctx: PluginContext, hooks: ViewRegistrationHooks): () => void {
+    const runHook = (name: string, hook: () => void) => {
+        try {
+            hook();
+        } catch (error) {
+            logger.warn(`${name} hook failed:`, error);
+        }
+    };
+
+    return around(ctx.app.viewRegistry, {
+        registerView: (next) =>
+            function (this: ViewRegistry, type, creator) {
+                runHook("registerView", () => hooks.beforeRegister(type, creator));
+                const result = next.call(this, type, creator);
+                runHook("registerView", () => hooks.onRegistered(type));
+                return result;
+            },
+        unregisterView: (next) =>
+            function (this: ViewRegistry, type) {
+                const result = next.call(this, type);
+                runHook("unregisterView", () => hooks.onUnregistered(type));
+                return result;
+            },
+    });
+}
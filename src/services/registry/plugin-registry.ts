@@ -50,19 +50,22 @@ export class PluginRegistry {
 
     async loadEnabledPluginsFromDisk(showConsoleLog?: boolean) {
         this.enabledPluginsFromDisk.clear();
+        (await this.readCommunityPluginsFile(showConsoleLog)).forEach((id) => this.enabledPluginsFromDisk.add(id));
+    }
 
+    /** Read community-plugins.json without updating `enabledPluginsFromDisk`. */
+    async readCommunityPluginsFile(showConsoleLog?: boolean): Promise<string[]> {
         try {
             const parsed = await this.app.vault.readConfigJson("community-plugins");
             if (Array.isArray(parsed)) {
-                parsed.forEach((id: unknown) => {
-                    if (typeof id === "string") this.enabledPluginsFromDisk.add(id);
-                });
+                return parsed.filter((id: unknown): id is string => typeof id === "string");
             }
         } catch (error) {
             if (showConsoleLog) {
                 logger.warn("Failed to read community-plugins.json using readConfigJson", error);
             }
         }
+        return [];
     }
 
     async writeCommunityPluginsFile(enabledPlugins: string[], showConsoleLog?: boolean) {
@@ -101,6 +101,31 @@ describe("SettingsService load normalization", () => {
         expect(service.data.profiles.Default.settings.lazyOnFiles).toEqual({});
     });
 
+    it("fills in missing or invalid load scheduling settings", async () => {
+        const { service } = createService(
+            migratedDataWith({
+                profiles: {
+                    Default: {
+                        id: "Default",
+                        name: "Default",
+                        settings: {
+                            defaultMode: "lazy",
+                            layoutReadyConcurrency: 0,
+                            plugins: {},
+                            lazyOnViews: {},
+                            lazyOnFiles: {},
+                        },
+                    },
+                },
+            }),
+        );
+
+        await service.load();
+
+        expect(service.data.profiles.Default.settings.layoutReadyConcurrency).toBe(3);
+        expect(service.data.profiles.Default.settings.layoutReadyDelayMs).toBe(0);
+    });
+
     it("falls back to a default profile when top-level profile shape is invalid", async () => {
         const plugin: MockPlugin = {
             loadData: vi.fn().mockResolvedValue({
@@ -2,7 +2,7 @@ import log from "loglevel";
 import { Platform } from "obsidian";
 import { loadLocalStorage } from "src/core/storage";
 import type { DeviceSettings, LazySettings, Profile } from "src/core/types";
-import { DEFAULT_DEVICE_SETTINGS, DEFAULT_PROFILE_ID, DEFAULT_SETTINGS } from "src/core/types";
+import { COMMAND_CACHE_BACKENDS, DEFAULT_DEVICE_SETTINGS, DEFAULT_PROFILE_ID, DEFAULT_SETTINGS } from "src/core/types";
 import type OnDemandPlugin from "src/main";
 
 const logger = log.getLogger("OnDemandPlugin/SettingsService");
@@ -182,6 +182,21 @@ export class SettingsService {
         if (profile.settings.showDescriptions === undefined) {
             profile.settings.showDescriptions = DEFAULT_DEVICE_SETTINGS.showDescriptions;
         }
+        if (profile.settings.loadOnPluginLookup === undefined) {
+            profile.settings.loadOnPluginLookup = DEFAULT_DEVICE_SETTINGS.loadOnPluginLookup;
+        }
+        if (profile.settings.shareCommandCache === undefined) {
+            profile.settings.shareCommandCache = DEFAULT_DEVICE_SETTINGS.shareCommandCache;
+        }
+        if (!COMMAND_CACHE_BACKENDS.includes(profile.settings.commandCacheBackend)) {
+            profile.settings.commandCacheBackend = DEFAULT_DEVICE_SETTINGS.commandCacheBackend;
+        }
+        if (typeof profile.settings.layoutReadyConcurrency !== "number" || profile.settings.layoutReadyConcurrency < 1) {
+            profile.settings.layoutReadyConcurrency = DEFAULT_DEVICE_SETTINGS.layoutReadyConcurrency;
+        }
+        if (typeof profile.settings.layoutReadyDelayMs !== "number" || profile.settings.layoutReadyDelayMs < 0) {
+            profile.settings.layoutReadyDelayMs = DEFAULT_DEVICE_SETTINGS.layoutReadyDelayMs;
+        }
         if (!isRecord(profile.settings.plugins)) {
             profile.settings.plugins = {};
         }
@@ -0,0 +1,103 @@
+import type { App } from "obsidian";
+import { Modal, Setting } from "obsidian";
+import { PluginModes } from "src/core/types";
+import type { ApplyPlan, PlannedPluginState, PluginApplyPlan } from "src/features/startup-policy/apply-plan";
+
+const STATE_LABELS: Record<PlannedPluginState, string> = {
+    running: "running",
+    stopped: "stopped",
+    later: "loads later",
+};
+
+/**
+ * Shows what applying the pending changes will do before anything happens:
+ * per plugin where it ends up, whether it is enabled for view capture or has
+ * its command cache rebuilt, and the community-plugins.json before and after.
+ */
+export class ApplyPlanModal extends Modal {
+    // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
+    private plan: ApplyPlan;
+    private resolve: (accepted: boolean) => void = () => {};
+    private accepted = false;
+
+    constructor(app: App, plan: ApplyPlan) {
+        super(app);
+        this.plan = plan;
+    }
+
+    /** Open the modal and resolve with whether the user chose to apply. */
+    openAndWait(): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("lazy-apply-plan-modal");
+
+        new Setting(contentEl).setName("Apply plan").setHeading();
+
+        const { viewCapturePluginIds, cacheRebuildPluginIds } = this.plan;
+        contentEl.createEl("p", {
+            cls: "setting-item-description",
+            text: `${this.plan.plugins.length} plugin${this.plan.plugins.length === 1 ? "" : "s"} to apply. ${viewCapturePluginIds.length} enabled for view capture, ${cacheRebuildPluginIds.length} command cache${cacheRebuildPluginIds.length === 1 ? "" : "s"} rebuilt.`,
+        });
+
+        this.plan.plugins.forEach((plugin) => this.renderPlugin(plugin));
+        this.renderCommunityPlugins();
+
+        new Setting(contentEl)
+            .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Apply")
+                    .setCta()
+                    .onClick(() => {
+                        this.accepted = true;
+                        this.close();
+                    }),
+            );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.accepted);
+    }
+
+    private renderPlugin(plugin: PluginApplyPlan) {
+        new Setting(this.contentEl)
+            .setName(plugin.name)
+            .setDesc(`${PluginModes[plugin.mode]}: ${plugin.runningNow ? "running" : "stopped"} → ${STATE_LABELS[plugin.after]}`)
+            .setHeading();
+
+        const list = this.contentEl.createEl("ul", { cls: "lazy-apply-plan-list" });
+        if (plugin.enabledForViewCapture) list.createEl("li", { text: "Enabled to capture its view types" });
+        if (plugin.rebuildsCache) list.createEl("li", { text: "Command cache rebuilt" });
+        if (plugin.startsWithObsidian.before !== plugin.startsWithObsidian.after) {
+            list.createEl("li", {
+                cls: plugin.startsWithObsidian.after ? "mod-added" : "mod-removed",
+                text: plugin.startsWithObsidian.after ? "Added to community-plugins.json" : "Removed from community-plugins.json",
+            });
+        }
+        if (!list.childElementCount) {
+            list.createEl("li", { cls: "mod-unchanged", text: "No other changes" });
+        }
+    }
+
+    private renderCommunityPlugins() {
+        const { before, after } = this.plan.communityPlugins;
+        new Setting(this.contentEl).setName("community-plugins.json").setDesc(`${before.length} → ${after.length} plugins`).setHeading();
+
+        const list = this.contentEl.createEl("ul", { cls: "lazy-apply-plan-list" });
+        Array.from(new Set([...before, ...after]))
+            .sort((a, b) => a.localeCompare(b))
+            .forEach((id) => {
+                const cls = !before.includes(id) ? "mod-added" : !after.includes(id) ? "mod-removed" : "mod-unchanged";
+                const prefix = cls === "mod-added" ? "+ " : cls === "mod-removed" ? "- " : "  ";
+                list.createEl("li", { cls, text: `${prefix}${id}` });
+            });
+    }
+}
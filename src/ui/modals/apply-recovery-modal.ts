@@ -0,0 +1,76 @@
+import type { App, PluginManifest } from "obsidian";
+import { Modal, Setting } from "obsidian";
+import type { ApplyJournal } from "src/features/startup-policy/apply-journal";
+
+export type ApplyRecoveryChoice = "rollback" | "resume" | "keep";
+
+/**
+ * Offers to roll back or resume an apply that the last session never
+ * finished, with what it had done so far.
+ */
+export class ApplyRecoveryModal extends Modal {
+    // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
+    private journal: ApplyJournal;
+    private manifests: PluginManifest[];
+    private resolve: (choice: ApplyRecoveryChoice | null) => void = () => {};
+    private choice: ApplyRecoveryChoice | null = null;
+
+    constructor(app: App, journal: ApplyJournal, manifests: PluginManifest[]) {
+        super(app);
+        this.journal = journal;
+        this.manifests = manifests;
+    }
+
+    /** Open the modal and resolve with the chosen action, or null when it was closed without one. */
+    openAndWait(): Promise<ApplyRecoveryChoice | null> {
+        return new Promise((resolve) => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        new Setting(contentEl).setName("Unfinished apply").setHeading();
+
+        const pluginIds = Object.keys(this.journal.intendedModes);
+        const nameOf = (id: string) => this.manifests.find((manifest) => manifest.id === id)?.name ?? id;
+        contentEl.createEl("p", {
+            text: `Applying plugin modes on ${new Date(this.journal.startedAt).toLocaleString()} did not finish. ${this.journal.appliedPluginIds.length} of ${pluginIds.length} plugins were switched before it stopped.`,
+        });
+        contentEl.createEl("p", {
+            cls: "setting-item-description",
+            text: `Plugins: ${pluginIds.map(nameOf).join(", ") || "none"}`,
+        });
+
+        new Setting(contentEl)
+            .setName("Roll back")
+            .setDesc("Restore community-plugins.json, the enabled plugins and the plugin modes from before the apply, then reload Obsidian.")
+            .addButton((btn) => btn.setButtonText("Roll back").onClick(() => this.choose("rollback")));
+        new Setting(contentEl)
+            .setName("Resume")
+            .setDesc("Run the apply again for the same plugins.")
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Resume")
+                    .setCta()
+                    .onClick(() => this.choose("resume")),
+            );
+        new Setting(contentEl)
+            .setName("Keep as is")
+            .setDesc("Leave plugins as they are now and stop asking.")
+            .addButton((btn) => btn.setButtonText("Keep").onClick(() => this.choose("keep")));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.choice);
+    }
+
+    private choose(choice: ApplyRecoveryChoice) {
+        this.choice = choice;
+        this.close();
+    }
+}
@@ -0,0 +1,68 @@
+import type { App, PluginManifest } from "obsidian";
+import { Modal, Setting } from "obsidian";
+import type { CacheDiffReport, PluginCacheDiff, ValueChange } from "src/features/lazy-engine/command-cache/cache-diff";
+
+function formatChange(change: ValueChange): string {
+    return `"${change.from ?? ""}" → "${change.to ?? ""}"`;
+}
+
+/**
+ * Lists what a command cache rebuild changed: added, removed and renamed
+ * command ids, name and icon changes, and the plugin version before and after.
+ */
+export class CacheDiffModal extends Modal {
+    // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
+    private report: CacheDiffReport;
+    private manifests: PluginManifest[];
+
+    constructor(app: App, report: CacheDiffReport, manifests: PluginManifest[]) {
+        super(app);
+        this.report = report;
+        this.manifests = manifests;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("lazy-cache-diff-modal");
+
+        new Setting(contentEl).setName("Command cache changes").setHeading();
+
+        const rebuilt = this.report.rebuiltPluginIds.length;
+        const changed = this.report.plugins.length;
+        contentEl.createEl("p", {
+            cls: "setting-item-description",
+            text: `Rebuilt ${rebuilt} plugin${rebuilt === 1 ? "" : "s"} on ${new Date(this.report.createdAt).toLocaleString()}. ${changed ? `${changed} changed.` : "Nothing changed."}`,
+        });
+
+        this.report.plugins.forEach((diff) => this.renderPlugin(diff));
+
+        new Setting(contentEl).addButton((btn) => btn.setButtonText("Close").onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private renderPlugin(diff: PluginCacheDiff) {
+        const name = this.manifests.find((manifest) => manifest.id === diff.pluginId)?.name ?? diff.pluginId;
+        const heading = new Setting(this.contentEl).setName(name).setHeading();
+        if (diff.versionBefore !== diff.versionAfter) {
+            heading.setDesc(`${diff.versionBefore ?? "not cached"} → ${diff.versionAfter ?? "not cached"}`);
+        }
+
+        const list = this.contentEl.createEl("ul", { cls: "lazy-cache-diff-list" });
+        const addItem = (cls: string, text: string) => list.createEl("li", { cls, text });
+
+        diff.added.forEach((id) => addItem("mod-added", `Added ${id}`));
+        diff.removed.forEach((id) => addItem("mod-removed", `Removed ${id}`));
+        diff.renamed.forEach(({ from, to, name }) => addItem("mod-renamed", `Renamed "${name}": ${from} → ${to}`));
+        diff.changed.forEach(({ id, name, icon }) => {
+            if (name) addItem("mod-changed", `${id}: name ${formatChange(name)}`);
+            if (icon) addItem("mod-changed", `${id}: icon ${formatChange(icon)}`);
+        });
+        if (!list.childElementCount) {
+            addItem("mod-unchanged", "Same commands as before");
+        }
+    }
+}
@@ -1,7 +1,9 @@
 import log from "loglevel";
 import type { App } from "obsidian";
 import { Modal, Notice, Setting } from "obsidian";
-import type { LazyOptions } from "src/core/types";
+import type { LazyOptions, LOAD_PRIORITY } from "src/core/types";
+import { LoadPriorities, PLUGIN_MODE } from "src/core/types";
+import { createDefaultLazyOptions } from "src/core/utils";
 import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
 import type OnDemandPlugin from "src/main";
 
@@ -13,6 +15,10 @@ export class LazyOptionsModal extends Modal {
     private pluginId: string;
     private onSave?: () => void;
     private options: LazyOptions;
+    private loadPriority: LOAD_PRIORITY | undefined;
+    private loadAfter: string[];
+    private dependsOn: string[];
+    private unloadAfterIdleMinutes: number | undefined;
 
     constructor(app: App, plugin: OnDemandPlugin, pluginId: string, onSave?: () => void) {
         super(app);
@@ -20,27 +26,13 @@ export class LazyOptionsModal extends Modal {
         this.pluginId = pluginId;
         this.onSave = onSave;
         const settings = this.plugin.settings.plugins[this.pluginId];
-        const legacyViewTypes = this.plugin.settings.lazyOnViews?.[pluginId] ?? [];
+        this.loadPriority = settings?.loadPriority;
+        this.loadAfter = [...(settings?.loadAfter ?? [])];
+        this.dependsOn = [...(settings?.dependsOn ?? [])];
+        this.unloadAfterIdleMinutes = settings?.unloadAfterIdleMinutes;
 
         // Initialize options from existing settings or defaults
-        this.options = settings?.lazyOptions
-            ? structuredClone(settings.lazyOptions)
-            : {
-                  // Legacy view rules are represented by LAZY + lazyOptions/useView.
-                  useView: settings?.mode === "lazy" && legacyViewTypes.length > 0,
-                  viewTypes: legacyViewTypes,
-                  useFile: false,
-                  fileCriteria: this.plugin.settings.lazyOnFiles?.[pluginId] || {},
-              };
-
-        // Special case for Excalidraw if not configured
-        if (pluginId === "obsidian-excalidraw-plugin" && !settings?.lazyOptions) {
-            this.options.useFile = true;
-            this.options.fileCriteria = {
-                suffixes: [".excalidraw"],
-                frontmatterKeys: ["excalidraw-plugin"],
-            };
-        }
+        this.options = settings?.lazyOptions ? structuredClone(settings.lazyOptions) : createDefaultLazyOptions(this.plugin.settings, pluginId);
     }
 
     onOpen() {
@@ -153,6 +145,99 @@ export class LazyOptionsModal extends Modal {
             //     );
         }
 
+        // --- Extension Settings ---
+        new Setting(contentEl)
+            .setName("Lazy on extension")
+            .setDesc("Load plugin when a file with an extension it registers is opened. Extensions are collected automatically when you apply changes.")
+            .addToggle((toggle) =>
+                toggle.setValue(this.options.useExtensions ?? false).onChange((value) => {
+                    this.options.useExtensions = value;
+                    this.onOpen();
+                }),
+            );
+
+        if (this.options.useExtensions) {
+            new Setting(contentEl)
+                .setName("File extensions")
+                .setDesc("Extensions without the leading dot, one per line.")
+                .addTextArea((text) =>
+                    text.setValue(this.options.extensions?.join("\n") || "").onChange((value) => {
+                        this.options.extensions = value
+                            .split(/[\n,]/)
+                            .map((s) => s.trim().replace(/^\./, "").toLowerCase())
+                            .filter((s) => s !== "");
+                    }),
+                );
+        }
+
+        // --- Menu Settings ---
+        new Setting(contentEl)
+            .setName("Lazy on menu")
+            .setDesc("Show this plugin's file and editor menu items before it is loaded. Selecting one loads the plugin and runs the item. Items are collected when the command cache is rebuilt.")
+            .addToggle((toggle) =>
+                toggle.setValue(this.options.useMenus ?? false).onChange((value) => {
+                    this.options.useMenus = value;
+                }),
+            );
+
+        // --- Dependency Settings ---
+        new Setting(contentEl)
+            .setName("Depends on")
+            .setDesc("One plugin ID per line. These plugins are loaded first whenever this plugin is lazy-loaded.")
+            .addTextArea((text) =>
+                text.setValue(this.dependsOn.join("\n")).onChange((value) => {
+                    this.dependsOn = value
+                        .split(/[\n,]/)
+                        .map((s) => s.trim())
+                        .filter((s) => s !== "" && s !== this.pluginId);
+                }),
+            );
+
+        const mode = this.plugin.getPluginMode(this.pluginId);
+
+        // --- Idle Unload Settings ---
+        if (mode === PLUGIN_MODE.LAZY) {
+            new Setting(contentEl)
+                .setName("Unload when idle")
+                .setDesc("Minutes without running one of this plugin's commands or having its views open, after which the plugin is unloaded again. Leave empty to keep it loaded.")
+                .addText((text) => {
+                    text.inputEl.type = "number";
+                    text.setPlaceholder("Never")
+                        .setValue(this.unloadAfterIdleMinutes ? String(this.unloadAfterIdleMinutes) : "")
+                        .onChange((value) => {
+                            const minutes = Number(value);
+                            this.unloadAfterIdleMinutes = Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+                        });
+                });
+        }
+
+        // --- Load Order Settings ---
+        if (mode === PLUGIN_MODE.LAZY_ON_LAYOUT_READY || mode === PLUGIN_MODE.LAZY_ON_IDLE) {
+            new Setting(contentEl)
+                .setName("Load priority")
+                .setDesc("Plugins load one tier at a time after layout ready; high loads first.")
+                .addDropdown((dropdown) => {
+                    Object.entries(LoadPriorities).forEach(([key, label]) => {
+                        dropdown.addOption(key, label);
+                    });
+                    dropdown.setValue(this.loadPriority ?? "normal").onChange((value) => {
+                        this.loadPriority = value as LOAD_PRIORITY;
+                    });
+                });
+
+            new Setting(contentEl)
+                .setName("Load after")
+                .setDesc("One plugin ID per line. These plugins finish loading before this one.")
+                .addTextArea((text) =>
+                    text.setValue(this.loadAfter.join("\n")).onChange((value) => {
+                        this.loadAfter = value
+                            .split(/[\n,]/)
+                            .map((s) => s.trim())
+                            .filter((s) => s !== "" && s !== this.pluginId);
+                    }),
+                );
+        }
+
         // --- Buttons ---
         const buttonContainer = contentEl.createDiv({
             cls: "modal-button-container",
@@ -168,6 +253,10 @@ export class LazyOptionsModal extends Modal {
                         const pluginSettings = this.plugin.settings.plugins[this.pluginId];
                         if (pluginSettings) {
                             pluginSettings.lazyOptions = this.options;
+                            pluginSettings.loadPriority = this.loadPriority;
+                            pluginSettings.loadAfter = this.loadAfter.length ? this.loadAfter : undefined;
+                            pluginSettings.dependsOn = this.dependsOn.length ? this.dependsOn : undefined;
+                            pluginSettings.unloadAfterIdleMinutes = this.unloadAfterIdleMinutes;
                             // For backward compatibility during transition, also update the global maps
                             this.plugin.settings.lazyOnViews[this.pluginId] = this.options.useView ? this.options.viewTypes : [];
                             this.plugin.settings.lazyOnFiles[this.pluginId] = this.options.useFile ? this.options.fileCriteria : {};
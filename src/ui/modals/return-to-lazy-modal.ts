@@ -0,0 +1,30 @@
+import type { App, PluginManifest } from "obsidian";
+import { FuzzySuggestModal } from "obsidian";
+
+/**
+ * Pick one of the loaded lazy plugins to unload again.
+ */
+export class ReturnToLazyModal extends FuzzySuggestModal<PluginManifest> {
+    // Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
+    private plugins: PluginManifest[];
+    private onChoose: (manifest: PluginManifest) => void;
+
+    constructor(app: App, plugins: PluginManifest[], onChoose: (manifest: PluginManifest) => void) {
+        super(app);
+        this.plugins = plugins;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Select a loaded lazy plugin to unload");
+    }
+
+    getItems(): PluginManifest[] {
+        return this.plugins;
+    }
+
+    getItemText(manifest: PluginManifest): string {
+        return manifest.name;
+    }
+
+    onChooseItem(manifest: PluginManifest): void {
+        this.onChoose(manifest);
+    }
+}
@@ -4,6 +4,7 @@ import { PluginModes, PLUGIN_MODE } from "src/core/types";
 import type { SyncDirection } from "src/features/maintenance/maintenance-feature";
 import { MaintenanceFeature } from "src/features/maintenance/maintenance-feature";
 import type OnDemandPlugin from "src/main";
+import { CacheDiffModal } from "src/ui/modals/cache-diff-modal";
 
 export class ToolsModal extends Modal {
 	// Keep explicit member fields because erasableSyntaxOnly disallows constructor parameter properties.
@@ -34,6 +35,7 @@ export class ToolsModal extends Modal {
 
 		this.createTab(tabHeader, "maintenance", "Maintenance", "database");
 		this.createTab(tabHeader, "batch", "Batch", "refresh-cw");
+		this.createTab(tabHeader, "recommendations", "Recommendations", "lightbulb");
 		this.createTab(tabHeader, "debug", "Debug", "command");
 
 		this.renderActiveTab();
@@ -75,6 +77,9 @@ export class ToolsModal extends Modal {
 			case "batch":
 				this.buildBatchSection(this.tabContentEl);
 				break;
+			case "recommendations":
+				this.buildRecommendationsSection(this.tabContentEl);
+				break;
 			case "debug":
 				this.buildDebugSection(this.tabContentEl);
 				break;
@@ -103,10 +108,13 @@ export class ToolsModal extends Modal {
 							btn.setDisabled(true);
 							try {
 								const feature = this.plugin.features.get(MaintenanceFeature);
-								await (feature as MaintenanceFeature).rebuildAndApplyCommandCache({
+								const report = await (feature as MaintenanceFeature).rebuildAndApplyCommandCache({
 									force: true,
 								});
 								new Notice("Command cache rebuilt successfully");
+								if (report) {
+									new CacheDiffModal(this.app, report, this.plugin.manifests).open();
+								}
 							} catch {
 								new Notice("Failed to rebuild command cache");
 							} finally {
@@ -259,8 +267,65 @@ export class ToolsModal extends Modal {
 		return dropdown;
 	}
 
+	private buildRecommendationsSection(container: HTMLElement) {
+		new Setting(container).setName("Mode recommendations").setHeading();
+
+		const feature = this.plugin.features.get(MaintenanceFeature)!;
+		const recommendations = feature.getModeRecommendations();
+		const manifests = this.plugin.manifests;
+
+		if (recommendations.length === 0) {
+			container.createDiv({
+				cls: "setting-item-description",
+				text: "No suggestions yet. Suggestions are based on load times, captured commands and usage, so check again after using your plugins for a while.",
+			});
+			return;
+		}
+
+		const accept = (accepted: typeof recommendations) => {
+			const changed = feature.applyModeRecommendations(accepted);
+			if (changed > 0) {
+				new Notice(`Staged ${changed} plugin changes. Click "Save" in settings to apply.`);
+				this.onComplete();
+			}
+			this.renderActiveTab();
+		};
+
+		new Setting(container)
+			.setDesc(`${recommendations.length} suggested changes. Accepted suggestions are staged like any other mode change.`)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Accept all")
+					.setCta()
+					.onClick(() => accept(recommendations)),
+			);
+
+		const listEl = container.createDiv({ cls: "lazy-recommendation-list" });
+		for (const recommendation of recommendations) {
+			const name = manifests.find((m) => m.id === recommendation.pluginId)?.name ?? recommendation.pluginId;
+			new Setting(listEl)
+				.setName(name)
+				.setDesc(`${PluginModes[recommendation.from]} → ${PluginModes[recommendation.to]}. ${recommendation.reason}.`)
+				.addButton((btn) => btn.setButtonText("Accept").onClick(() => accept([recommendation])));
+		}
+	}
+
 	private buildDebugSection(container: HTMLElement) {
 		new Setting(container).setName("Debug options").setHeading();
+
+		const report = this.plugin.features.get(MaintenanceFeature)?.getLastCacheDiffReport() ?? null;
+		new Setting(container)
+			.setName("Last command cache rebuild")
+			.setDesc(report ? `${new Date(report.createdAt).toLocaleString()}: ${report.rebuiltPluginIds.length} plugins rebuilt, ${report.plugins.length} changed.` : "No rebuild has run since Obsidian started.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Show changes")
+					.setDisabled(!report)
+					.onClick(() => {
+						if (report) new CacheDiffModal(this.app, report, this.plugin.manifests).open();
+					}),
+			);
+
 		new Setting(container)
 			.setName("Debug log output")
 			.setDesc("Enable detailed logs for troubleshooting.")
@@ -2,20 +2,27 @@ import type { App, ButtonComponent, DropdownComponent } from "obsidian";
 import { ExtraButtonComponent, Notice, PluginSettingTab, Setting } from "obsidian";
 import { showConfirmModal } from "src/core/confirm-modal";
 import { FeatureEvents } from "src/core/event-bus";
-import type { PluginSettings, PLUGIN_MODE } from "src/core/types";
-import { PluginModes } from "src/core/types";
+import type { CommandCacheBackendKind, PluginSettings } from "src/core/types";
+import { PLUGIN_MODE, PluginModes } from "src/core/types";
 import { isLazyMode } from "src/core/utils";
+import { LazyEngineFeature } from "src/features/lazy-engine/lazy-engine-feature";
+import { StartupPolicyFeature } from "src/features/startup-policy/startup-policy-feature";
 import type OnDemandPlugin from "src/main";
+import { ApplyPlanModal } from "src/ui/modals/apply-plan-modal";
 import { LazyOptionsModal } from "src/ui/modals/lazy-options-modal";
 import { ProfileManagerModal } from "src/ui/modals/profile-manager-modal";
 import { ToolsModal } from "src/ui/modals/tools-modal";
 
+type PluginSortKey = "name" | "uses" | "lastUsed";
+
 export class SettingsTab extends PluginSettingTab {
     app: App;
     plugin: OnDemandPlugin;
     dropdowns: DropdownComponent[] = [];
     filterMethod: PLUGIN_MODE | undefined;
     filterString: string | undefined;
+    sortKey: PluginSortKey = "name";
+    sortDescending = false;
     // Created in buildDom() before buildPluginList() runs.
     pluginSectionContainer!: HTMLElement;
     pluginSectionContent!: HTMLElement;
@@ -25,6 +32,8 @@ export class SettingsTab extends PluginSettingTab {
     pluginSettings: { [pluginId: string]: PluginSettings } = {};
     private pluginListBuilt = false;
     pendingPluginIds = new Set<string>();
+    /** Saved modes of the plugins whose mode was changed since the last save. */
+    private originalModes: Record<string, PLUGIN_MODE> = {};
     isDirty = false;
     applyButton?: ButtonComponent;
     discardButton?: ButtonComponent;
@@ -47,8 +56,18 @@ export class SettingsTab extends PluginSettingTab {
         this.plugin.updateManifests();
         this.pluginSettings = this.plugin.settings.plugins;
         this.pendingPluginIds.clear();
+        this.originalModes = {};
 
         this.buildDom();
+        void this.analyzeBundles();
+    }
+
+    /** Scan plugin bundles in the background and show their compatibility badges once known. */
+    private async analyzeBundles(): Promise<void> {
+        const analyzer = this.plugin.features.get(LazyEngineFeature)?.bundleAnalyzer;
+        if (!analyzer) return;
+        const analyzed = await analyzer.analyzeAll(this.plugin.manifests);
+        if (analyzed && this.pluginListBuilt) this.buildPluginList();
     }
 
     /**
@@ -137,6 +156,71 @@ export class SettingsTab extends PluginSettingTab {
                 });
             });
 
+        new Setting(this.containerEl)
+            .setName("Load plugins when other plugins look them up")
+            .setDesc("When another plugin or a script asks for a lazy plugin that is not loaded yet (for example from a script), load it right away. The first lookup still finds nothing; the details are logged to the console.")
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.loadOnPluginLookup).onChange((value) => {
+                    this.plugin.settings.loadOnPluginLookup = value;
+                    this.isDirty = true;
+                    this.updateApplyButton();
+                });
+            });
+
+        new Setting(this.containerEl)
+            .setName("Share command cache across devices")
+            .setDesc("Also keep the command cache in a file in this plugin's folder, which syncs with the vault. On startup, plugins without an up-to-date local cache use the one built on another device with the same plugin version.")
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.shareCommandCache).onChange((value) => {
+                    this.plugin.settings.shareCommandCache = value;
+                    this.isDirty = true;
+                    this.updateApplyButton();
+                });
+            });
+
+        new Setting(this.containerEl)
+            .setName("Command cache storage")
+            .setDesc("Where this device keeps its command cache. Switch to a file in this plugin's folder or to the app database when many plugins are lazy and local storage runs out of space. The current cache is moved over when you save.")
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOptions({ localStorage: "Local storage", indexedDb: "App database (IndexedDB)", file: "File in plugin folder" })
+                    .setValue(this.plugin.settings.commandCacheBackend)
+                    .onChange((value: string) => {
+                        this.plugin.settings.commandCacheBackend = value as CommandCacheBackendKind;
+                        this.isDirty = true;
+                        this.updateApplyButton();
+                    });
+            });
+
+        new Setting(this.containerEl)
+            .setName("Parallel loads after layout ready")
+            .setDesc("How many lazy-on-layout-ready and lazy-on-idle plugins load at the same time. Plugins are loaded by priority tier; set the tier and load-after rules per plugin in its lazy options.")
+            .addSlider((slider) => {
+                slider
+                    .setLimits(1, 10, 1)
+                    .setValue(this.plugin.settings.layoutReadyConcurrency)
+                    .onChange((value) => {
+                        this.plugin.settings.layoutReadyConcurrency = value;
+                        this.isDirty = true;
+                        this.updateApplyButton();
+                    });
+            });
+
+        new Setting(this.containerEl)
+            .setName("Delay between loads")
+            .setDesc("Milliseconds each load slot waits after a plugin finished loading before starting the next one.")
+            .addText((text) => {
+                text.inputEl.type = "number";
+                text.setPlaceholder("0")
+                    .setValue(String(this.plugin.settings.layoutReadyDelayMs))
+                    .onChange((value) => {
+                        const delay = Number(value);
+                        this.plugin.settings.layoutReadyDelayMs = Number.isFinite(delay) && delay > 0 ? Math.floor(delay) : 0;
+                        this.isDirty = true;
+                        this.updateApplyButton();
+                    });
+            });
+
         new Setting(this.containerEl)
             .setName("Maintenance and batch operations")
             .setDesc("Rebuild command cache, sync with Obsidian settings, or batch-update plugin modes.")
@@ -221,6 +305,8 @@ export class SettingsTab extends PluginSettingTab {
                 });
             });
 
+        this.buildSortColumns(this.pluginSectionContent.createDiv({ cls: "lazy-plugin-sort-columns" }));
+
         // Add an element to contain the plugin list
         this.pluginListContainer = this.pluginSectionContent.createEl("div", {
             cls: "lazy-plugin-list-body",
@@ -252,6 +338,7 @@ export class SettingsTab extends PluginSettingTab {
         // Use the managed switchProfile method which updates references and saves
         this.isDirty = false;
         this.pendingPluginIds.clear();
+        this.originalModes = {};
         new Notice(`Switched to profile: ${profiles[newProfileId].name}`);
         await this.plugin.switchProfile(newProfileId);
         this.display(); // Rebuild everything for the new profile
@@ -260,8 +347,21 @@ export class SettingsTab extends PluginSettingTab {
     private async handleSaveChanges(): Promise<void> {
         const count = this.pendingPluginIds.size;
         this.normalizeLazyOnViews();
+        const policyFeature = this.plugin.features.get(StartupPolicyFeature);
+        if (count > 0 && policyFeature) {
+            const plan = await policyFeature.buildApplyPlan(Array.from(this.pendingPluginIds));
+            if (!(await new ApplyPlanModal(this.app, plan).openAndWait())) return;
+            await policyFeature.prepareApply(Array.from(this.pendingPluginIds), this.originalModes);
+        }
         await this.plugin.saveSettings();
         this.plugin.configureLogger(); // Apply log level immediately
+        const lazyEngine = this.plugin.features.get(LazyEngineFeature);
+        lazyEngine?.syncPluginLookupPatch();
+        const commandCache = lazyEngine?.commandCache;
+        await commandCache?.useStorageBackend(this.plugin.settings.commandCacheBackend);
+        if (this.plugin.settings.shareCommandCache) {
+            await commandCache?.writeSharedCache();
+        }
 
         if (count > 0) {
             await this.plugin.events.emit(FeatureEvents.APPLY_POLICIES_REQUESTED, { pluginIds: Array.from(this.pendingPluginIds) });
@@ -271,7 +371,10 @@ export class SettingsTab extends PluginSettingTab {
 
         this.isDirty = false;
         this.pendingPluginIds.clear();
+        this.originalModes = {};
         this.updateApplyButton();
+        // A cancelled apply puts the old modes back.
+        if (count > 0 && this.pluginListBuilt) this.buildPluginList();
     }
 
     private async handleDiscardChanges(): Promise<void> {
@@ -279,6 +382,7 @@ export class SettingsTab extends PluginSettingTab {
             await this.plugin.loadSettings();
             this.isDirty = false;
             this.pendingPluginIds.clear();
+            this.originalModes = {};
             this.display();
             new Notice("Changes discarded");
         }
@@ -289,7 +393,7 @@ export class SettingsTab extends PluginSettingTab {
         this.pluginListContainer.textContent = "";
         let count = 0;
         // Add the delay settings for each installed plugin
-        this.plugin.manifests.forEach((plugin) => {
+        this.getSortedManifests().forEach((plugin) => {
             const currentValue = this.plugin.getPluginMode(plugin.id);
 
             // Filter the list of plugins if there is a filter specified
@@ -299,6 +403,9 @@ export class SettingsTab extends PluginSettingTab {
             count++;
             const setting = new Setting(this.pluginListContainer).setName(plugin.name);
 
+            this.addUsageStats(setting, plugin.id, currentValue);
+            this.addLoadTimeStats(setting, plugin.id);
+
             // Add gear button first (will appear on the left)
             const gearBtn = new ExtraButtonComponent(setting.controlEl)
                 .setIcon("gear")
@@ -325,17 +432,7 @@ export class SettingsTab extends PluginSettingTab {
                 this.dropdowns.push(dropdown);
                 this.addModeOptions(dropdown);
                 dropdown.setValue(currentValue).onChange((value: string) => {
-                    // Update the config, and defer apply until user confirms
-                    const mode = value as PLUGIN_MODE;
-                    this.pluginSettings[plugin.id] = {
-                        mode,
-                        userConfigured: true,
-                    };
-                    this.ensureLazyViewEntry(plugin.id, mode);
-                    this.pendingPluginIds.add(plugin.id);
-                    this.isDirty = true;
-                    this.updateApplyButton();
-                    this.buildPluginList(); // Rebuild to show/hide view types input
+                    this.stagePluginMode(plugin.id, value as PLUGIN_MODE);
                 });
             });
 
@@ -344,6 +441,9 @@ export class SettingsTab extends PluginSettingTab {
                     // Show or hide the plugin description depending on the user's choice
                     setting.setDesc(plugin.description);
                 }
+                this.addCompatibilityBadge(setting, plugin.id, currentValue);
+                if (currentValue === PLUGIN_MODE.LAZY) this.addBackgroundHookWarning(setting, plugin.id);
+                if (isLazy) this.addDependencyWarning(setting, plugin.id);
             });
         });
 
@@ -355,6 +455,157 @@ export class SettingsTab extends PluginSettingTab {
         this.updatePluginSectionVisibility();
     }
 
+    /**
+     * Update the config for a mode change, and defer apply until the user confirms.
+     */
+    private stagePluginMode(pluginId: string, mode: PLUGIN_MODE): void {
+        const { loadPriority, loadAfter, dependsOn, unloadAfterIdleMinutes } = this.pluginSettings[pluginId] ?? {};
+        this.originalModes[pluginId] ??= this.plugin.getPluginMode(pluginId);
+        this.pluginSettings[pluginId] = {
+            mode,
+            userConfigured: true,
+            // Load ordering, dependencies and idle unloading are independent of the mode, so keep them across mode changes.
+            loadPriority,
+            loadAfter,
+            dependsOn,
+            unloadAfterIdleMinutes,
+        };
+        this.ensureLazyViewEntry(pluginId, mode);
+        this.pendingPluginIds.add(pluginId);
+        this.isDirty = true;
+        this.updateApplyButton();
+        this.buildPluginList(); // Rebuild to show/hide view types input
+    }
+
+    private buildSortColumns(containerEl: HTMLElement): void {
+        containerEl.empty();
+        const columns: [PluginSortKey, string][] = [
+            ["name", "Name"],
+            ["uses", "Uses"],
+            ["lastUsed", "Last used"],
+        ];
+        for (const [key, label] of columns) {
+            const active = this.sortKey === key;
+            const button = containerEl.createEl("button", {
+                cls: ["lazy-plugin-sort-button", active ? "is-active" : ""],
+                text: active ? `${label} ${this.sortDescending ? "↓" : "↑"}` : label,
+            });
+            button.type = "button";
+            button.addEventListener("click", () => {
+                // Clicking the active column flips the direction; usage columns start with the most used first.
+                this.sortDescending = active ? !this.sortDescending : key !== "name";
+                this.sortKey = key;
+                this.buildSortColumns(containerEl);
+                this.buildPluginList();
+            });
+        }
+    }
+
+    private getSortedManifests() {
+        const tracker = this.plugin.features.get(LazyEngineFeature)?.usageTracker;
+        const manifests = [...this.plugin.manifests];
+        if (this.sortKey === "name" || !tracker) {
+            return this.sortDescending ? manifests.reverse() : manifests;
+        }
+
+        const value = (id: string) => (this.sortKey === "uses" ? tracker.getTotal(id).count : tracker.getTotal(id).lastUsedAt);
+        // Stable sort keeps the name order among plugins with equal usage.
+        return manifests.sort((a, b) => (this.sortDescending ? value(b.id) - value(a.id) : value(a.id) - value(b.id)));
+    }
+
+    /**
+     * Show how often a lazy plugin was used and when, to spot plugins nobody needs.
+     */
+    private addUsageStats(setting: Setting, pluginId: string, mode: PLUGIN_MODE): void {
+        const tracker = this.plugin.features.get(LazyEngineFeature)?.usageTracker;
+        if (!tracker) return;
+        const total = tracker.getTotal(pluginId);
+        // Only lazy loads are observed, so other modes have nothing to show until they were lazy.
+        if (!total.count && !isLazyMode(mode)) return;
+
+        const el = setting.controlEl.createSpan({
+            cls: "lazy-plugin-usage",
+            text: total.count ? `${total.count} uses · ${formatAge(Date.now() - total.lastUsedAt)}` : "Never used",
+        });
+        const kinds = (["command", "view", "file"] as const).map((kind) => `${kind}: ${tracker.get(pluginId, kind)?.count ?? 0}`);
+        el.setAttribute("aria-label", `Lazy activations by ${kinds.join(", ")}`);
+    }
+
+    /**
+     * Show the measured median / p95 load time to the left of the mode dropdown.
+     */
+    private addLoadTimeStats(setting: Setting, pluginId: string): void {
+        const stats = this.plugin.features.get(LazyEngineFeature)?.loadProfiler.getStats(pluginId);
+        if (!stats) return;
+
+        const el = setting.controlEl.createSpan({
+            cls: "lazy-plugin-load-time",
+            text: `${formatMs(stats.medianMs)} · p95 ${formatMs(stats.p95Ms)}`,
+        });
+        el.setAttribute("aria-label", `Median and 95th percentile load time over the last ${stats.count} loads`);
+    }
+
+    /**
+     * Flag plugins whose bundle uses APIs that do not work, or only partly
+     * work, while the plugin is not loaded. The full warning is shown once
+     * the plugin is set to Lazy on demand.
+     */
+    private addCompatibilityBadge(setting: Setting, pluginId: string, mode: PLUGIN_MODE): void {
+        const analysis = this.plugin.features.get(LazyEngineFeature)?.bundleAnalyzer.get(pluginId);
+        if (!analysis || analysis.compatibility === "compatible") return;
+
+        const unsafe = analysis.compatibility === "unsafe";
+        const labels = analysis.findings.map((finding) => finding.label);
+        const badge = setting.nameEl.createSpan({
+            cls: ["lazy-plugin-compat-badge", unsafe ? "mod-unsafe" : "mod-limited"],
+            text: unsafe ? "Background hooks" : "Partly lazy",
+        });
+        badge.setAttribute("aria-label", labels.join("\n"));
+
+        // Hooks observed at runtime are more precise; addBackgroundHookWarning shows those instead.
+        if (mode === PLUGIN_MODE.LAZY && !this.getBackgroundHooks(pluginId).length) {
+            setting.infoEl.createDiv({
+                cls: unsafe ? "lazy-plugin-compat-warning" : "lazy-plugin-compat-note",
+                text: unsafe ? `Will not run in the background until loaded: ${labels.join(", ")}. Consider lazy on layout ready instead.` : `Some features wait for the first load: ${labels.join(", ")}.`,
+            });
+        }
+    }
+
+    /**
+     * Warn when a lazy plugin was seen installing hooks that will not run
+     * while it is unloaded, with a one-click switch to Lazy on layout ready.
+     */
+    private addBackgroundHookWarning(setting: Setting, pluginId: string): void {
+        const hooks = this.getBackgroundHooks(pluginId);
+        if (!hooks.length) return;
+
+        const warningEl = setting.infoEl.createDiv({
+            cls: "lazy-plugin-hook-warning",
+            text: `Installs background hooks that will not run until it is loaded: ${hooks.join(", ")}.`,
+        });
+        const fixEl = warningEl.createEl("button", { cls: "lazy-plugin-hook-fix", text: "Switch to lazy on layout ready" });
+        fixEl.onclick = () => this.stagePluginMode(pluginId, PLUGIN_MODE.LAZY_ON_LAYOUT_READY);
+    }
+
+    private getBackgroundHooks(pluginId: string): string[] {
+        return this.plugin.features.get(LazyEngineFeature)?.commandCache.getKnownRegistrations(pluginId)?.backgroundHooks ?? [];
+    }
+
+    /**
+     * Warn when a plugin depends on one that is always disabled: the dependency
+     * is skipped when lazy-loading, so the plugin will likely fail.
+     */
+    private addDependencyWarning(setting: Setting, pluginId: string): void {
+        const disabled = (this.pluginSettings[pluginId]?.dependsOn ?? []).filter((id) => this.plugin.getPluginMode(id) === PLUGIN_MODE.ALWAYS_DISABLED);
+        if (!disabled.length) return;
+
+        const names = disabled.map((id) => this.plugin.manifests.find((m) => m.id === id)?.name ?? id);
+        setting.infoEl.createDiv({
+            cls: "lazy-plugin-dependency-warning",
+            text: `Depends on ${names.join(", ")}, which ${disabled.length === 1 ? "is" : "are"} always disabled.`,
+        });
+    }
+
     private updatePluginToggleButton(count: number): void {
         if (!this.pluginToggleButton) return;
         this.pluginToggleButton.textContent = `${count} Plugins`;
@@ -435,7 +686,7 @@ export class SettingsTab extends PluginSettingTab {
         this.discardButton.setDisabled(!hasChanges);
 
         if (count > 0) {
-            this.applyButton.setButtonText(`Save & apply (${count}) & restart obsidian`);
+            this.applyButton.setButtonText(`Save & apply (${count})`);
             this.applyButton.setWarning();
         } else {
             this.applyButton.setButtonText("Save changes");
@@ -443,3 +694,14 @@ export class SettingsTab extends PluginSettingTab {
         }
     }
 }
+
+function formatAge(ms: number): string {
+    const days = Math.floor(ms / (24 * 60 * 60 * 1000));
+    if (days >= 1) return `${days}d ago`;
+    const hours = Math.floor(ms / (60 * 60 * 1000));
+    return hours >= 1 ? `${hours}h ago` : "just now";
+}
+
+function formatMs(ms: number): string {
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}